@@ -10,8 +10,16 @@ import Dashboard from "@/pages/dashboard";
 import Locations from "@/pages/locations";
 import Team from "@/pages/team";
 import ProteinInventory from "@/pages/protein-inventory";
+import Inventory from "@/pages/inventory";
+import Purchasing from "@/pages/purchasing";
+import Commissary from "@/pages/commissary";
 import Reviews from "@/pages/reviews";
 import Profile from "@/pages/profile";
+import PointOfSale from "@/pages/pos";
+import Kitchen from "@/pages/kitchen";
+import Orders from "@/pages/orders";
+import Menu from "@/pages/menu";
+import Analytics from "@/pages/analytics";
 import Sidebar from "@/components/sidebar";
 
 function Router() {
@@ -43,9 +51,17 @@ function Router() {
       <div className="flex-1 ml-70 overflow-auto">
         <Switch>
           <Route path="/" component={Dashboard} />
+          <Route path="/pos" component={PointOfSale} />
+          <Route path="/kitchen" component={Kitchen} />
+          <Route path="/orders" component={Orders} />
+          <Route path="/menu" component={Menu} />
+          <Route path="/analytics" component={Analytics} />
           <Route path="/locations" component={Locations} />
           <Route path="/team" component={Team} />
           <Route path="/protein-inventory" component={ProteinInventory} />
+          <Route path="/inventory" component={Inventory} />
+          <Route path="/purchasing" component={Purchasing} />
+          <Route path="/commissary" component={Commissary} />
           <Route path="/reviews" component={Reviews} />
           <Route path="/profile" component={Profile} />
           <Route component={NotFound} />
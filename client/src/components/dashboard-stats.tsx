@@ -1,12 +1,23 @@
 import { Card, CardContent } from "@/components/ui/card";
-import { DollarSign, ShoppingCart, Star, MapPin, TrendingUp, TrendingDown } from "lucide-react";
+import { DollarSign, ShoppingCart, Star, MapPin, TrendingUp, TrendingDown, CalendarDays, CalendarRange } from "lucide-react";
+import type { BusinessMetrics } from "@/lib/types";
 
 interface DashboardStatsProps {
-  stats?: {
-    todaySales: number;
-    ordersToday: number;
-    averageRating: number;
-    activeLocations: number;
+  stats?: BusinessMetrics;
+}
+
+// Percent change against the same stretch of the previous period
+function describeChange(current: number, previous: number, period: string) {
+  if (previous === 0) {
+    return {
+      change: current > 0 ? `Up from none ${period}` : `None ${period} either`,
+      changeType: current > 0 ? "positive" as const : "neutral" as const,
+    };
+  }
+  const percent = Math.round(((current - previous) / previous) * 100);
+  return {
+    change: `${percent >= 0 ? "+" : ""}${percent}% from ${period}`,
+    changeType: percent > 0 ? "positive" as const : percent < 0 ? "negative" as const : "neutral" as const,
   };
 }
 
@@ -18,25 +29,39 @@ export default function DashboardStats({ stats }: DashboardStatsProps) {
   const statCards = [
     {
       title: "Today's Sales",
-      value: `$${stats.todaySales.toFixed(2)}`,
-      change: "+12% from yesterday",
-      changeType: "positive" as const,
+      value: `$${stats.revenue.today.toFixed(2)}`,
+      ...describeChange(stats.revenue.today, stats.revenue.yesterday, "yesterday"),
       icon: DollarSign,
       bgColor: "bg-primary/10",
       iconColor: "text-primary",
     },
     {
       title: "Orders Today",
-      value: stats.ordersToday.toString(),
-      change: "+8% from yesterday",
-      changeType: "positive" as const,
+      value: stats.orders.today.toString(),
+      ...describeChange(stats.orders.today, stats.orders.yesterday, "yesterday"),
       icon: ShoppingCart,
       bgColor: "bg-secondary/10",
       iconColor: "text-secondary",
     },
+    {
+      title: "Sales This Week",
+      value: `$${stats.revenue.thisWeek.toFixed(2)}`,
+      ...describeChange(stats.revenue.thisWeek, stats.revenue.lastWeek, "last week"),
+      icon: CalendarDays,
+      bgColor: "bg-primary/10",
+      iconColor: "text-primary",
+    },
+    {
+      title: "Sales This Month",
+      value: `$${stats.revenue.thisMonth.toFixed(2)}`,
+      ...describeChange(stats.revenue.thisMonth, stats.revenue.lastMonth, "last month"),
+      icon: CalendarRange,
+      bgColor: "bg-secondary/10",
+      iconColor: "text-secondary",
+    },
     {
       title: "Average Rating",
-      value: stats.averageRating.toFixed(1),
+      value: stats.customers.satisfactionScore.toFixed(1),
       change: "Based on recent reviews",
       changeType: "neutral" as const,
       icon: Star,
@@ -45,7 +70,7 @@ export default function DashboardStats({ stats }: DashboardStatsProps) {
     },
     {
       title: "Active Locations",
-      value: stats.activeLocations.toString(),
+      value: stats.operations.activeLocations.toString(),
       change: "Currently operating",
       changeType: "neutral" as const,
       icon: MapPin,
@@ -55,7 +80,7 @@ export default function DashboardStats({ stats }: DashboardStatsProps) {
   ];
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
       {statCards.map((stat) => {
         const Icon = stat.icon;
         const TrendIcon = stat.changeType === "positive" ? TrendingUp : 
@@ -0,0 +1,143 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { TruckFoodCost } from "@/lib/types";
+
+interface FoodCostReportProps {
+  from?: string;
+  to: string;
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? "—" : `${value.toFixed(1)}%`;
+}
+
+export default function FoodCostReport({ from, to }: FoodCostReportProps) {
+  const [expandedTruckId, setExpandedTruckId] = useState<number | null>(null);
+
+  const { data: report = [], isLoading } = useQuery<TruckFoodCost[]>({
+    queryKey: ["/api/analytics/food-cost", from, to],
+    queryFn: async () => {
+      const res = await fetch(`/api/analytics/food-cost?from=${from}&to=${to}`);
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    enabled: !!from,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Food Cost & Margin</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Theoretical cost is what recipes say sales should have used at today's costs. Actual cost is what left
+          protein inventory, so the gap shows waste, count variances, portioning and price changes.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+        ) : report.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No trucks to report on.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-3 text-sm font-medium text-muted-foreground">Truck</th>
+                  <th className="text-right py-3 text-sm font-medium text-muted-foreground">Revenue</th>
+                  <th className="text-right py-3 text-sm font-medium text-muted-foreground">Theoretical Cost</th>
+                  <th className="text-right py-3 text-sm font-medium text-muted-foreground">Margin</th>
+                  <th className="text-right py-3 text-sm font-medium text-muted-foreground">Protein (Recipe)</th>
+                  <th className="text-right py-3 text-sm font-medium text-muted-foreground">Protein (Actual)</th>
+                  <th className="text-right py-3 text-sm font-medium text-muted-foreground">Gap</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.map((truck) => {
+                  const isExpanded = expandedTruckId === truck.truckId;
+                  return (
+                    <Fragment key={truck.truckId}>
+                      <tr
+                        className="border-b border-gray-50 hover:bg-gray-50 cursor-pointer"
+                        onClick={() => setExpandedTruckId(isExpanded ? null : truck.truckId)}
+                      >
+                        <td className="py-4 text-sm font-medium text-foreground">
+                          <span className="flex items-center">
+                            {isExpanded ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                            {truck.truckName}
+                          </span>
+                        </td>
+                        <td className="py-4 text-sm text-right">${truck.revenue.toFixed(2)}</td>
+                        <td className="py-4 text-sm text-right">${truck.theoreticalCost.toFixed(2)}</td>
+                        <td className="py-4 text-sm text-right">
+                          ${truck.theoreticalMargin.toFixed(2)}
+                          <span className="text-muted-foreground ml-1">({formatPercent(truck.theoreticalMarginPercent)})</span>
+                        </td>
+                        <td className="py-4 text-sm text-right">${truck.theoreticalProteinCost.toFixed(2)}</td>
+                        <td
+                          className="py-4 text-sm text-right"
+                          title={`Sales $${truck.actualSalesCost.toFixed(2)} · Waste $${truck.actualWasteCost.toFixed(2)} · Counts and adjustments $${truck.actualVarianceCost.toFixed(2)}`}
+                        >
+                          ${truck.actualCost.toFixed(2)}
+                        </td>
+                        <td className={`py-4 text-sm text-right ${truck.gap > 0 ? "text-destructive font-medium" : ""}`}>
+                          {truck.gap > 0 ? "+" : ""}${truck.gap.toFixed(2)}
+                          <span className="text-muted-foreground ml-1">({formatPercent(truck.gapPercent)})</span>
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="border-b border-border bg-gray-50">
+                          <td colSpan={7} className="px-6 py-4">
+                            {truck.items.length === 0 ? (
+                              <p className="text-sm text-muted-foreground">No menu items on this truck.</p>
+                            ) : (
+                              <table className="w-full">
+                                <thead>
+                                  <tr className="text-xs text-muted-foreground">
+                                    <th className="text-left pb-2 font-medium">Item</th>
+                                    <th className="text-right pb-2 font-medium">Price</th>
+                                    <th className="text-right pb-2 font-medium">Plate Cost</th>
+                                    <th className="text-right pb-2 font-medium">Margin</th>
+                                    <th className="text-right pb-2 font-medium">Sold</th>
+                                    <th className="text-right pb-2 font-medium">Revenue</th>
+                                    <th className="text-right pb-2 font-medium">Theoretical Cost</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {truck.items.map((item) => (
+                                    <tr key={item.menuItemId} className="text-sm">
+                                      <td className="py-1">
+                                        {item.name}
+                                        {item.price === null && <span className="text-xs text-muted-foreground ml-1">(off menu)</span>}
+                                      </td>
+                                      <td className="py-1 text-right">{item.price === null ? "—" : `$${item.price.toFixed(2)}`}</td>
+                                      <td className="py-1 text-right" title={item.price !== null && item.plateCost === null ? "An ingredient has no cost" : undefined}>
+                                        {item.plateCost === null ? "—" : `$${item.plateCost.toFixed(2)}`}
+                                      </td>
+                                      <td className="py-1 text-right">
+                                        {item.margin === null ? "—" : `$${item.margin.toFixed(2)} (${formatPercent(item.marginPercent)})`}
+                                      </td>
+                                      <td className="py-1 text-right">{item.quantitySold}</td>
+                                      <td className="py-1 text-right">${item.revenue.toFixed(2)}</td>
+                                      <td className="py-1 text-right">${item.theoreticalCost.toFixed(2)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
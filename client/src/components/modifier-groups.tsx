@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Plus, Trash2, SlidersHorizontal } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { MenuItem, ModifierGroupWithOptions } from "@shared/schema";
+
+interface ModifierGroupsProps {
+  menuItems: MenuItem[];
+  canManage: boolean;
+}
+
+const emptyOption = { name: "", priceDelta: "", proteinAmount: "", proteinId: "" };
+
+export function describeSelectionRule(group: { minSelections: number; maxSelections: number }) {
+  if (group.minSelections === 0) {
+    return group.maxSelections === 1 ? "Optional, pick 1" : `Optional, up to ${group.maxSelections}`;
+  }
+  if (group.minSelections === group.maxSelections) {
+    return `Required, pick ${group.minSelections}`;
+  }
+  return `Required, pick ${group.minSelections}–${group.maxSelections}`;
+}
+
+export default function ModifierGroups({ menuItems, canManage }: ModifierGroupsProps) {
+  const { toast } = useToast();
+  const [newGroup, setNewGroup] = useState({ name: "", minSelections: "0", maxSelections: "1" });
+  const [newOptions, setNewOptions] = useState<Record<number, typeof emptyOption>>({});
+
+  const { data: groups = [] } = useQuery<ModifierGroupWithOptions[]>({
+    queryKey: ["/api/modifier-groups"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/modifier-groups"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/menu"] });
+  };
+
+  const showError = (description: string) => () => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const createGroupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/modifier-groups", {
+        name: newGroup.name.trim(),
+        minSelections: parseInt(newGroup.minSelections) || 0,
+        maxSelections: parseInt(newGroup.maxSelections) || 1,
+        sortOrder: groups.length,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setNewGroup({ name: "", minSelections: "0", maxSelections: "1" });
+    },
+    onError: showError("Failed to create modifier group"),
+  });
+
+  const deleteGroupMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/modifier-groups/${id}`);
+    },
+    onSuccess: invalidate,
+    onError: showError("Failed to delete modifier group"),
+  });
+
+  const setItemsMutation = useMutation({
+    mutationFn: async ({ groupId, menuItemIds }: { groupId: number; menuItemIds: number[] }) => {
+      const response = await apiRequest("PUT", `/api/modifier-groups/${groupId}/menu-items`, { menuItemIds });
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: showError("Failed to update which items offer this group"),
+  });
+
+  const createOptionMutation = useMutation({
+    mutationFn: async (groupId: number) => {
+      const option = newOptions[groupId] ?? emptyOption;
+      const response = await apiRequest("POST", `/api/modifier-groups/${groupId}/options`, {
+        name: option.name.trim(),
+        priceDelta: option.priceDelta.trim() || "0",
+        proteinAmount: option.proteinAmount.trim() || "0",
+        proteinId: option.proteinId ? parseInt(option.proteinId) : null,
+      });
+      return response.json();
+    },
+    onSuccess: (_, groupId) => {
+      invalidate();
+      setNewOptions((current) => ({ ...current, [groupId]: emptyOption }));
+    },
+    onError: showError("Failed to add option. Check the price and lbs."),
+  });
+
+  const deleteOptionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/modifier-options/${id}`);
+    },
+    onSuccess: invalidate,
+    onError: showError("Failed to delete option"),
+  });
+
+  const updateNewOption = (groupId: number, field: keyof typeof emptyOption, value: string) => {
+    setNewOptions((current) => ({
+      ...current,
+      [groupId]: { ...(current[groupId] ?? emptyOption), [field]: value },
+    }));
+  };
+
+  const toggleItem = (group: ModifierGroupWithOptions, menuItemId: number, checked: boolean) => {
+    const menuItemIds = checked
+      ? [...group.menuItemIds, menuItemId]
+      : group.menuItemIds.filter((id) => id !== menuItemId);
+    setItemsMutation.mutate({ groupId: group.id, menuItemIds });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <SlidersHorizontal className="h-5 w-5 mr-2" />
+          Modifiers & Combos
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {groups.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Add groups like "Extra meat", "Toppings" or "Make it a combo" and choose which items offer them.
+          </p>
+        )}
+
+        {groups.map((group) => {
+          const draft = newOptions[group.id] ?? emptyOption;
+
+          return (
+            <div key={group.id} className="border border-border rounded-lg p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h4 className="font-medium text-foreground">{group.name}</h4>
+                  <p className="text-xs text-muted-foreground">{describeSelectionRule(group)}</p>
+                </div>
+                {canManage && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteGroupMutation.mutate(group.id)}
+                    disabled={deleteGroupMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                {group.options.map((option) => (
+                  <div key={option.id} className="flex items-center justify-between text-sm">
+                    <span>
+                      {option.name}
+                      {Number(option.proteinAmount) !== 0 && (
+                        <span className="text-muted-foreground capitalize">
+                          {" "}· {Number(option.proteinAmount) > 0 ? "+" : ""}{Number(option.proteinAmount)} lbs {option.proteinType ?? ""}
+                        </span>
+                      )}
+                    </span>
+                    <span className="flex items-center space-x-2">
+                      <span className="font-medium">
+                        {Number(option.priceDelta) === 0
+                          ? "Free"
+                          : `${Number(option.priceDelta) > 0 ? "+" : "-"}$${Math.abs(Number(option.priceDelta)).toFixed(2)}`}
+                      </span>
+                      {canManage && (
+                        <Button variant="ghost" size="sm" onClick={() => deleteOptionMutation.mutate(option.id)}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </span>
+                  </div>
+                ))}
+
+                {canManage && (
+                  <form
+                    className="grid grid-cols-5 gap-2 pt-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (draft.name.trim()) {
+                        createOptionMutation.mutate(group.id);
+                      }
+                    }}
+                  >
+                    <Input
+                      className="col-span-2 h-8"
+                      placeholder="Option, e.g. Extra meat"
+                      value={draft.name}
+                      onChange={(e) => updateNewOption(group.id, "name", e.target.value)}
+                    />
+                    <Input
+                      className="h-8"
+                      placeholder="+$ 0.00"
+                      value={draft.priceDelta}
+                      onChange={(e) => updateNewOption(group.id, "priceDelta", e.target.value)}
+                    />
+                    <Input
+                      className="h-8"
+                      placeholder="+lbs"
+                      value={draft.proteinAmount}
+                      onChange={(e) => updateNewOption(group.id, "proteinAmount", e.target.value)}
+                    />
+                    <Button type="submit" variant="outline" size="sm" className="h-8" disabled={createOptionMutation.isPending}>
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </form>
+                )}
+              </div>
+
+              <div>
+                <p className="text-xs font-medium text-muted-foreground mb-2">Offered on</p>
+                <div className="flex flex-wrap gap-3">
+                  {menuItems.filter((item) => !item.archivedAt).map((item) => (
+                    <div key={item.id} className="flex items-center space-x-1">
+                      <Checkbox
+                        id={`group-${group.id}-item-${item.id}`}
+                        checked={group.menuItemIds.includes(item.id)}
+                        disabled={!canManage || setItemsMutation.isPending}
+                        onCheckedChange={(checked) => toggleItem(group, item.id, checked === true)}
+                      />
+                      <Label htmlFor={`group-${group.id}-item-${item.id}`} className="text-sm capitalize">
+                        {item.name}
+                      </Label>
+                    </div>
+                  ))}
+                  {group.menuItemIds.length === 0 && (
+                    <Badge variant="outline">Not offered yet</Badge>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        {canManage && (
+          <form
+            className="grid grid-cols-5 gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newGroup.name.trim()) {
+                createGroupMutation.mutate();
+              }
+            }}
+          >
+            <Input
+              className="col-span-2"
+              placeholder="New group, e.g. Make it a combo"
+              value={newGroup.name}
+              onChange={(e) => setNewGroup({ ...newGroup, name: e.target.value })}
+            />
+            <Input
+              type="number"
+              min={0}
+              title="Minimum choices (0 = optional)"
+              placeholder="Min"
+              value={newGroup.minSelections}
+              onChange={(e) => setNewGroup({ ...newGroup, minSelections: e.target.value })}
+            />
+            <Input
+              type="number"
+              min={1}
+              title="Maximum choices"
+              placeholder="Max"
+              value={newGroup.maxSelections}
+              onChange={(e) => setNewGroup({ ...newGroup, maxSelections: e.target.value })}
+            />
+            <Button type="submit" variant="outline" disabled={createGroupMutation.isPending}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Group
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
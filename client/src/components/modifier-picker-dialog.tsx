@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { describeSelectionRule } from "@/components/modifier-groups";
+import type { ModifierOption, TruckMenuEntry } from "@shared/schema";
+
+interface ModifierPickerDialogProps {
+  menuItem: TruckMenuEntry | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (menuItem: TruckMenuEntry, options: ModifierOption[]) => void;
+}
+
+function formatDelta(priceDelta: string) {
+  const delta = Number(priceDelta);
+  if (delta === 0) return "";
+  return `${delta > 0 ? "+" : "-"}$${Math.abs(delta).toFixed(2)}`;
+}
+
+export default function ModifierPickerDialog({ menuItem, onOpenChange, onConfirm }: ModifierPickerDialogProps) {
+  // Selected option ids, per group
+  const [selected, setSelected] = useState<Record<number, number[]>>({});
+
+  useEffect(() => {
+    setSelected({});
+  }, [menuItem?.id]);
+
+  if (!menuItem) return null;
+
+  const groups = menuItem.modifierGroups;
+  const isComplete = groups.every((group) => (selected[group.id]?.length ?? 0) >= group.minSelections);
+  const chosen = groups.flatMap((group) =>
+    group.options.filter((option) => selected[group.id]?.includes(option.id))
+  );
+  const unitPrice = Math.max(
+    0,
+    chosen.reduce((sum, option) => sum + Number(option.priceDelta), Number(menuItem.price))
+  );
+
+  const toggle = (groupId: number, optionId: number, checked: boolean, max: number) => {
+    setSelected((current) => {
+      const ids = current[groupId] ?? [];
+      if (!checked) return { ...current, [groupId]: ids.filter((id) => id !== optionId) };
+      if (ids.length >= max) return current;
+      return { ...current, [groupId]: [...ids, optionId] };
+    });
+  };
+
+  return (
+    <Dialog open={!!menuItem} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="capitalize">{menuItem.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6 max-h-[60vh] overflow-y-auto">
+          {groups.map((group) => (
+            <div key={group.id} className="space-y-3">
+              <div>
+                <h4 className="font-medium text-foreground">{group.name}</h4>
+                <p className="text-xs text-muted-foreground">{describeSelectionRule(group)}</p>
+              </div>
+
+              {group.maxSelections === 1 ? (
+                <RadioGroup
+                  value={selected[group.id]?.[0] ? String(selected[group.id][0]) : ""}
+                  onValueChange={(value) => setSelected((current) => ({ ...current, [group.id]: [parseInt(value)] }))}
+                >
+                  {group.options.map((option) => (
+                    <div key={option.id} className="flex items-center justify-between h-10">
+                      <div className="flex items-center space-x-3">
+                        <RadioGroupItem value={String(option.id)} id={`option-${option.id}`} />
+                        <Label htmlFor={`option-${option.id}`} className="text-base">{option.name}</Label>
+                      </div>
+                      <span className="text-sm text-muted-foreground">{formatDelta(option.priceDelta)}</span>
+                    </div>
+                  ))}
+                </RadioGroup>
+              ) : (
+                group.options.map((option) => {
+                  const isChecked = selected[group.id]?.includes(option.id) ?? false;
+                  const isFull = (selected[group.id]?.length ?? 0) >= group.maxSelections;
+                  return (
+                    <div key={option.id} className="flex items-center justify-between h-10">
+                      <div className="flex items-center space-x-3">
+                        <Checkbox
+                          id={`option-${option.id}`}
+                          checked={isChecked}
+                          disabled={!isChecked && isFull}
+                          onCheckedChange={(checked) => toggle(group.id, option.id, checked === true, group.maxSelections)}
+                        />
+                        <Label htmlFor={`option-${option.id}`} className="text-base">{option.name}</Label>
+                      </div>
+                      <span className="text-sm text-muted-foreground">{formatDelta(option.priceDelta)}</span>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" className="h-12" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="h-12 bg-primary hover:bg-primary/90"
+            disabled={!isComplete}
+            onClick={() => onConfirm(menuItem, chosen)}
+          >
+            Add · ${unitPrice.toFixed(2)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,181 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  orderStatusTransitions,
+  type Order,
+  type OrderLineItem,
+  type OrderStatus,
+  type OrderStatusHistoryEntry,
+} from "@shared/schema";
+
+interface OrderDetailDialogProps {
+  order: Order | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function getOrderStatusVariant(status: string) {
+  switch (status.toLowerCase()) {
+    case "completed":
+      return "default";
+    case "preparing":
+    case "ready":
+      return "secondary";
+    case "cancelled":
+    case "refunded":
+      return "destructive";
+    default:
+      return "outline";
+  }
+}
+
+const transitionLabels: Record<OrderStatus, string> = {
+  pending: "Mark Pending",
+  preparing: "Start Preparing",
+  ready: "Mark Ready",
+  completed: "Complete",
+  cancelled: "Cancel Order",
+  refunded: "Refund",
+};
+
+interface OrderDetailsProps {
+  order: Order;
+  onStatusChanged?: () => void;
+}
+
+// Line items, status timeline and the allowed next steps for one order.
+// Shared by the dialog and the order history drawer.
+export function OrderDetails({ order, onStatusChanged }: OrderDetailsProps) {
+  const { toast } = useToast();
+
+  const { data: history = [] } = useQuery<OrderStatusHistoryEntry[]>({
+    queryKey: ["/api/orders", order.truckId, order.id, "history"],
+    queryFn: () => fetch(`/api/orders/${order.id}/history`).then(res => res.json()),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: OrderStatus) => {
+      const response = await apiRequest("PUT", `/api/orders/${order.id}`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", order.truckId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sales"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts", order.truckId] });
+      onStatusChanged?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409")
+          ? "That status change isn't allowed for this order"
+          : "Failed to update order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const items = (order.items ?? []) as OrderLineItem[];
+  const nextStatuses = orderStatusTransitions[order.status as OrderStatus] ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          {order.customerName || "Walk-in Customer"}
+          {order.createdAt && ` · ${format(new Date(order.createdAt), "MMM d, h:mm a")}`}
+        </p>
+        {items.map((item, index) => (
+          <div key={index} className="text-sm">
+            <div className="flex justify-between">
+              <span className="capitalize">
+                {item.quantity}x {item.proteinType} {item.name}
+              </span>
+              <span>${Number(item.lineTotal ?? 0).toFixed(2)}</span>
+            </div>
+            {item.modifiers?.map((modifier) => (
+              <p key={modifier.optionId} className="text-xs text-muted-foreground pl-4">
+                + {modifier.name}
+                {modifier.priceDelta !== 0 && ` (${modifier.priceDelta > 0 ? "+" : "-"}$${Math.abs(modifier.priceDelta).toFixed(2)})`}
+              </p>
+            ))}
+          </div>
+        ))}
+        <div className="flex justify-between pt-2 border-t font-medium">
+          <span>Total</span>
+          <span>${Number(order.totalAmount).toFixed(2)}</span>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium mb-2">Status History</h4>
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No status changes recorded</p>
+        ) : (
+          <ol className="space-y-2 border-l pl-4">
+            {history.map((entry) => (
+              <li key={entry.id} className="text-sm">
+                <p className="text-foreground">
+                  {entry.fromStatus ? (
+                    <>
+                      <span className="capitalize">{entry.fromStatus}</span> →{" "}
+                      <span className="capitalize font-medium">{entry.toStatus}</span>
+                    </>
+                  ) : (
+                    <>Created as <span className="capitalize font-medium">{entry.toStatus}</span></>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {entry.changedByName || "System"}
+                  {entry.createdAt && ` · ${format(new Date(entry.createdAt), "MMM d, h:mm a")}`}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {nextStatuses.length > 0 && (
+        <div className="flex justify-end gap-2">
+          {nextStatuses.map((status) => (
+            <Button
+              key={status}
+              variant={status === "cancelled" || status === "refunded" ? "destructive" : "default"}
+              disabled={statusMutation.isPending}
+              onClick={() => statusMutation.mutate(status)}
+            >
+              {transitionLabels[status]}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function OrderDetailDialog({ order, onOpenChange }: OrderDetailDialogProps) {
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        {order && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center justify-between pr-6">
+                <span>Order #{order.orderNumber}</span>
+                <Badge variant={getOrderStatusVariant(order.status)} className="capitalize">
+                  {order.status}
+                </Badge>
+              </DialogTitle>
+            </DialogHeader>
+            <OrderDetails order={order} onStatusChanged={() => onOpenChange(false)} />
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Edit, Plus } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useProteins } from "@/hooks/useProteins";
+import type { Protein } from "@shared/schema";
+import { units } from "@shared/units";
+
+interface ProteinCatalogueProps {
+  canManage: boolean;
+}
+
+const emptyProtein = { name: "", icon: "", defaultUnit: "lbs", costPerUnit: "" };
+
+export default function ProteinCatalogue({ canManage }: ProteinCatalogueProps) {
+  const { toast } = useToast();
+  const { proteins, iconFor } = useProteins();
+  // null while closed; editing an existing protein keeps its id
+  const [editing, setEditing] = useState<{ id: number | null } | null>(null);
+  const [draft, setDraft] = useState(emptyProtein);
+
+  const openEditor = (protein?: Protein) => {
+    setEditing({ id: protein?.id ?? null });
+    setDraft(
+      protein
+        ? {
+            name: protein.name,
+            icon: protein.icon ?? "",
+            defaultUnit: protein.defaultUnit,
+            costPerUnit: protein.costPerUnit ?? "",
+          }
+        : emptyProtein
+    );
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: draft.name.trim(),
+        icon: draft.icon.trim() || null,
+        defaultUnit: draft.defaultUnit,
+        costPerUnit: draft.costPerUnit.trim() || null,
+      };
+      const response = editing?.id
+        ? await apiRequest("PUT", `/api/proteins/${editing.id}`, body)
+        : await apiRequest("POST", "/api/proteins", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/proteins"] });
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409")
+          ? "That name is already used by another protein or on a recipe with this protein"
+          : "Failed to save protein. Each name can only be used once.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const response = await apiRequest("PUT", `/api/proteins/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/proteins"] });
+    },
+  });
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg">Protein Catalogue</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              The proteins every truck and menu item can use. Inactive ones stay on existing stock but can't be added.
+            </p>
+          </div>
+          {canManage && (
+            <Button variant="outline" size="sm" onClick={() => openEditor()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {proteins.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add the proteins your trucks cook with.</p>
+        ) : (
+          <div className="space-y-3">
+            {proteins.map((protein) => (
+              <div key={protein.id} className="flex items-center justify-between">
+                <div className={protein.isActive ? "" : "opacity-50"}>
+                  <p className="text-sm font-medium capitalize">
+                    {iconFor(protein.id)} {protein.name}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {protein.costPerUnit
+                      ? `$${Number(protein.costPerUnit).toFixed(2)}/${protein.defaultUnit}`
+                      : `By the ${protein.defaultUnit}, no cost set`}
+                  </p>
+                </div>
+                {canManage && (
+                  <div className="flex items-center space-x-2">
+                    <Button variant="ghost" size="sm" title="Edit" onClick={() => openEditor(protein)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Switch
+                      checked={protein.isActive}
+                      title={protein.isActive ? "Active" : "Inactive"}
+                      onCheckedChange={(isActive) => toggleMutation.mutate({ id: protein.id, isActive })}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? "Edit Protein" : "Add Protein"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-4 gap-2">
+              <Input
+                placeholder="🌮"
+                value={draft.icon}
+                onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+              />
+              <Input
+                className="col-span-3"
+                placeholder="Name, e.g. al pastor"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={draft.defaultUnit} onValueChange={(defaultUnit) => setDraft({ ...draft, defaultUnit })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {units.map((unit) => (
+                    <SelectItem key={unit} value={unit}>
+                      {unit}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder={`$ per ${draft.defaultUnit}`}
+                value={draft.costPerUnit}
+                onChange={(e) => setDraft({ ...draft, costPerUnit: e.target.value })}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {editing?.id
+                ? "A new name shows on stock, menu items and recipes; past orders keep the old one. Unit and cost apply to stock added from now on."
+                : "New stock of this protein starts in this unit and at this cost."}
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-primary hover:bg-primary/90"
+              disabled={!draft.name.trim() || saveMutation.isPending}
+              onClick={() => saveMutation.mutate()}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ProteinInventory, Supplier } from "@shared/schema";
+import { canConvert, units } from "@shared/units";
+
+interface PurchaseOrderDialogProps {
+  truckId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Prefills the order, e.g. from reorder suggestions
+  initialLines?: DraftLine[];
+}
+
+export interface DraftLine {
+  proteinInventoryId: string;
+  quantityOrdered: string;
+  unitCost: string;
+  // Defaults to the item's stock unit, e.g. order by the case and receive in lbs
+  unit?: string;
+}
+
+const emptyLine: DraftLine = { proteinInventoryId: "", quantityOrdered: "", unitCost: "" };
+
+export default function PurchaseOrderDialog({ truckId, open, onOpenChange, initialLines }: PurchaseOrderDialogProps) {
+  const { toast } = useToast();
+  const [supplierId, setSupplierId] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<DraftLine[]>([emptyLine]);
+
+  const { data: supplierList = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+    enabled: open,
+  });
+
+  const { data: stock = [] } = useQuery<ProteinInventory[]>({
+    queryKey: ["/api/protein-inventory", truckId],
+    queryFn: () => fetch(`/api/protein-inventory/${truckId}`).then(res => res.json()),
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setSupplierId("");
+      setExpectedDate("");
+      setNotes("");
+      setLines(initialLines?.length ? initialLines : [emptyLine]);
+    }
+  }, [open]);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/purchase-orders", {
+        truckId,
+        supplierId: parseInt(supplierId),
+        expectedDate: expectedDate || undefined,
+        notes: notes.trim() || undefined,
+        lines: lines
+          .filter((line) => line.proteinInventoryId && line.quantityOrdered.trim())
+          .map((line) => ({
+            proteinInventoryId: parseInt(line.proteinInventoryId),
+            quantityOrdered: line.quantityOrdered.trim(),
+            unitCost: line.unitCost.trim() || "0",
+            unit: line.unit || undefined,
+          })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders", truckId] });
+      onOpenChange(false);
+      toast({
+        title: "Success",
+        description: "Purchase order saved as a draft",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save purchase order. Each item can appear once, with a quantity and cost.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const total = lines.reduce((sum, line) => sum + Number(line.quantityOrdered || 0) * Number(line.unitCost || 0), 0);
+  const activeSuppliers = supplierList.filter((supplier) => supplier.isActive);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>New Purchase Order</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={supplierId} onValueChange={setSupplierId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Supplier" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeSuppliers.map((supplier) => (
+                  <SelectItem key={supplier.id} value={String(supplier.id)}>
+                    {supplier.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input type="date" value={expectedDate} onChange={(e) => setExpectedDate(e.target.value)} />
+          </div>
+
+          {lines.map((line, index) => {
+            const row = stock.find((row) => String(row.id) === line.proteinInventoryId);
+            const stockUnit = row?.unit ?? "lbs";
+            const unit = line.unit || stockUnit;
+            const pack = row?.packSize ? { size: Number(row.packSize), unit: stockUnit } : null;
+            const unitOptions = [
+              stockUnit,
+              ...units.filter((option) => option !== stockUnit && canConvert(option, stockUnit, pack)),
+            ];
+            return (
+              <div key={index} className="grid grid-cols-12 gap-2">
+                <Select value={line.proteinInventoryId} onValueChange={(value) => updateLine(index, { proteinInventoryId: value, unit: undefined })}>
+                  <SelectTrigger className="col-span-4">
+                    <SelectValue placeholder="Item" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {stock.map((row) => (
+                      <SelectItem key={row.id} value={String(row.id)} className="capitalize">
+                        {row.proteinType}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="col-span-2"
+                  placeholder="Qty"
+                  value={line.quantityOrdered}
+                  onChange={(e) => updateLine(index, { quantityOrdered: e.target.value })}
+                />
+                <Select value={unit} onValueChange={(value) => updateLine(index, { unit: value === stockUnit ? undefined : value })}>
+                  <SelectTrigger className="col-span-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unitOptions.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="col-span-3"
+                  placeholder={`$ per ${unit}`}
+                  value={line.unitCost}
+                  onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="col-span-1"
+                  disabled={lines.length === 1}
+                  onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+
+          <div className="flex items-center justify-between">
+            <Button variant="outline" size="sm" onClick={() => setLines((current) => [...current, emptyLine])}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Line
+            </Button>
+            <span className="text-sm font-medium">Total ${total.toFixed(2)}</span>
+          </div>
+
+          <Input placeholder="Notes (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-primary hover:bg-primary/90"
+            disabled={!supplierId || createMutation.isPending}
+            onClick={() => createMutation.mutate()}
+          >
+            Save Draft
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
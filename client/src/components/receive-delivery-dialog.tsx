@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { PurchaseOrderWithLines } from "@shared/schema";
+
+interface ReceiveDeliveryDialogProps {
+  order: PurchaseOrderWithLines | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ReceiveDeliveryDialog({ order, onOpenChange }: ReceiveDeliveryDialogProps) {
+  const { toast } = useToast();
+  // Quantity arriving per line id
+  const [received, setReceived] = useState<Record<number, string>>({});
+
+  // Default each line to whatever is still outstanding
+  useEffect(() => {
+    if (!order) return;
+    setReceived(
+      Object.fromEntries(
+        order.lines.map((line) => {
+          const outstanding = Number(line.quantityOrdered) - Number(line.quantityReceived);
+          return [line.id, outstanding > 0 ? outstanding.toFixed(2) : ""];
+        })
+      )
+    );
+  }, [order?.id]);
+
+  const receiveMutation = useMutation({
+    mutationFn: async () => {
+      const lines = Object.entries(received)
+        .filter(([, quantity]) => quantity.trim() && Number(quantity) > 0)
+        .map(([lineId, quantity]) => ({ lineId: parseInt(lineId), quantity: quantity.trim() }));
+      const response = await apiRequest("POST", `/api/purchase-orders/${order!.id}/receive`, { lines });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders", order?.truckId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/protein-inventory", order?.truckId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts", order?.truckId] });
+      onOpenChange(false);
+      toast({
+        title: "Success",
+        description: "Delivery received into inventory",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to receive delivery",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasEntries = Object.values(received).some((quantity) => quantity.trim() && Number(quantity) > 0);
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Receive PO #{order?.id}</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          Enter what actually arrived. Anything short stays open for a later delivery.
+        </p>
+        <div className="space-y-3">
+          {order?.lines.map((line) => (
+            <div key={line.id} className="grid grid-cols-12 gap-2 items-center">
+              <div className="col-span-7">
+                <p className="text-sm font-medium capitalize">{line.itemName}</p>
+                <p className="text-xs text-muted-foreground">
+                  {Number(line.quantityReceived).toFixed(2)} of {Number(line.quantityOrdered).toFixed(2)} {line.unit} received
+                  · ${Number(line.unitCost).toFixed(2)}/{line.unit}
+                </p>
+              </div>
+              <Input
+                className="col-span-5"
+                placeholder={line.unit}
+                value={received[line.id] ?? ""}
+                onChange={(e) => setReceived((current) => ({ ...current, [line.id]: e.target.value }))}
+              />
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-primary hover:bg-primary/90"
+            disabled={!hasEntries || receiveMutation.isPending}
+            onClick={() => receiveMutation.mutate()}
+          >
+            Receive
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
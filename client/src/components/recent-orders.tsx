@@ -1,34 +1,27 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Clock, ExternalLink } from "lucide-react";
 import { format } from "date-fns";
+import OrderDetailDialog, { getOrderStatusVariant } from "@/components/order-detail-dialog";
+import type { OrderPage } from "@/lib/types";
 
 interface RecentOrdersProps {
   truckId: number;
 }
 
 export default function RecentOrders({ truckId }: RecentOrdersProps) {
-  const { data: orders = [], isLoading } = useQuery({
-    queryKey: ["/api/orders", truckId],
+  const [selectedOrder, setSelectedOrder] = useState<any>(null);
+
+  const { data: recent, isLoading } = useQuery<OrderPage>({
+    queryKey: ["/api/orders", truckId, "recent"],
+    queryFn: () => fetch(`/api/orders/${truckId}?limit=10`).then(res => res.json()),
     enabled: !!truckId,
   });
-
-  const getStatusColor = (status: string) => {
-    switch (status.toLowerCase()) {
-      case "completed":
-        return "default";
-      case "preparing":
-        return "secondary";
-      case "pending":
-        return "outline";
-      case "cancelled":
-        return "destructive";
-      default:
-        return "outline";
-    }
-  };
+  const orders = recent?.orders ?? [];
 
   const formatOrderItems = (items: any) => {
     if (typeof items === 'string') {
@@ -78,9 +71,11 @@ export default function RecentOrders({ truckId }: RecentOrdersProps) {
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle>Recent Orders</CardTitle>
-          <Button variant="ghost" size="sm" className="text-primary hover:text-primary/80">
-            <ExternalLink className="h-4 w-4 mr-1" />
-            View All Orders
+          <Button asChild variant="ghost" size="sm" className="text-primary hover:text-primary/80">
+            <Link href="/orders">
+              <ExternalLink className="h-4 w-4 mr-1" />
+              View All Orders
+            </Link>
           </Button>
         </div>
       </CardHeader>
@@ -107,8 +102,12 @@ export default function RecentOrders({ truckId }: RecentOrdersProps) {
                 </tr>
               </thead>
               <tbody>
-                {orders.slice(0, 10).map((order: any) => (
-                  <tr key={order.id} className="border-b border-gray-50 hover:bg-gray-50">
+                {orders.map((order: any) => (
+                  <tr
+                    key={order.id}
+                    className="border-b border-gray-50 hover:bg-gray-50 cursor-pointer"
+                    onClick={() => setSelectedOrder(order)}
+                  >
                     <td className="py-4 text-sm font-medium text-foreground">
                       #{order.orderNumber}
                     </td>
@@ -122,7 +121,7 @@ export default function RecentOrders({ truckId }: RecentOrdersProps) {
                       ${Number(order.totalAmount).toFixed(2)}
                     </td>
                     <td className="py-4">
-                      <Badge variant={getStatusColor(order.status)} className="capitalize">
+                      <Badge variant={getOrderStatusVariant(order.status)} className="capitalize">
                         {order.status}
                       </Badge>
                     </td>
@@ -136,6 +135,10 @@ export default function RecentOrders({ truckId }: RecentOrdersProps) {
           </div>
         )}
       </CardContent>
+      <OrderDetailDialog
+        order={selectedOrder}
+        onOpenChange={(open) => !open && setSelectedOrder(null)}
+      />
     </Card>
   );
 }
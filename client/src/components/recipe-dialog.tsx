@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useProteins } from "@/hooks/useProteins";
+import type { InventoryItem, MenuItem, ProteinInventory, RecipeIngredient, RecipeLine } from "@shared/schema";
+
+interface RecipeDialogProps {
+  menuItem: MenuItem | null;
+  truckId?: number;
+  canManage: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const recipeUnits = ["lbs", "oz", "kg", "g", "pieces", "cups", "liters", "gallons"];
+
+// Lines are sent by name; the server links catalogue proteins by id
+type DraftLine = Omit<RecipeLine, "proteinId">;
+
+const emptyLine: DraftLine = { ingredient: "", quantity: "", unit: "lbs" };
+
+export default function RecipeDialog({ menuItem, truckId, canManage, onOpenChange }: RecipeDialogProps) {
+  const { toast } = useToast();
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const { activeProteins } = useProteins();
+
+  const { data: recipe, isLoading } = useQuery<RecipeIngredient[]>({
+    queryKey: ["/api/menu-items", menuItem?.id, "recipe"],
+    queryFn: () => fetch(`/api/menu-items/${menuItem?.id}/recipe`).then(res => res.json()),
+    enabled: !!menuItem,
+  });
+
+  // Suggest catalogue proteins and what this truck already stocks
+  const { data: stock = [] } = useQuery<ProteinInventory[]>({
+    queryKey: ["/api/protein-inventory", truckId],
+    queryFn: () => fetch(`/api/protein-inventory/${truckId}`).then(res => res.json()),
+    enabled: !!menuItem && !!truckId,
+  });
+
+  const { data: generalStock = [] } = useQuery<InventoryItem[]>({
+    queryKey: ["/api/inventory", truckId],
+    queryFn: () => fetch(`/api/inventory/${truckId}`).then(res => res.json()),
+    enabled: !!menuItem && !!truckId,
+  });
+
+  // Start from the saved recipe, or from the item's single protein if it has none
+  useEffect(() => {
+    if (!menuItem || !recipe) return;
+    setLines(
+      recipe.length > 0
+        ? recipe.map(({ ingredient, quantity, unit }) => ({ ingredient, quantity, unit }))
+        : [{ ingredient: menuItem.proteinType, quantity: menuItem.proteinAmount, unit: "lbs" }]
+    );
+  }, [menuItem, recipe]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const ingredients = lines
+        .filter((line) => line.ingredient.trim() && line.quantity.trim())
+        .map((line) => ({ ...line, ingredient: line.ingredient.trim(), quantity: line.quantity.trim() }));
+      const response = await apiRequest("PUT", `/api/menu-items/${menuItem!.id}/recipe`, { ingredients });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/menu-items", menuItem?.id, "recipe"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/menu"] });
+      onOpenChange(false);
+      toast({
+        title: "Success",
+        description: "Recipe saved",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save recipe. Check each ingredient is listed once with a quantity above zero.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const stockedIngredients = Array.from(new Set([
+    ...activeProteins.map((protein) => protein.name),
+    ...stock.map((row) => row.proteinType),
+    ...generalStock.map((item) => item.name.toLowerCase()),
+  ]));
+
+  return (
+    <Dialog open={!!menuItem} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="capitalize">{menuItem?.name} Recipe</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          What one serving uses. Completed orders take these amounts out of the truck's stock
+          of each catalogue protein or inventory item, converted to the unit it's kept in.
+        </p>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+        ) : (
+          <div className="space-y-2">
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2">
+                <Input
+                  className="col-span-6"
+                  placeholder="Ingredient, e.g. tortillas"
+                  list="recipe-ingredients"
+                  value={line.ingredient}
+                  disabled={!canManage}
+                  onChange={(e) => updateLine(index, { ingredient: e.target.value })}
+                />
+                <Input
+                  className="col-span-2"
+                  placeholder="Qty"
+                  value={line.quantity}
+                  disabled={!canManage}
+                  onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                />
+                <Select value={line.unit} disabled={!canManage} onValueChange={(unit) => updateLine(index, { unit })}>
+                  <SelectTrigger className="col-span-3">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {recipeUnits.map((unit) => (
+                      <SelectItem key={unit} value={unit}>
+                        {unit}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {canManage && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="col-span-1"
+                    onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            <datalist id="recipe-ingredients">
+              {stockedIngredients.map((ingredient) => (
+                <option key={ingredient} value={ingredient} />
+              ))}
+            </datalist>
+
+            {canManage && (
+              <Button variant="outline" size="sm" onClick={() => setLines((current) => [...current, emptyLine])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Ingredient
+              </Button>
+            )}
+          </div>
+        )}
+
+        {canManage && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-primary hover:bg-primary/90"
+              disabled={saveMutation.isPending || isLoading}
+              onClick={() => saveMutation.mutate()}
+            >
+              Save Recipe
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ShoppingBasket } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { usePermissions } from "@/hooks/usePermissions";
+import PurchaseOrderDialog from "@/components/purchase-order-dialog";
+import type { ReorderSuggestion } from "@/lib/types";
+import type { ProteinInventory } from "@shared/schema";
+
+interface ReorderPanelProps {
+  truckId: number;
+  proteins: ProteinInventory[];
+}
+
+export default function ReorderPanel({ truckId, proteins }: ReorderPanelProps) {
+  const { can } = usePermissions();
+  const [isOrdering, setIsOrdering] = useState(false);
+
+  // Keyed under the inventory so stock changes refresh it too
+  const { data: suggestions = [] } = useQuery<ReorderSuggestion[]>({
+    queryKey: ["/api/protein-inventory", truckId, "reorder"],
+    queryFn: () => fetch(`/api/reorder-suggestions/${truckId}`).then(res => res.json()),
+  });
+
+  const toOrder = suggestions.filter((suggestion) => suggestion.suggestedQuantity > 0);
+  const totalCost = toOrder.reduce((total, suggestion) => total + suggestion.estimatedCost, 0);
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg">Reorder</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              What to order to get through delivery and the coming week, from the last 8 weeks of sales
+            </p>
+          </div>
+          {can("purchasing:manage") && toOrder.length > 0 && (
+            <Button variant="outline" size="sm" onClick={() => setIsOrdering(true)}>
+              <ShoppingBasket className="h-4 w-4 mr-2" />
+              Draft Purchase Order
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b">
+              <th className="pb-2 font-medium">Item</th>
+              <th className="pb-2 font-medium text-right">Avg / day</th>
+              <th className="pb-2 font-medium text-right">Next 7 days</th>
+              <th className="pb-2 font-medium text-right">Cover</th>
+              <th className="pb-2 font-medium text-right">On order</th>
+              <th className="pb-2 font-medium text-right">Suggested</th>
+              <th className="pb-2 font-medium text-right">Est. cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {suggestions.map((suggestion) => {
+              const runsOutFirst =
+                suggestion.daysOfCover !== null && suggestion.daysOfCover < suggestion.leadTimeDays;
+              return (
+                <tr key={suggestion.proteinInventoryId} className="border-b last:border-0">
+                  <td className="py-2 capitalize">{suggestion.itemName}</td>
+                  <td className="py-2 text-right">
+                    {suggestion.averageDailyUsage.toFixed(2)} {suggestion.unit}
+                  </td>
+                  <td className="py-2 text-right">
+                    {suggestion.forecastUsage.toFixed(2)} {suggestion.unit}
+                  </td>
+                  <td
+                    className={`py-2 text-right ${runsOutFirst ? "text-destructive font-medium" : ""}`}
+                    title={runsOutFirst ? `Runs out before a ${suggestion.leadTimeDays}-day delivery could arrive` : undefined}
+                  >
+                    {suggestion.daysOfCover === null ? "—" : `${suggestion.daysOfCover.toFixed(1)} days`}
+                  </td>
+                  <td className="py-2 text-right text-muted-foreground">
+                    {suggestion.onOrder > 0 ? `${suggestion.onOrder.toFixed(2)} ${suggestion.unit}` : "—"}
+                  </td>
+                  <td className="py-2 text-right font-medium">
+                    {suggestion.suggestedQuantity > 0 ? `${suggestion.suggestedQuantity} ${suggestion.unit}` : "—"}
+                  </td>
+                  <td className="py-2 text-right">
+                    {suggestion.estimatedCost > 0 ? `$${suggestion.estimatedCost.toFixed(2)}` : "—"}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {totalCost > 0 && (
+          <p className="text-sm font-medium text-right mt-3">Estimated total ${totalCost.toFixed(2)}</p>
+        )}
+        <p className="text-xs text-muted-foreground mt-3">
+          Lead time and safety stock are set per item in its stock history.
+        </p>
+      </CardContent>
+
+      <PurchaseOrderDialog
+        truckId={truckId}
+        open={isOrdering}
+        onOpenChange={setIsOrdering}
+        initialLines={toOrder.map((suggestion) => ({
+          proteinInventoryId: String(suggestion.proteinInventoryId),
+          quantityOrdered: String(suggestion.suggestedQuantity),
+          unitCost: proteins.find((protein) => protein.id === suggestion.proteinInventoryId)?.costPerUnit ?? "",
+        }))}
+      />
+    </Card>
+  );
+}
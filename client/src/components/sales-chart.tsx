@@ -1,66 +1,72 @@
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { ComposedChart, Line, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
 import { useState } from "react";
+import type { SalesBucket } from "@/lib/types";
 
 interface SalesChartProps {
   truckId: number;
 }
 
+// Each period picks the granularity that keeps the chart readable
+const timeRanges = {
+  today: { label: "Today", granularity: "hour", days: 1 },
+  "7days": { label: "Last 7 days", granularity: "day", days: 7 },
+  "30days": { label: "Last 30 days", granularity: "day", days: 30 },
+  "90days": { label: "Last 3 months", granularity: "week", days: 90 },
+} as const;
+
+type TimeRange = keyof typeof timeRanges;
+
 export default function SalesChart({ truckId }: SalesChartProps) {
-  const [timeRange, setTimeRange] = useState("7days");
+  const [timeRange, setTimeRange] = useState<TimeRange>("7days");
+  const { granularity, days } = timeRanges[timeRange];
 
-  const { data: orders = [] } = useQuery({
-    queryKey: ["/api/orders", truckId],
+  // Buckets are computed server-side in the truck's timezone
+  const { data: series = [] } = useQuery<SalesBucket[]>({
+    queryKey: ["/api/sales", truckId, granularity, days],
+    queryFn: () =>
+      fetch(`/api/sales/${truckId}?granularity=${granularity}&days=${days}`).then(res => res.json()),
     enabled: !!truckId,
   });
 
-  // Generate chart data from real orders
-  const generateChartData = () => {
-    const days = timeRange === "7days" ? 7 : timeRange === "30days" ? 30 : 90;
-    const data = [];
-    
-    for (let i = days - 1; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      const dateString = date.toISOString().split('T')[0];
-      
-      // Calculate actual sales from orders for this date
-      const dailyOrders = orders.filter(order => {
-        const orderDate = new Date(order.createdAt).toISOString().split('T')[0];
-        return orderDate === dateString && order.status === 'completed';
-      });
-      
-      const dailySales = dailyOrders.reduce((sum, order) => sum + Number(order.totalAmount), 0);
-      
-      data.push({
-        date: date.toLocaleDateString('en-US', { 
-          month: 'short', 
-          day: 'numeric' 
-        }),
-        sales: dailySales,
-      });
+  // Bucket times are local to the truck and carry no offset, so format the
+  // parts directly rather than letting the browser shift them
+  const formatBucket = (bucket: string) => {
+    const [datePart, timePart] = bucket.split("T");
+    const [year, month, day] = datePart.split("-").map(Number);
+    if (granularity === "hour") {
+      const hour = Number(timePart.slice(0, 2));
+      return `${hour % 12 || 12}${hour < 12 ? "am" : "pm"}`;
     }
-    
-    return data;
+    const label = new Date(year, month - 1, day).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric'
+    });
+    return granularity === "week" ? `Wk of ${label}` : label;
   };
 
-  const chartData = generateChartData();
+  const chartData = series.map((point) => ({
+    date: formatBucket(point.bucket),
+    sales: point.revenue,
+    orders: point.orders,
+    averageTicket: point.averageTicket,
+  }));
 
   return (
     <Card>
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle>Sales Overview</CardTitle>
-          <Select value={timeRange} onValueChange={setTimeRange}>
+          <Select value={timeRange} onValueChange={(value) => setTimeRange(value as TimeRange)}>
             <SelectTrigger className="w-40">
               <SelectValue placeholder="Select period" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="7days">Last 7 days</SelectItem>
-              <SelectItem value="30days">Last 30 days</SelectItem>
-              <SelectItem value="90days">Last 3 months</SelectItem>
+              {(Object.keys(timeRanges) as TimeRange[]).map((key) => (
+                <SelectItem key={key} value={key}>{timeRanges[key].label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -68,7 +74,7 @@ export default function SalesChart({ truckId }: SalesChartProps) {
       <CardContent>
         <div className="h-80">
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={chartData}>
+            <ComposedChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" stroke="#E9ECEF" />
               <XAxis 
                 dataKey="date" 
@@ -77,11 +83,20 @@ export default function SalesChart({ truckId }: SalesChartProps) {
                 tick={{ fontSize: 12, fill: '#6C757D' }}
               />
               <YAxis 
+                yAxisId="sales"
                 axisLine={false}
                 tickLine={false}
                 tick={{ fontSize: 12, fill: '#6C757D' }}
                 tickFormatter={(value) => `$${value}`}
               />
+              <YAxis 
+                yAxisId="orders"
+                orientation="right"
+                allowDecimals={false}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fontSize: 12, fill: '#6C757D' }}
+              />
               <Tooltip 
                 contentStyle={{
                   backgroundColor: 'white',
@@ -89,18 +104,31 @@ export default function SalesChart({ truckId }: SalesChartProps) {
                   borderRadius: '8px',
                   boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
                 }}
-                formatter={(value: number) => [`$${value}`, 'Sales']}
+                formatter={(value: number, name: string) =>
+                  name === 'Sales' ? [`$${value.toFixed(2)}`, name] : [value, name]
+                }
                 labelStyle={{ color: '#2D3436' }}
               />
+              <Legend />
+              <Bar 
+                yAxisId="orders"
+                dataKey="orders" 
+                name="Orders"
+                fill="#4ECDC4" 
+                fillOpacity={0.4}
+                radius={[4, 4, 0, 0]}
+              />
               <Line 
+                yAxisId="sales"
                 type="monotone" 
                 dataKey="sales" 
+                name="Sales"
                 stroke="#FF6B6B" 
                 strokeWidth={3}
                 dot={{ fill: '#FF6B6B', strokeWidth: 2, r: 4 }}
                 activeDot={{ r: 6, stroke: '#FF6B6B', strokeWidth: 2 }}
               />
-            </LineChart>
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
       </CardContent>
@@ -1,7 +1,14 @@
 import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTruckSelection } from "@/hooks/useTruckSelection";
+import { usePermissions } from "@/hooks/usePermissions";
+import type { FoodTruck } from "@shared/schema";
+import type { Permission } from "@shared/permissions";
+import type { InventoryAlert } from "@/lib/types";
 import { 
   BarChart3, 
   MapPin, 
@@ -12,14 +19,35 @@ import {
   Truck,
   Users,
   Beef,
-  LogOut
+  LogOut,
+  ShoppingCart,
+  ChefHat,
+  LineChart,
+  ClipboardList,
+  UtensilsCrossed,
+  PackageCheck,
+  Warehouse
 } from "lucide-react";
 
-const navigation = [
+const navigation: {
+  name: string;
+  href: string;
+  icon: typeof BarChart3;
+  permission?: Permission;
+  showsAlerts?: boolean;
+}[] = [
   { name: "Dashboard", href: "/", icon: BarChart3 },
+  { name: "Point of Sale", href: "/pos", icon: ShoppingCart },
+  { name: "Kitchen", href: "/kitchen", icon: ChefHat },
+  { name: "Orders", href: "/orders", icon: ClipboardList },
+  { name: "Menu", href: "/menu", icon: UtensilsCrossed },
+  { name: "Analytics", href: "/analytics", icon: LineChart, permission: "analytics:view" },
   { name: "Locations", href: "/locations", icon: MapPin },
   { name: "Team", href: "/team", icon: Users },
-  { name: "Protein Inventory", href: "/protein-inventory", icon: Beef },
+  { name: "Protein Inventory", href: "/protein-inventory", icon: Beef, showsAlerts: true },
+  { name: "Inventory", href: "/inventory", icon: Package },
+  { name: "Purchasing", href: "/purchasing", icon: PackageCheck },
+  { name: "Commissary", href: "/commissary", icon: Warehouse, permission: "inventory:allocate" },
   { name: "Reviews", href: "/reviews", icon: Star },
   { name: "Profile", href: "/profile", icon: User },
 ];
@@ -27,6 +55,22 @@ const navigation = [
 export default function Sidebar() {
   const [location] = useLocation();
   const { user } = useAuth();
+  const { trucks, selectedTruckId, selectTruck } = useTruckSelection();
+  const { can } = usePermissions();
+
+  const { data: foodTruck } = useQuery<FoodTruck>({
+    queryKey: ["/api/food-truck"],
+  });
+
+  // Alerts are raised server-side as stock moves, so poll for new ones
+  const { data: alerts = [] } = useQuery<InventoryAlert[]>({
+    queryKey: ["/api/alerts", foodTruck?.id],
+    queryFn: () => fetch(`/api/alerts/${foodTruck?.id}`).then(res => res.json()),
+    enabled: !!foodTruck?.id,
+    refetchInterval: 60 * 1000,
+  });
+  const openAlerts = alerts.filter((alert) => alert.status === "open");
+  const hasCritical = openAlerts.some((alert) => alert.severity === "critical");
 
   const getInitials = (firstName?: string, lastName?: string) => {
     return `${firstName?.[0] || ''}${lastName?.[0] || ''}`.toUpperCase() || 'U';
@@ -47,10 +91,33 @@ export default function Sidebar() {
         </div>
       </div>
 
+      {/* Truck selector, only useful when there's more than one truck */}
+      {trucks.length > 1 && (
+        <div className="px-4 pt-6">
+          <Select
+            value={selectedTruckId === "all" ? "all" : String(foodTruck?.id ?? "")}
+            onValueChange={(value) => selectTruck(value === "all" ? "all" : parseInt(value))}
+          >
+            <SelectTrigger>
+              <Truck className="h-4 w-4 mr-2 text-muted-foreground" />
+              <SelectValue placeholder="Select truck" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All trucks</SelectItem>
+              {trucks.map((truck) => (
+                <SelectItem key={truck.id} value={String(truck.id)}>
+                  {truck.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       {/* Navigation */}
       <nav className="mt-6">
         <ul className="space-y-2 px-4">
-          {navigation.map((item) => {
+          {navigation.filter((item) => !item.permission || can(item.permission)).map((item) => {
             const isActive = location === item.href;
             const Icon = item.icon;
             
@@ -66,6 +133,15 @@ export default function Sidebar() {
                   >
                     <Icon className="h-5 w-5" />
                     <span>{item.name}</span>
+                    {item.showsAlerts && openAlerts.length > 0 && (
+                      <span
+                        className={`ml-auto min-w-5 h-5 px-1.5 rounded-full text-xs font-semibold flex items-center justify-center ${
+                          hasCritical ? "bg-red-600 text-white" : "bg-yellow-400 text-yellow-900"
+                        }`}
+                      >
+                        {openAlerts.length}
+                      </span>
+                    )}
                   </a>
                 </Link>
               </li>
@@ -0,0 +1,106 @@
+import { useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, Check, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import type { InventoryAlert } from "@/lib/types";
+
+interface StockAlertsPanelProps {
+  truckId: number;
+  alerts: InventoryAlert[];
+}
+
+const kindLabels: Record<InventoryAlert["kind"], string> = {
+  low_stock: "Low stock",
+  overrun: "Over allocation",
+};
+
+export default function StockAlertsPanel({ truckId, alerts }: StockAlertsPanelProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: "acknowledge" | "resolve" }) => {
+      const response = await apiRequest("PUT", `/api/alerts/${id}/${action}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts", truckId] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update alert",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center">
+          <AlertTriangle className="h-5 w-5 mr-2 text-red-600" />
+          Stock Alerts
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {alerts.map((alert) => (
+          <div
+            key={alert.id}
+            className={`flex items-center justify-between p-3 rounded-lg border ${
+              alert.severity === "critical" ? "border-red-200 bg-red-50" : "border-yellow-200 bg-yellow-50"
+            } ${alert.status === "acknowledged" ? "opacity-70" : ""}`}
+          >
+            <div>
+              <div className="flex items-center space-x-2">
+                <Badge variant={alert.severity === "critical" ? "destructive" : "secondary"}>
+                  {alert.severity === "critical" ? "Critical" : "Low"}
+                </Badge>
+                <span className="text-sm font-medium">{kindLabels[alert.kind]}</span>
+                {alert.status === "acknowledged" && (
+                  <span className="text-xs text-muted-foreground">Acknowledged</span>
+                )}
+              </div>
+              <p className="text-sm text-foreground mt-1 first-letter:uppercase">{alert.message}</p>
+              <p className="text-xs text-muted-foreground">
+                {alert.threshold && `Threshold ${Number(alert.threshold).toFixed(2)} ${alert.unit} · `}
+                Raised {formatDistanceToNow(new Date(alert.createdAt), { addSuffix: true })}
+              </p>
+            </div>
+            {can("inventory:adjust") && (
+              <div className="flex space-x-1">
+                {alert.status === "open" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={actionMutation.isPending}
+                    onClick={() => actionMutation.mutate({ id: alert.id, action: "acknowledge" })}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Acknowledge
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Resolve"
+                  disabled={actionMutation.isPending}
+                  onClick={() => actionMutation.mutate({ id: alert.id, action: "resolve" })}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
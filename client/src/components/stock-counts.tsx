@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ClipboardCheck } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import type { ProteinInventory, StockCountWithLines } from "@shared/schema";
+
+interface StockCountsProps {
+  truckId: number;
+  proteins: ProteinInventory[];
+}
+
+function formatVariance(amount: number, unit: string) {
+  return `${amount > 0 ? "+" : ""}${amount.toFixed(2)} ${unit}`;
+}
+
+function formatMoney(amount: number) {
+  return `${amount < 0 ? "-" : ""}$${Math.abs(amount).toFixed(2)}`;
+}
+
+export default function StockCounts({ truckId, proteins }: StockCountsProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [isCounting, setIsCounting] = useState(false);
+  // Counted quantity per protein row; rows left empty aren't counted
+  const [counted, setCounted] = useState<Record<number, string>>({});
+  const [notes, setNotes] = useState("");
+
+  const { data: counts = [] } = useQuery<StockCountWithLines[]>({
+    queryKey: ["/api/stock-counts", truckId],
+    queryFn: () => fetch(`/api/stock-counts/${truckId}`).then(res => res.json()),
+  });
+
+  useEffect(() => {
+    if (isCounting) {
+      setCounted({});
+      setNotes("");
+    }
+  }, [isCounting]);
+
+  const countMutation = useMutation({
+    mutationFn: async () => {
+      const lines = Object.entries(counted)
+        .filter(([, quantity]) => quantity.trim())
+        .map(([id, quantity]) => ({ proteinInventoryId: parseInt(id), countedQuantity: quantity.trim() }));
+      const response = await apiRequest("POST", "/api/stock-counts", {
+        truckId,
+        notes: notes.trim() || undefined,
+        lines,
+      });
+      return response.json() as Promise<StockCountWithLines>;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-counts", truckId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/protein-inventory", truckId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts", truckId] });
+      setIsCounting(false);
+      toast({
+        title: "Count saved",
+        description: count.varianceValue < 0
+          ? `Shrinkage of ${formatMoney(-count.varianceValue)} recorded`
+          : "Stock updated to the counted quantities",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save count. Enter a quantity of zero or more for at least one item.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasEntries = Object.values(counted).some((quantity) => quantity.trim());
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Stock Counts</CardTitle>
+          {can("inventory:adjust") && proteins.length > 0 && (
+            <Button variant="outline" size="sm" onClick={() => setIsCounting(true)}>
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              Count Stock
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {counts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No counts yet. Record what's actually in the coolers to catch shrinkage.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {counts.map((count) => (
+              <div key={count.id} className="border-b last:border-0 pb-4 last:pb-0">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium">
+                      {count.createdAt && format(new Date(count.createdAt), "MMM d, h:mm a")}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{count.countedByName || "Unknown"}</p>
+                  </div>
+                  <span className={`text-sm font-semibold ${count.varianceValue < 0 ? "text-destructive" : "text-green-600"}`}>
+                    {count.varianceValue < 0
+                      ? `${formatMoney(-count.varianceValue)} shrinkage`
+                      : count.varianceValue > 0 ? `${formatMoney(count.varianceValue)} over` : "No variance"}
+                  </span>
+                </div>
+                <div className="mt-2 space-y-1">
+                  {count.lines.map((line) => {
+                    const variance = Number(line.variance);
+                    return (
+                      <div key={line.id} className="flex justify-between text-xs">
+                        <span className="capitalize">{line.proteinType}</span>
+                        <span className="text-muted-foreground">
+                          {Number(line.countedQuantity).toFixed(2)} of {Number(line.expectedQuantity).toFixed(2)} {line.unit}
+                          <span className={`ml-2 ${variance < 0 ? "text-destructive" : variance > 0 ? "text-green-600" : ""}`}>
+                            {formatVariance(variance, line.unit)}
+                            {line.varianceValue !== null && variance !== 0 && ` (${formatMoney(Number(line.varianceValue))})`}
+                          </span>
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+                {count.notes && <p className="text-xs text-foreground mt-2">{count.notes}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isCounting} onOpenChange={setIsCounting}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Count Stock</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Weigh each protein and enter what's there. Stock is set to the counted amount and the
+            difference is recorded as variance.
+          </p>
+          <div className="space-y-3">
+            {proteins.map((protein) => {
+              const expected = Number(protein.currentStock);
+              const entry = counted[protein.id] ?? "";
+              const variance = entry.trim() && !isNaN(Number(entry)) ? Number(entry) - expected : null;
+              return (
+                <div key={protein.id} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-5">
+                    <p className="text-sm font-medium capitalize">{protein.proteinType}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Expected {expected.toFixed(2)} {protein.unit}
+                    </p>
+                  </div>
+                  <Input
+                    className="col-span-4"
+                    placeholder={protein.unit}
+                    value={entry}
+                    onChange={(e) => setCounted((current) => ({ ...current, [protein.id]: e.target.value }))}
+                  />
+                  <span
+                    className={`col-span-3 text-xs text-right ${
+                      variance !== null && variance < 0 ? "text-destructive" : "text-muted-foreground"
+                    }`}
+                  >
+                    {variance !== null && formatVariance(variance, protein.unit)}
+                  </span>
+                </div>
+              );
+            })}
+            <Input placeholder="Notes (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCounting(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-primary hover:bg-primary/90"
+              disabled={!hasEntries || countMutation.isPending}
+              onClick={() => countMutation.mutate()}
+            >
+              Save Count
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
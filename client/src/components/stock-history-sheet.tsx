@@ -0,0 +1,322 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import type { ProteinInventory, StockHistory, StockMovementType } from "@shared/schema";
+import { canConvert, units } from "@shared/units";
+
+interface StockHistorySheetProps {
+  protein: ProteinInventory | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const movementLabels: Record<StockMovementType, string> = {
+  receipt: "Received",
+  sale: "Sales",
+  waste: "Waste",
+  transfer: "Transfer",
+  count: "Count",
+  adjustment: "Adjustment",
+};
+
+// Waste is logged from the waste log so it keeps its reason code
+type ManualMovementType = "receipt" | "adjustment";
+
+export default function StockHistorySheet({ protein, onOpenChange }: StockHistorySheetProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canAllocate = can("inventory:allocate");
+  const [type, setType] = useState<ManualMovementType>("adjustment");
+  const [quantity, setQuantity] = useState("");
+  const [entryUnit, setEntryUnit] = useState("");
+  const [reason, setReason] = useState("");
+  const [lowStockThreshold, setLowStockThreshold] = useState("");
+  const [lowStockPercent, setLowStockPercent] = useState("");
+  const [leadTimeDays, setLeadTimeDays] = useState("");
+  const [safetyStockDays, setSafetyStockDays] = useState("");
+
+  useEffect(() => {
+    setLowStockThreshold(protein?.lowStockThreshold ?? "");
+    setLowStockPercent(protein?.lowStockPercent?.toString() ?? "");
+  }, [protein?.id, protein?.lowStockThreshold, protein?.lowStockPercent]);
+
+  useEffect(() => {
+    setEntryUnit("");
+  }, [protein?.id]);
+
+  useEffect(() => {
+    setLeadTimeDays(protein?.leadTimeDays?.toString() ?? "");
+    setSafetyStockDays(protein?.safetyStockDays?.toString() ?? "");
+  }, [protein?.id, protein?.leadTimeDays, protein?.safetyStockDays]);
+
+  const { data: history } = useQuery<StockHistory>({
+    queryKey: ["/api/protein-inventory", protein?.truckId, protein?.id, "movements"],
+    queryFn: () => fetch(`/api/protein-inventory/${protein?.id}/movements`).then(res => res.json()),
+    enabled: !!protein,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/protein-inventory", protein?.truckId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/alerts", protein?.truckId] });
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const signed = type === "receipt" ? Math.abs(Number(quantity)) : Number(quantity);
+      const response = await apiRequest("POST", `/api/protein-inventory/${protein!.id}/movements`, {
+        type,
+        quantity: signed.toFixed(2),
+        unit: entryUnit || undefined,
+        reason: reason.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setQuantity("");
+      setEntryUnit("");
+      setReason("");
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to record movement. Adjustments need a reason.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reconcileMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/protein-inventory/${protein!.id}/reconcile`);
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to reconcile stock",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const thresholdMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/protein-inventory/${protein!.id}`, {
+        lowStockThreshold: lowStockThreshold.trim() || null,
+        lowStockPercent: lowStockPercent.trim() ? parseInt(lowStockPercent) : null,
+      });
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save alert thresholds. The percentage must be between 1 and 100.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/protein-inventory/${protein!.id}`, {
+        leadTimeDays: parseInt(leadTimeDays),
+        safetyStockDays: parseInt(safetyStockDays),
+      });
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save reorder settings. Use whole days between 0 and 60.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unit = protein?.unit ?? "lbs";
+  // Entered quantities are converted to the stock unit by the server
+  const pack = protein?.packSize ? { size: Number(protein.packSize), unit } : null;
+  const entryUnits = [unit, ...units.filter((option) => option !== unit && canConvert(option, unit, pack))];
+
+  return (
+    <Sheet open={!!protein} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-md overflow-y-auto">
+        <SheetHeader className="mb-6">
+          <SheetTitle className="capitalize">{protein?.proteinType} Stock History</SheetTitle>
+        </SheetHeader>
+
+        {history && history.drift !== 0 && (
+          <div className="mb-6 p-3 rounded-lg border border-yellow-200 bg-yellow-50 text-sm">
+            <p className="flex items-center font-medium text-yellow-800">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              Stock and history differ by {history.drift.toFixed(2)} {unit}
+            </p>
+            <p className="text-yellow-800 mt-1">
+              The ledger adds up to {history.ledgerBalance.toFixed(2)} {unit}, but current stock is{" "}
+              {history.currentStock.toFixed(2)} {unit}.
+            </p>
+            {canAllocate && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-2"
+                disabled={reconcileMutation.isPending}
+                onClick={() => reconcileMutation.mutate()}
+              >
+                Record the difference
+              </Button>
+            )}
+          </div>
+        )}
+
+        <form
+          className="space-y-2 mb-6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (quantity.trim()) {
+              recordMutation.mutate();
+            }
+          }}
+        >
+          <h4 className="text-sm font-medium">Record a movement</h4>
+          <div className="grid grid-cols-3 gap-2">
+            <Select value={type} onValueChange={(value) => setType(value as ManualMovementType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {canAllocate && <SelectItem value="receipt">Received</SelectItem>}
+                <SelectItem value="adjustment">Adjustment (+/-)</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder={type === "adjustment" ? `e.g. -1.5 ${unit}` : unit}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+            />
+            <Select value={entryUnit || unit} onValueChange={(value) => setEntryUnit(value === unit ? "" : value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {entryUnits.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            placeholder={type === "receipt" ? "Note (optional)" : "Reason, e.g. recounted after delivery"}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <Button type="submit" size="sm" className="w-full" disabled={recordMutation.isPending}>
+            Record
+          </Button>
+        </form>
+
+        {canAllocate && (
+          <form
+            className="space-y-2 mb-6"
+            onSubmit={(e) => {
+              e.preventDefault();
+              thresholdMutation.mutate();
+            }}
+          >
+            <h4 className="text-sm font-medium">Low stock alert</h4>
+            <p className="text-xs text-muted-foreground">
+              Alert when stock falls to either level, whichever is higher. Leave both empty to turn the alert off.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                placeholder={`At ${unit}`}
+                value={lowStockThreshold}
+                onChange={(e) => setLowStockThreshold(e.target.value)}
+              />
+              <Input
+                placeholder="At % of allocation"
+                value={lowStockPercent}
+                onChange={(e) => setLowStockPercent(e.target.value)}
+              />
+            </div>
+            <Button type="submit" variant="outline" size="sm" className="w-full" disabled={thresholdMutation.isPending}>
+              Save Thresholds
+            </Button>
+          </form>
+        )}
+
+        {canAllocate && (
+          <form
+            className="space-y-2 mb-6"
+            onSubmit={(e) => {
+              e.preventDefault();
+              reorderMutation.mutate();
+            }}
+          >
+            <h4 className="text-sm font-medium">Reordering</h4>
+            <p className="text-xs text-muted-foreground">
+              Days from ordering until stock is on the truck, and extra days of usage to keep as a buffer.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <Input placeholder="Lead time (days)" value={leadTimeDays} onChange={(e) => setLeadTimeDays(e.target.value)} />
+              <Input
+                placeholder="Safety stock (days)"
+                value={safetyStockDays}
+                onChange={(e) => setSafetyStockDays(e.target.value)}
+              />
+            </div>
+            <Button
+              type="submit"
+              variant="outline"
+              size="sm"
+              className="w-full"
+              disabled={!leadTimeDays.trim() || !safetyStockDays.trim() || reorderMutation.isPending}
+            >
+              Save Reorder Settings
+            </Button>
+          </form>
+        )}
+
+        <h4 className="text-sm font-medium mb-2">History</h4>
+        {!history || history.movements.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No stock movements recorded yet</p>
+        ) : (
+          <ol className="space-y-3 border-l pl-4">
+            {history.movements.map((movement) => {
+              const amount = Number(movement.quantity);
+              return (
+                <li key={movement.id} className="text-sm">
+                  <div className="flex items-center justify-between">
+                    <Badge variant="outline">{movementLabels[movement.type as StockMovementType] ?? movement.type}</Badge>
+                    <span className={amount < 0 ? "text-destructive font-medium" : "text-green-600 font-medium"}>
+                      {amount > 0 ? "+" : ""}{amount.toFixed(2)} {unit}
+                    </span>
+                  </div>
+                  {movement.reason && <p className="text-foreground mt-1">{movement.reason}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    {movement.createdByName || "System"}
+                    {movement.createdAt && ` · ${format(new Date(movement.createdAt), "MMM d, h:mm a")}`}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
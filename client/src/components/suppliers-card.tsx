@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Supplier } from "@shared/schema";
+
+interface SuppliersCardProps {
+  canManage: boolean;
+}
+
+const emptySupplier = { name: "", contactName: "", email: "", phone: "" };
+
+export default function SuppliersCard({ canManage }: SuppliersCardProps) {
+  const { toast } = useToast();
+  const [isAdding, setIsAdding] = useState(false);
+  const [draft, setDraft] = useState(emptySupplier);
+
+  const { data: supplierList = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/suppliers", {
+        name: draft.name.trim(),
+        contactName: draft.contactName.trim() || null,
+        email: draft.email.trim() || null,
+        phone: draft.phone.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      setIsAdding(false);
+      setDraft(emptySupplier);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add supplier. Check the name and email.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const response = await apiRequest("PUT", `/api/suppliers/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Suppliers</CardTitle>
+          {canManage && (
+            <Button variant="outline" size="sm" onClick={() => setIsAdding(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {supplierList.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add the suppliers you buy from to start ordering.</p>
+        ) : (
+          <div className="space-y-3">
+            {supplierList.map((supplier) => (
+              <div key={supplier.id} className="flex items-center justify-between">
+                <div className={supplier.isActive ? "" : "opacity-50"}>
+                  <p className="text-sm font-medium">{supplier.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {[supplier.contactName, supplier.phone, supplier.email].filter(Boolean).join(" · ") || "No contact details"}
+                  </p>
+                </div>
+                {canManage && (
+                  <Switch
+                    checked={supplier.isActive}
+                    title={supplier.isActive ? "Active" : "Inactive"}
+                    onCheckedChange={(isActive) => toggleMutation.mutate({ id: supplier.id, isActive })}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isAdding} onOpenChange={setIsAdding}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Add Supplier</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Input
+              placeholder="Name, e.g. Valley Meats"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+            <Input
+              placeholder="Contact name"
+              value={draft.contactName}
+              onChange={(e) => setDraft({ ...draft, contactName: e.target.value })}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <Input placeholder="Phone" value={draft.phone} onChange={(e) => setDraft({ ...draft, phone: e.target.value })} />
+              <Input placeholder="Email" value={draft.email} onChange={(e) => setDraft({ ...draft, email: e.target.value })} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsAdding(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-primary hover:bg-primary/90"
+              disabled={!draft.name.trim() || createMutation.isPending}
+              onClick={() => createMutation.mutate()}
+            >
+              Add Supplier
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
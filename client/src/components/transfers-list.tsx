@@ -0,0 +1,257 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, ArrowRightLeft } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import type { ProteinInventory, StockTransferEntry, TransferStatus } from "@shared/schema";
+
+interface TransfersListProps {
+  // Limits the list to one truck and lets it request stock for these rows
+  truckId?: number;
+  proteins?: ProteinInventory[];
+}
+
+const statusLabels: Record<TransferStatus, string> = {
+  requested: "Requested",
+  approved: "Approved",
+  dispatched: "On the way",
+  received: "Received",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+};
+
+// Steps that ask how much was weighed out or in
+type WeighedStep = "dispatched" | "received";
+
+export default function TransfersList({ truckId, proteins }: TransfersListProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canAllocate = can("inventory:allocate");
+  const canAdjust = can("inventory:adjust");
+  const [weighing, setWeighing] = useState<{ transfer: StockTransferEntry; status: WeighedStep } | null>(null);
+  const [weight, setWeight] = useState("");
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [proteinId, setProteinId] = useState("");
+  const [requestQuantity, setRequestQuantity] = useState("");
+
+  const { data: transfers = [] } = useQuery<StockTransferEntry[]>({
+    queryKey: ["/api/transfers", truckId ?? "all"],
+    queryFn: () => fetch(truckId ? `/api/transfers?truckId=${truckId}` : "/api/transfers").then(res => res.json()),
+  });
+
+  useEffect(() => {
+    if (!weighing) return;
+    const { transfer, status } = weighing;
+    setWeight(status === "dispatched" ? transfer.quantityRequested : transfer.quantitySent ?? "");
+  }, [weighing]);
+
+  const invalidate = (changedTruckId: number) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/transfers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/commissary"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/protein-inventory", changedTruckId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/alerts", changedTruckId] });
+  };
+
+  const advanceMutation = useMutation({
+    mutationFn: async ({ transfer, status, quantity }: { transfer: StockTransferEntry; status: TransferStatus; quantity?: string }) => {
+      const response = await apiRequest("PUT", `/api/transfers/${transfer.id}`, { status, quantity });
+      return response.json();
+    },
+    onSuccess: (_, { transfer }) => {
+      invalidate(transfer.truckId);
+      setWeighing(null);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update transfer. The commissary may not have enough stock to send.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/transfers", {
+        proteinInventoryId: parseInt(proteinId),
+        quantity: requestQuantity.trim(),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transfers"] });
+      setIsRequesting(false);
+      setRequestQuantity("");
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to request stock. The commissary needs to stock that protein in a unit that converts to yours.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Commissary Transfers</CardTitle>
+          {proteins && canAdjust && proteins.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setProteinId(String(proteins[0].id));
+                setIsRequesting(true);
+              }}
+            >
+              <ArrowRightLeft className="h-4 w-4 mr-2" />
+              Request Stock
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {transfers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No transfers yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {transfers.map((transfer) => {
+              const status = transfer.status as TransferStatus;
+              const discrepancy = Number(transfer.discrepancy ?? 0);
+              return (
+                <div key={transfer.id} className="flex items-start justify-between text-sm border-b last:border-0 pb-3 last:pb-0">
+                  <div>
+                    <p className="font-medium">
+                      #{transfer.id} · <span className="capitalize">{transfer.proteinType}</span>
+                      {!truckId && ` → ${transfer.truckName}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Requested {Number(transfer.quantityRequested).toFixed(2)} {transfer.unit}
+                      {transfer.quantitySent && ` · sent ${Number(transfer.quantitySent).toFixed(2)}`}
+                      {transfer.quantityReceived && ` · received ${Number(transfer.quantityReceived).toFixed(2)}`}
+                      {transfer.createdAt && ` · ${format(new Date(transfer.createdAt), "MMM d")}`}
+                    </p>
+                    {discrepancy !== 0 && (
+                      <p className="text-xs text-destructive flex items-center mt-1">
+                        <AlertTriangle className="h-3 w-3 mr-1" />
+                        {Math.abs(discrepancy).toFixed(2)} {transfer.unit} {discrepancy > 0 ? "short" : "over"} on arrival
+                      </p>
+                    )}
+                    {transfer.notes && <p className="text-xs text-foreground mt-1">{transfer.notes}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={status === "received" ? "default" : status === "rejected" || status === "cancelled" ? "destructive" : "secondary"}>
+                      {statusLabels[status] ?? status}
+                    </Badge>
+                    {canAllocate && status === "requested" && (
+                      <>
+                        <Button size="sm" disabled={advanceMutation.isPending} onClick={() => advanceMutation.mutate({ transfer, status: "approved" })}>
+                          Approve
+                        </Button>
+                        <Button variant="outline" size="sm" disabled={advanceMutation.isPending} onClick={() => advanceMutation.mutate({ transfer, status: "rejected" })}>
+                          Reject
+                        </Button>
+                      </>
+                    )}
+                    {canAllocate && status === "approved" && (
+                      <Button size="sm" onClick={() => setWeighing({ transfer, status: "dispatched" })}>
+                        Dispatch
+                      </Button>
+                    )}
+                    {canAdjust && status === "dispatched" && (
+                      <Button size="sm" onClick={() => setWeighing({ transfer, status: "received" })}>
+                        Receive
+                      </Button>
+                    )}
+                    {canAdjust && (status === "requested" || status === "approved") && (
+                      <Button variant="ghost" size="sm" disabled={advanceMutation.isPending} onClick={() => advanceMutation.mutate({ transfer, status: "cancelled" })}>
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!weighing} onOpenChange={(open) => !open && setWeighing(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>{weighing?.status === "dispatched" ? "Dispatch" : "Receive"} Transfer #{weighing?.transfer.id}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            {weighing?.status === "dispatched"
+              ? "Weigh what's going out. It comes off the commissary's stock now."
+              : "Weigh what arrived. Any difference from what was sent is flagged."}
+          </p>
+          <Input placeholder={weighing?.transfer.unit} value={weight} onChange={(e) => setWeight(e.target.value)} />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setWeighing(null)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-primary hover:bg-primary/90"
+              disabled={!weight.trim() || advanceMutation.isPending}
+              onClick={() => weighing && advanceMutation.mutate({ ...weighing, quantity: weight.trim() })}
+            >
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {proteins && (
+        <Dialog open={isRequesting} onOpenChange={setIsRequesting}>
+          <DialogContent className="sm:max-w-[400px]">
+            <DialogHeader>
+              <DialogTitle>Request from Commissary</DialogTitle>
+            </DialogHeader>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={proteinId} onValueChange={setProteinId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {proteins.map((protein) => (
+                    <SelectItem key={protein.id} value={String(protein.id)} className="capitalize">
+                      {protein.proteinType}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder={proteins.find((protein) => String(protein.id) === proteinId)?.unit ?? "lbs"}
+                value={requestQuantity}
+                onChange={(e) => setRequestQuantity(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsRequesting(false)}>
+                Cancel
+              </Button>
+              <Button
+                className="bg-primary hover:bg-primary/90"
+                disabled={!proteinId || !requestQuantity.trim() || requestMutation.isPending}
+                onClick={() => requestMutation.mutate()}
+              >
+                Request
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,242 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Camera, Trash } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { wasteReasons, type ProteinInventory, type WasteLogEntry, type WasteReason } from "@shared/schema";
+
+interface WasteLogProps {
+  truckId: number;
+  proteins: ProteinInventory[];
+}
+
+export const wasteReasonLabels: Record<WasteReason, string> = {
+  dropped: "Dropped",
+  burned: "Burned",
+  expired: "Expired",
+  spoiled: "Spoiled",
+  overproduction: "Overproduction",
+  other: "Other",
+};
+
+const MAX_PHOTO_SIZE = 1024;
+
+// Shrinks a photo to fit in MAX_PHOTO_SIZE px so it can travel as a data URL
+function readPhoto(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(file);
+    image.onload = () => {
+      const scale = Math.min(1, MAX_PHOTO_SIZE / Math.max(image.width, image.height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext("2d")?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL("image/jpeg", 0.7));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read photo"));
+    };
+    image.src = url;
+  });
+}
+
+export default function WasteLog({ truckId, proteins }: WasteLogProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [isLogging, setIsLogging] = useState(false);
+  const [proteinId, setProteinId] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [reasonCode, setReasonCode] = useState<WasteReason>("dropped");
+  const [notes, setNotes] = useState("");
+  const [photo, setPhoto] = useState<string | null>(null);
+
+  const { data: entries = [] } = useQuery<WasteLogEntry[]>({
+    queryKey: ["/api/waste", truckId],
+    queryFn: () => fetch(`/api/waste/${truckId}`).then(res => res.json()),
+  });
+
+  useEffect(() => {
+    if (isLogging) {
+      setProteinId(proteins[0] ? String(proteins[0].id) : "");
+      setQuantity("");
+      setReasonCode("dropped");
+      setNotes("");
+      setPhoto(null);
+    }
+  }, [isLogging]);
+
+  const logMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/waste", {
+        proteinInventoryId: parseInt(proteinId),
+        quantity: quantity.trim(),
+        reasonCode,
+        notes: notes.trim() || undefined,
+        photo: photo ?? undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waste", truckId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/protein-inventory", truckId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts", truckId] });
+      setIsLogging(false);
+      toast({
+        title: "Success",
+        description: "Waste logged",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to log waste. Enter a quantity above zero, and a note when the reason is other.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectedProtein = proteins.find((protein) => String(protein.id) === proteinId);
+  const unit = selectedProtein?.unit ?? "lbs";
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Waste Log</CardTitle>
+          {can("inventory:adjust") && proteins.length > 0 && (
+            <Button variant="outline" size="sm" onClick={() => setIsLogging(true)}>
+              <Trash className="h-4 w-4 mr-2" />
+              Log Waste
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing thrown away yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {entries.map((entry) => (
+              <div key={entry.id} className="flex items-start justify-between text-sm border-b last:border-0 pb-3 last:pb-0">
+                <div className="flex items-start space-x-3">
+                  {entry.hasPhoto && (
+                    <a href={`/api/waste/${entry.id}/photo`} target="_blank" rel="noreferrer">
+                      <img
+                        src={`/api/waste/${entry.id}/photo`}
+                        alt=""
+                        className="h-12 w-12 rounded object-cover border"
+                      />
+                    </a>
+                  )}
+                  <div>
+                    <p className="font-medium capitalize">
+                      {Number(entry.quantity).toFixed(2)} {entry.unit} {entry.itemName}
+                    </p>
+                    {entry.notes && <p className="text-foreground">{entry.notes}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      {entry.loggedByName || "Unknown"}
+                      {entry.createdAt && ` · ${format(new Date(entry.createdAt), "MMM d, h:mm a")}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="text-right">
+                  <Badge variant="outline">{wasteReasonLabels[entry.reasonCode as WasteReason] ?? entry.reasonCode}</Badge>
+                  {entry.unitCost && (
+                    <p className="text-xs text-destructive mt-1">
+                      ${(Number(entry.quantity) * Number(entry.unitCost)).toFixed(2)}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isLogging} onOpenChange={setIsLogging}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>Log Waste</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={proteinId} onValueChange={setProteinId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {proteins.map((protein) => (
+                    <SelectItem key={protein.id} value={String(protein.id)} className="capitalize">
+                      {protein.proteinType}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input placeholder={unit} value={quantity} onChange={(e) => setQuantity(e.target.value)} />
+            </div>
+            <Select value={reasonCode} onValueChange={(value) => setReasonCode(value as WasteReason)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {wasteReasons.map((reason) => (
+                  <SelectItem key={reason} value={reason}>
+                    {wasteReasonLabels[reason]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder={reasonCode === "other" ? "What happened?" : "Notes (optional)"}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+            <label className="flex items-center space-x-3 cursor-pointer text-sm text-muted-foreground">
+              <Camera className="h-4 w-4" />
+              <span>{photo ? "Replace photo" : "Add a photo (optional)"}</span>
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                className="hidden"
+                onChange={async (e) => {
+                  const file = e.target.files?.[0];
+                  if (!file) return;
+                  try {
+                    setPhoto(await readPhoto(file));
+                  } catch {
+                    toast({ title: "Error", description: "Couldn't read that photo", variant: "destructive" });
+                  }
+                }}
+              />
+            </label>
+            {photo && <img src={photo} alt="" className="h-24 rounded object-cover border" />}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsLogging(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-primary hover:bg-primary/90"
+              disabled={!proteinId || !quantity.trim() || logMutation.isPending}
+              onClick={() => logMutation.mutate()}
+            >
+              Log Waste
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
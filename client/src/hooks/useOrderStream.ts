@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+
+const MAX_RECONNECT_DELAY = 30 * 1000;
+
+// Keeps order queries for a truck fresh by listening to the server's order
+// stream. Returns whether the socket is currently connected.
+export function useOrderStream(truckId?: number) {
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!truckId) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws/orders?truckId=${truckId}`);
+
+      socket.onopen = () => {
+        attempts = 0;
+        setIsConnected(true);
+        // Catch up on anything that changed while we were disconnected
+        queryClient.invalidateQueries({ queryKey: ["/api/orders", truckId] });
+      };
+
+      socket.onmessage = () => {
+        queryClient.invalidateQueries({ queryKey: ["/api/orders", truckId] });
+        queryClient.invalidateQueries({ queryKey: ["/api/dashboard-stats"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/sales"] });
+        // Completed and reversed orders move stock, which can raise or clear alerts
+        queryClient.invalidateQueries({ queryKey: ["/api/alerts", truckId] });
+      };
+
+      socket.onclose = () => {
+        setIsConnected(false);
+        if (closed) return;
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY);
+        attempts += 1;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [truckId]);
+
+  return { isConnected };
+}
@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Permission } from "@shared/permissions";
+
+interface Membership {
+  organizationId: number | null;
+  role: string | null;
+  isOwner: boolean;
+  truckId: number | null;
+  permissions: Permission[];
+}
+
+export function usePermissions() {
+  const { data: membership, isLoading } = useQuery<Membership>({
+    queryKey: ["/api/auth/membership"],
+  });
+
+  // Users who haven't set up an organization yet are about to become its
+  // owner, so don't hide the setup controls from them
+  const can = (permission: Permission) => {
+    if (!membership) return false;
+    if (!membership.organizationId) return true;
+    return membership.permissions.includes(permission);
+  };
+
+  return {
+    membership,
+    role: membership?.role ?? null,
+    isLoading,
+    can,
+  };
+}
@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Protein } from "@shared/schema";
+
+// Shown for proteins without an icon of their own
+const FALLBACK_ICON = "🍖";
+
+export function useProteins() {
+  const { data: proteins = [], isLoading } = useQuery<Protein[]>({
+    queryKey: ["/api/proteins"],
+  });
+
+  const iconFor = (proteinId: number | null) =>
+    proteins.find((protein) => protein.id === proteinId)?.icon || FALLBACK_ICON;
+
+  return {
+    proteins,
+    activeProteins: proteins.filter((protein) => protein.isActive),
+    isLoading,
+    iconFor,
+  };
+}
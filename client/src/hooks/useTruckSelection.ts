@@ -0,0 +1,33 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { FoodTruck } from "@shared/schema";
+
+type TruckSelection = number | "all";
+
+export function useTruckSelection() {
+  const { data: trucks = [] } = useQuery<FoodTruck[]>({
+    queryKey: ["/api/trucks"],
+  });
+
+  const { data: selection } = useQuery<{ truckId: TruckSelection | null }>({
+    queryKey: ["/api/food-truck/selection"],
+  });
+
+  const selectMutation = useMutation({
+    mutationFn: async (truckId: TruckSelection) => {
+      const response = await apiRequest("PUT", "/api/food-truck/selection", { truckId });
+      return response.json();
+    },
+    onSuccess: () => {
+      // Nearly every query is keyed off the current truck, so refetch them all
+      queryClient.invalidateQueries();
+    },
+  });
+
+  return {
+    trucks,
+    selectedTruckId: selection?.truckId ?? null,
+    isAllTrucks: selection?.truckId === "all",
+    selectTruck: (truckId: TruckSelection) => selectMutation.mutate(truckId),
+  };
+}
@@ -1,3 +1,5 @@
+import type { Order } from "@shared/schema";
+
 // Common types used across the application
 export interface ApiResponse<T = any> {
   data?: T;
@@ -13,6 +15,83 @@ export interface DashboardStats {
   activeLocations: number;
 }
 
+// Fleet analytics types
+export interface TruckPerformance {
+  truckId: number;
+  truckName: string;
+  revenue: number;
+  orderCount: number;
+  averageTicket: number;
+  averageRating: number;
+  reviewCount: number;
+  proteinCost: number;
+}
+
+// One row of /api/analytics/waste: a truck's waste for one reason in one week
+export interface WasteReportRow {
+  truckId: number;
+  truckName: string;
+  week: string;
+  reasonCode: string;
+  unit: string;
+  entries: number;
+  quantity: number;
+  cost: number;
+}
+
+// One menu item in /api/analytics/food-cost; price and plate cost are null for items no longer on the menu
+export interface MenuItemFoodCost {
+  menuItemId: number;
+  name: string;
+  price: number | null;
+  plateCost: number | null;
+  margin: number | null;
+  marginPercent: number | null;
+  quantitySold: number;
+  revenue: number;
+  theoreticalCost: number;
+}
+
+// One truck in /api/analytics/food-cost: recipe (theoretical) cost against the protein ledger (actual)
+export interface TruckFoodCost {
+  truckId: number;
+  truckName: string;
+  revenue: number;
+  theoreticalCost: number;
+  theoreticalMargin: number;
+  theoreticalMarginPercent: number | null;
+  theoreticalProteinCost: number;
+  actualCost: number;
+  actualSalesCost: number;
+  actualWasteCost: number;
+  actualVarianceCost: number;
+  gap: number;
+  gapPercent: number | null;
+  items: MenuItemFoodCost[];
+}
+
+// One row of /api/reorder-suggestions/:truckId; daysOfCover is null when no usage is forecast
+export interface ReorderSuggestion {
+  proteinInventoryId: number;
+  itemName: string;
+  unit: string;
+  currentStock: number;
+  onOrder: number;
+  averageDailyUsage: number;
+  forecastUsage: number;
+  daysOfCover: number | null;
+  leadTimeDays: number;
+  safetyStockDays: number;
+  suggestedQuantity: number;
+  estimatedCost: number;
+}
+
+// One page of /api/orders/:truckId; pass nextCursor back to get the next page
+export interface OrderPage {
+  orders: Order[];
+  nextCursor: string | null;
+}
+
 // Chart data types
 export interface ChartDataPoint {
   date: string;
@@ -20,6 +99,14 @@ export interface ChartDataPoint {
   orders?: number;
 }
 
+// One bucket from /api/sales/:truckId; `bucket` is the truck's local start time
+export interface SalesBucket {
+  bucket: string;
+  revenue: number;
+  orders: number;
+  averageTicket: number;
+}
+
 export interface PopularItem {
   name: string;
   percentage: number;
@@ -44,14 +131,21 @@ export interface LocationWithDistance extends Location {
   estimatedTraffic?: 'low' | 'medium' | 'high';
 }
 
-// Inventory alert types
+// One alert from /api/alerts/:truckId; decimals arrive as strings
 export interface InventoryAlert {
   id: number;
+  proteinInventoryId: number;
   itemName: string;
-  currentStock: number;
-  threshold: number;
-  unit: string;
+  kind: 'low_stock' | 'overrun';
   severity: 'low' | 'critical';
+  status: 'open' | 'acknowledged' | 'resolved';
+  message: string;
+  currentStock: string;
+  threshold: string | null;
+  unit: string;
+  createdAt: string;
+  acknowledgedAt: string | null;
+  resolvedAt: string | null;
 }
 
 // Order item types
@@ -110,6 +204,7 @@ export interface FileUploadState {
 // Search and filter types
 export interface SearchFilters {
   query?: string;
+  locationId?: number;
   dateRange?: {
     start: Date;
     end: Date;
@@ -140,16 +235,23 @@ export interface ModalState {
 
 // Business metrics types
 export interface BusinessMetrics {
+  // "yesterday", "lastWeek" and "lastMonth" cover the same stretch of the
+  // previous period, so they compare like for like with the current one
   revenue: {
     today: number;
+    yesterday: number;
     thisWeek: number;
+    lastWeek: number;
     thisMonth: number;
     lastMonth: number;
   };
   orders: {
     today: number;
+    yesterday: number;
     thisWeek: number;
+    lastWeek: number;
     thisMonth: number;
+    lastMonth: number;
     averageOrderValue: number;
   };
   customers: {
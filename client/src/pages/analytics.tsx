@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { format, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { CalendarIcon, Truck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useTruckSelection } from "@/hooks/useTruckSelection";
+import { wasteReasonLabels } from "@/components/waste-log";
+import FoodCostReport from "@/components/food-cost-report";
+import type { TruckPerformance, WasteReportRow } from "@/lib/types";
+import type { WasteReason } from "@shared/schema";
+
+export default function Analytics() {
+  const [, setLocation] = useLocation();
+  const { selectTruck } = useTruckSelection();
+  const [range, setRange] = useState<DateRange | undefined>({
+    from: subDays(new Date(), 29),
+    to: new Date(),
+  });
+
+  const from = range?.from ? format(range.from, "yyyy-MM-dd") : undefined;
+  const to = format(range?.to ?? range?.from ?? new Date(), "yyyy-MM-dd");
+
+  const { data: performance = [], isLoading } = useQuery<TruckPerformance[]>({
+    queryKey: ["/api/analytics/fleet", from, to],
+    queryFn: async () => {
+      const res = await fetch(`/api/analytics/fleet?from=${from}&to=${to}`);
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    enabled: !!from,
+  });
+
+  const { data: waste = [] } = useQuery<WasteReportRow[]>({
+    queryKey: ["/api/analytics/waste", from, to],
+    queryFn: async () => {
+      const res = await fetch(`/api/analytics/waste?from=${from}&to=${to}`);
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    enabled: !!from,
+  });
+
+  const totals = performance.reduce(
+    (acc, truck) => ({
+      revenue: acc.revenue + truck.revenue,
+      orderCount: acc.orderCount + truck.orderCount,
+      proteinCost: acc.proteinCost + truck.proteinCost,
+    }),
+    { revenue: 0, orderCount: 0, proteinCost: 0 }
+  );
+
+  const drillDown = (truckId: number) => {
+    selectTruck(truckId);
+    setLocation("/");
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <header className="bg-white border-b border-border px-8 py-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Fleet Analytics</h1>
+            <p className="text-muted-foreground">
+              Compare performance across every truck in your organization.
+            </p>
+          </div>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="w-64 justify-start font-normal">
+                <CalendarIcon className="h-4 w-4 mr-2" />
+                {range?.from
+                  ? `${format(range.from, "MMM d, yyyy")} – ${format(range.to ?? range.from, "MMM d, yyyy")}`
+                  : "Pick a date range"}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="range"
+                selected={range}
+                onSelect={setRange}
+                numberOfMonths={2}
+                disabled={{ after: new Date() }}
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+      </header>
+
+      <main className="p-8 space-y-8">
+        {/* Fleet totals */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-muted-foreground text-sm font-medium">Revenue</p>
+              <p className="text-2xl font-bold text-foreground mt-1">${totals.revenue.toFixed(2)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-muted-foreground text-sm font-medium">Orders</p>
+              <p className="text-2xl font-bold text-foreground mt-1">{totals.orderCount}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-muted-foreground text-sm font-medium">Average Ticket</p>
+              <p className="text-2xl font-bold text-foreground mt-1">
+                ${totals.orderCount > 0 ? (totals.revenue / totals.orderCount).toFixed(2) : "0.00"}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-muted-foreground text-sm font-medium">Protein Cost</p>
+              <p className="text-2xl font-bold text-foreground mt-1">${totals.proteinCost.toFixed(2)}</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Revenue by truck */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Revenue by Truck</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={performance}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#E9ECEF" />
+                  <XAxis
+                    dataKey="truckName"
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 12, fill: '#6C757D' }}
+                  />
+                  <YAxis
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 12, fill: '#6C757D' }}
+                    tickFormatter={(value) => `$${value}`}
+                  />
+                  <Tooltip formatter={(value: number) => [`$${value.toFixed(2)}`, 'Revenue']} />
+                  <Bar dataKey="revenue" fill="#FF6B6B" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Side-by-side comparison */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Truck Comparison</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+            ) : performance.length === 0 ? (
+              <div className="text-center py-8">
+                <Truck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-muted-foreground">Add trucks to your fleet to compare them here.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left py-3 text-sm font-medium text-muted-foreground">Truck</th>
+                      <th className="text-right py-3 text-sm font-medium text-muted-foreground">Revenue</th>
+                      <th className="text-right py-3 text-sm font-medium text-muted-foreground">Orders</th>
+                      <th className="text-right py-3 text-sm font-medium text-muted-foreground">Avg Ticket</th>
+                      <th className="text-right py-3 text-sm font-medium text-muted-foreground">Rating</th>
+                      <th className="text-right py-3 text-sm font-medium text-muted-foreground">Protein Cost</th>
+                      <th className="text-right py-3 text-sm font-medium text-muted-foreground">Protein %</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {performance.map((truck) => (
+                      <tr key={truck.truckId} className="border-b border-gray-50 hover:bg-gray-50">
+                        <td className="py-4 text-sm font-medium text-foreground">{truck.truckName}</td>
+                        <td className="py-4 text-sm text-right">${truck.revenue.toFixed(2)}</td>
+                        <td className="py-4 text-sm text-right">{truck.orderCount}</td>
+                        <td className="py-4 text-sm text-right">${truck.averageTicket.toFixed(2)}</td>
+                        <td className="py-4 text-sm text-right">
+                          {truck.reviewCount > 0 ? `${truck.averageRating.toFixed(1)} (${truck.reviewCount})` : "—"}
+                        </td>
+                        <td className="py-4 text-sm text-right">${truck.proteinCost.toFixed(2)}</td>
+                        <td className="py-4 text-sm text-right">
+                          {truck.revenue > 0 ? `${((truck.proteinCost / truck.revenue) * 100).toFixed(1)}%` : "—"}
+                        </td>
+                        <td className="py-4 text-right">
+                          <Button variant="ghost" size="sm" className="text-primary" onClick={() => drillDown(truck.truckId)}>
+                            Details
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <FoodCostReport from={from} to={to} />
+
+        {/* Waste by truck, reason and week */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Waste</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {waste.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No waste logged in this period.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left py-3 text-sm font-medium text-muted-foreground">Week of</th>
+                      <th className="text-left py-3 text-sm font-medium text-muted-foreground">Truck</th>
+                      <th className="text-left py-3 text-sm font-medium text-muted-foreground">Reason</th>
+                      <th className="text-right py-3 text-sm font-medium text-muted-foreground">Entries</th>
+                      <th className="text-right py-3 text-sm font-medium text-muted-foreground">Quantity</th>
+                      <th className="text-right py-3 text-sm font-medium text-muted-foreground">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {waste.map((row) => (
+                      <tr
+                        key={`${row.week}-${row.truckId}-${row.reasonCode}-${row.unit}`}
+                        className="border-b border-gray-50 hover:bg-gray-50"
+                      >
+                        <td className="py-3 text-sm">{format(new Date(`${row.week}T00:00:00`), "MMM d, yyyy")}</td>
+                        <td className="py-3 text-sm font-medium text-foreground">{row.truckName}</td>
+                        <td className="py-3 text-sm">{wasteReasonLabels[row.reasonCode as WasteReason] ?? row.reasonCode}</td>
+                        <td className="py-3 text-sm text-right">{row.entries}</td>
+                        <td className="py-3 text-sm text-right">{row.quantity.toFixed(2)} {row.unit}</td>
+                        <td className="py-3 text-sm text-right">${row.cost.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
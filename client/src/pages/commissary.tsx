@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Warehouse } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useProteins } from "@/hooks/useProteins";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import TransfersList from "@/components/transfers-list";
+import type { CommissaryStock } from "@shared/schema";
+import { canConvert, units } from "@shared/units";
+
+type MovementType = "receipt" | "adjustment";
+
+const emptyItem = { proteinId: "", unit: "lbs", costPerUnit: "" };
+const emptyMovement = { quantity: "", unit: "", unitCost: "", reason: "" };
+
+export default function Commissary() {
+  const { toast } = useToast();
+  const [isAdding, setIsAdding] = useState(false);
+  const [item, setItem] = useState(emptyItem);
+  const [moving, setMoving] = useState<{ stock: CommissaryStock; type: MovementType } | null>(null);
+  const [movement, setMovement] = useState(emptyMovement);
+  const { activeProteins, iconFor } = useProteins();
+
+  const { data: stock = [], isLoading } = useQuery<CommissaryStock[]>({
+    queryKey: ["/api/commissary"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/commissary", {
+        proteinId: parseInt(item.proteinId),
+        unit: item.unit,
+        costPerUnit: item.costPerUnit.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/commissary"] });
+      setIsAdding(false);
+      setItem(emptyItem);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add item. Each protein and unit can only be stocked once.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const movementMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/commissary/${moving!.stock.id}/movements`, {
+        type: moving!.type,
+        quantity: movement.quantity.trim(),
+        unitCost: movement.unitCost.trim() || undefined,
+        unit: movement.unit || undefined,
+        reason: movement.reason.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/commissary"] });
+      setMoving(null);
+      setMovement(emptyMovement);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to record stock change. Adjustments need a reason and can't take stock below zero.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div>
+      {/* Header */}
+      <header className="bg-white border-b border-border px-8 py-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Commissary</h1>
+            <p className="text-muted-foreground">
+              Central stock that trucks draw from. Approve and dispatch their requests here.
+            </p>
+          </div>
+          <Button className="bg-primary hover:bg-primary/90" onClick={() => setIsAdding(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Item
+          </Button>
+        </div>
+      </header>
+
+      <main className="p-8">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+        ) : stock.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <Warehouse className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-muted-foreground">Nothing stocked at the commissary yet</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {stock.map((row) => (
+              <Card key={row.id}>
+                <CardContent className="p-6">
+                  <h3 className="text-lg font-semibold text-foreground capitalize">{iconFor(row.proteinId)} {row.proteinType}</h3>
+                  <p className="text-2xl font-bold text-foreground mt-2">
+                    {Number(row.currentStock).toFixed(2)} {row.unit}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {row.costPerUnit ? `$${Number(row.costPerUnit).toFixed(2)}/${row.unit} average cost` : "No cost recorded"}
+                  </p>
+                  <div className="flex gap-2 mt-4">
+                    <Button size="sm" onClick={() => setMoving({ stock: row, type: "receipt" })}>
+                      Receive
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setMoving({ stock: row, type: "adjustment" })}>
+                      Adjust
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <TransfersList />
+      </main>
+
+      <Dialog open={isAdding} onOpenChange={setIsAdding}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Add Commissary Item</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Select
+              value={item.proteinId}
+              onValueChange={(proteinId) => {
+                const protein = activeProteins.find((entry) => String(entry.id) === proteinId);
+                setItem({ ...item, proteinId, unit: protein?.defaultUnit ?? item.unit });
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Protein" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeProteins.map((protein) => (
+                  <SelectItem key={protein.id} value={String(protein.id)} className="capitalize">
+                    {iconFor(protein.id)} {protein.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={item.unit} onValueChange={(value) => setItem({ ...item, unit: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Unit" />
+                </SelectTrigger>
+                <SelectContent>
+                  {units.map((unit) => (
+                    <SelectItem key={unit} value={unit}>
+                      {unit}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="$ per unit"
+                value={item.costPerUnit}
+                onChange={(e) => setItem({ ...item, costPerUnit: e.target.value })}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Trucks can request this once their inventory has the same protein, in this or a convertible unit.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsAdding(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-primary hover:bg-primary/90"
+              disabled={!item.proteinId || !item.unit || createMutation.isPending}
+              onClick={() => createMutation.mutate()}
+            >
+              Add Item
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!moving} onOpenChange={(open) => !open && setMoving(null)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle className="capitalize">
+              {moving?.type === "receipt" ? "Receive" : "Adjust"} {moving?.stock.proteinType}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                placeholder={moving?.type === "adjustment" ? "+/-" : "Quantity"}
+                value={movement.quantity}
+                onChange={(e) => setMovement({ ...movement, quantity: e.target.value })}
+              />
+              <Select
+                value={movement.unit || moving?.stock.unit}
+                onValueChange={(value) => setMovement({ ...movement, unit: value === moving?.stock.unit ? "" : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {moving &&
+                    [moving.stock.unit, ...units.filter((unit) => unit !== moving.stock.unit && canConvert(unit, moving.stock.unit))].map((unit) => (
+                      <SelectItem key={unit} value={unit}>
+                        {unit}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              {moving?.type === "receipt" && (
+                <Input
+                  placeholder={`$ per ${movement.unit || moving.stock.unit}`}
+                  value={movement.unitCost}
+                  onChange={(e) => setMovement({ ...movement, unitCost: e.target.value })}
+                />
+              )}
+            </div>
+            <Input
+              placeholder={moving?.type === "adjustment" ? "Reason" : "Reason (optional)"}
+              value={movement.reason}
+              onChange={(e) => setMovement({ ...movement, reason: e.target.value })}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMoving(null)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-primary hover:bg-primary/90"
+              disabled={!movement.quantity.trim() || movementMutation.isPending}
+              onClick={() => movementMutation.mutate()}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -6,21 +6,28 @@ import RecentOrders from "@/components/recent-orders";
 import Map from "@/components/map";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { MapPin, Package, AlertTriangle, Plus, Bell } from "lucide-react";
+import { MapPin, Package, AlertTriangle, Plus, Bell, Truck } from "lucide-react";
 import { useLocation } from "wouter";
+import { useTruckSelection } from "@/hooks/useTruckSelection";
+import type { BusinessMetrics } from "@/lib/types";
+import type { InventoryItem } from "@shared/schema";
 
 export default function Dashboard() {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
+  const { trucks, isAllTrucks, selectTruck } = useTruckSelection();
 
   const { data: foodTruck } = useQuery({
     queryKey: ["/api/food-truck"],
     enabled: !!user,
   });
 
-  const { data: stats } = useQuery({
-    queryKey: ["/api/dashboard-stats", foodTruck?.id],
-    enabled: !!foodTruck?.id,
+  // "all" rolls every truck in the organization into one set of stats
+  const statsScope = isAllTrucks ? "all" : foodTruck?.id;
+  const { data: stats } = useQuery<BusinessMetrics>({
+    queryKey: ["/api/dashboard-stats", statsScope],
+    queryFn: () => fetch(`/api/dashboard-stats/${statsScope}`).then(res => res.json()),
+    enabled: !!statsScope,
   });
 
   const { data: locations } = useQuery({
@@ -28,8 +35,9 @@ export default function Dashboard() {
     enabled: !!foodTruck?.id,
   });
 
-  const { data: inventory } = useQuery({
+  const { data: inventory } = useQuery<InventoryItem[]>({
     queryKey: ["/api/inventory", foodTruck?.id],
+    queryFn: () => fetch(`/api/inventory/${foodTruck?.id}`).then(res => res.json()),
     enabled: !!foodTruck?.id,
   });
 
@@ -37,6 +45,10 @@ export default function Dashboard() {
   const lowStockItems = inventory?.filter(item => 
     item.lowStockThreshold && Number(item.currentStock) <= Number(item.lowStockThreshold)
   ) || [];
+  // Lowest stock relative to its alert level first
+  const stockWatchList = [...lowStockItems].sort(
+    (a, b) => Number(a.currentStock) / Number(a.lowStockThreshold) - Number(b.currentStock) / Number(b.lowStockThreshold)
+  );
 
   if (!foodTruck) {
     return (
@@ -58,6 +70,48 @@ export default function Dashboard() {
     );
   }
 
+  if (isAllTrucks) {
+    return (
+      <div>
+        {/* Header */}
+        <header className="bg-white border-b border-border px-8 py-6">
+          <h1 className="text-2xl font-bold text-foreground">Dashboard</h1>
+          <p className="text-muted-foreground">
+            Here's how all {trucks.length} of your trucks are doing today.
+          </p>
+        </header>
+
+        <main className="p-8">
+          <DashboardStats stats={stats} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Trucks</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {trucks.map((truck) => (
+                <div key={truck.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div className="flex items-center">
+                    <Truck className="h-5 w-5 text-primary mr-3" />
+                    <div>
+                      <p className="font-medium text-foreground">{truck.name}</p>
+                      {truck.cuisine && (
+                        <p className="text-sm text-muted-foreground">{truck.cuisine}</p>
+                      )}
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="sm" className="text-primary" onClick={() => selectTruck(truck.id)}>
+                    View Dashboard
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
   return (
     <div>
       {/* Header */}
@@ -92,28 +146,38 @@ export default function Dashboard() {
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
           <SalesChart truckId={foodTruck.id} />
           
-          {/* Popular Items - Only show when there's real data */}
+          {/* Low stock - Only show when there's real data */}
           {inventory && inventory.length > 0 ? (
             <Card>
               <CardHeader>
                 <div className="flex items-center justify-between">
-                  <CardTitle>Inventory Items</CardTitle>
-                  <Button variant="ghost" size="sm" className="text-primary">
+                  <CardTitle className="flex items-center">
+                    {lowStockItems.length > 0 && <AlertTriangle className="h-5 w-5 mr-2 text-destructive" />}
+                    Low Stock
+                  </CardTitle>
+                  <Button variant="ghost" size="sm" className="text-primary" onClick={() => setLocation("/inventory")}>
                     View All
                   </Button>
                 </div>
               </CardHeader>
               <CardContent>
-                <div className="space-y-3">
-                  {inventory.slice(0, 3).map((item: any) => (
-                    <div key={item.id} className="flex items-center justify-between">
-                      <span className="text-sm font-medium">{item.name}</span>
-                      <span className="text-sm text-muted-foreground">
-                        {item.currentStock} {item.unit}
-                      </span>
-                    </div>
-                  ))}
-                </div>
+                {stockWatchList.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">
+                    All {inventory.length} items are above their alert levels
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {stockWatchList.slice(0, 5).map((item) => (
+                      <div key={item.id} className="flex items-center justify-between">
+                        <span className="text-sm font-medium">{item.name}</span>
+                        <span className="text-sm text-destructive">
+                          {item.currentStock} {item.unit}
+                          <span className="text-muted-foreground"> / {item.lowStockThreshold}</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           ) : (
@@ -15,6 +15,9 @@ import { Plus, Package, AlertTriangle, Edit, Trash2 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import type { FoodTruck, InventoryItem } from "@shared/schema";
+import { units } from "@shared/units";
 
 const inventorySchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -22,7 +25,8 @@ const inventorySchema = z.object({
   currentStock: z.string().min(1, "Current stock is required").refine((val) => !isNaN(parseFloat(val)), "Must be a valid number"),
   unit: z.string().min(1, "Unit is required"),
   lowStockThreshold: z.string().optional().refine((val) => !val || !isNaN(parseFloat(val)), "Must be a valid number"),
-  cost: z.string().optional().refine((val) => !val || !isNaN(parseFloat(val)), "Must be a valid number"),
+  costPerUnit: z.string().optional().refine((val) => !val || !isNaN(parseFloat(val)), "Must be a valid number"),
+  packSize: z.string().optional().refine((val) => !val || parseFloat(val) > 0, "Must be more than zero"),
 });
 
 type InventoryFormData = z.infer<typeof inventorySchema>;
@@ -37,27 +41,18 @@ const categories = [
   "Other"
 ];
 
-const units = [
-  "lbs",
-  "kg",
-  "pieces",
-  "cups",
-  "liters",
-  "gallons",
-  "boxes",
-  "bags"
-];
-
 export default function Inventory() {
   const { toast } = useToast();
+  const { can } = usePermissions();
+  const canSetCost = can("inventory:allocate");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [editingItem, setEditingItem] = useState<any>(null);
+  const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
 
-  const { data: foodTruck } = useQuery({
+  const { data: foodTruck } = useQuery<FoodTruck>({
     queryKey: ["/api/food-truck"],
   });
 
-  const { data: inventory = [] } = useQuery({
+  const { data: inventory = [] } = useQuery<InventoryItem[]>({
     queryKey: ["/api/inventory", foodTruck?.id],
     queryFn: () => fetch(`/api/inventory/${foodTruck?.id}`).then(res => res.json()),
     enabled: !!foodTruck?.id,
@@ -71,18 +66,25 @@ export default function Inventory() {
       currentStock: "",
       unit: "",
       lowStockThreshold: "",
-      cost: "",
+      costPerUnit: "",
+      packSize: "",
     },
   });
 
+  // Only admins may set costs; everyone else leaves the field untouched
+  const toRequestBody = ({ costPerUnit, ...data }: Partial<InventoryFormData>) => ({
+    ...data,
+    category: data.category || null,
+    lowStockThreshold: data.lowStockThreshold || null,
+    packSize: data.packSize || null,
+    ...(canSetCost ? { costPerUnit: costPerUnit || null } : {}),
+  });
+
   const createMutation = useMutation({
     mutationFn: async (data: InventoryFormData) => {
       const response = await apiRequest("POST", "/api/inventory", {
-        ...data,
+        ...toRequestBody(data),
         truckId: foodTruck?.id,
-        currentStock: data.currentStock,
-        lowStockThreshold: data.lowStockThreshold || null,
-        cost: data.cost || null,
       });
       return response.json();
     },
@@ -107,10 +109,8 @@ export default function Inventory() {
   const updateMutation = useMutation({
     mutationFn: async ({ id, data }: { id: number; data: Partial<InventoryFormData> }) => {
       const response = await apiRequest("PUT", `/api/inventory/${id}`, {
-        ...data,
+        ...toRequestBody(data),
         currentStock: data.currentStock || undefined,
-        lowStockThreshold: data.lowStockThreshold || null,
-        cost: data.cost || null,
       });
       return response.json();
     },
@@ -160,7 +160,7 @@ export default function Inventory() {
     }
   };
 
-  const handleEdit = (item: any) => {
+  const handleEdit = (item: InventoryItem) => {
     setEditingItem(item);
     form.reset({
       name: item.name,
@@ -168,7 +168,8 @@ export default function Inventory() {
       currentStock: item.currentStock.toString(),
       unit: item.unit,
       lowStockThreshold: item.lowStockThreshold?.toString() || "",
-      cost: item.cost?.toString() || "",
+      costPerUnit: item.costPerUnit?.toString() || "",
+      packSize: item.packSize?.toString() || "",
     });
     setIsDialogOpen(true);
   };
@@ -179,7 +180,7 @@ export default function Inventory() {
     }
   };
 
-  const getStockStatus = (item: any) => {
+  const getStockStatus = (item: InventoryItem) => {
     if (item.lowStockThreshold && Number(item.currentStock) <= Number(item.lowStockThreshold)) {
       return { status: "low", color: "destructive" };
     }
@@ -213,7 +214,8 @@ export default function Inventory() {
                     currentStock: "",
                     unit: "",
                     lowStockThreshold: "",
-                    cost: "",
+                    costPerUnit: "",
+                    packSize: "",
                   });
                 }}
               >
@@ -321,18 +323,31 @@ export default function Inventory() {
                     />
                     <FormField
                       control={form.control}
-                      name="cost"
+                      name="costPerUnit"
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Cost per Unit</FormLabel>
                           <FormControl>
-                            <Input type="number" step="0.01" placeholder="15.00" {...field} />
+                            <Input type="number" step="0.01" placeholder="15.00" disabled={!canSetCost} {...field} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
                   </div>
+                  <FormField
+                    control={form.control}
+                    name="packSize"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Pack Size</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.001" placeholder={`${form.watch("unit") || "Units"} per box, bag or case`} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                   <div className="flex justify-end space-x-2 pt-4">
                     <Button
                       type="button"
@@ -368,7 +383,7 @@ export default function Inventory() {
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {lowStockItems.map((item: any) => (
+                {lowStockItems.map((item) => (
                   <div key={item.id} className="flex items-center justify-between p-3 bg-white rounded-lg border">
                     <div>
                       <p className="font-medium text-foreground">{item.name}</p>
@@ -402,7 +417,7 @@ export default function Inventory() {
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {inventory.map((item: any) => {
+            {inventory.map((item) => {
               const stockStatus = getStockStatus(item);
               return (
                 <Card key={item.id} className="relative">
@@ -450,10 +465,10 @@ export default function Inventory() {
                         </span>
                       </div>
                     )}
-                    {item.cost && (
+                    {item.costPerUnit && (
                       <div className="flex items-center justify-between">
                         <span className="text-sm text-muted-foreground">Cost per Unit</span>
-                        <span className="text-sm">${item.cost}</span>
+                        <span className="text-sm">${item.costPerUnit}</span>
                       </div>
                     )}
                     {stockStatus.status === "low" && (
@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ChefHat, Clock, Wifi, WifiOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useOrderStream } from "@/hooks/useOrderStream";
+import OrderDetailDialog from "@/components/order-detail-dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { FoodTruck, Order, OrderLineItem } from "@shared/schema";
+
+const columns = [
+  { status: "pending", title: "New", nextStatus: "preparing", action: "Start" },
+  { status: "preparing", title: "Preparing", nextStatus: "ready", action: "Ready" },
+  { status: "ready", title: "Ready for Pickup", nextStatus: "completed", action: "Picked Up" },
+];
+
+export default function Kitchen() {
+  const { toast } = useToast();
+  const [now, setNow] = useState(() => Date.now());
+  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+
+  const { data: foodTruck } = useQuery<FoodTruck>({
+    queryKey: ["/api/food-truck"],
+  });
+
+  const { data: openOrders = [] } = useQuery<Order[]>({
+    queryKey: ["/api/orders", foodTruck?.id, "open"],
+    queryFn: () => fetch(`/api/orders/${foodTruck?.id}/open`).then(res => res.json()),
+    enabled: !!foodTruck?.id,
+  });
+
+  const { isConnected } = useOrderStream(foodTruck?.id);
+
+  // Re-render every 30s so ticket timers keep counting
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const bumpMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: string }) => {
+      const response = await apiRequest("PUT", `/api/orders/${id}`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", foodTruck?.id] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update ticket",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getElapsedMinutes = (order: Order) => {
+    if (!order.createdAt) return 0;
+    return Math.max(0, Math.floor((now - new Date(order.createdAt).getTime()) / 60000));
+  };
+
+  const getTimerColor = (minutes: number) => {
+    if (minutes >= 15) return "destructive";
+    if (minutes >= 8) return "secondary";
+    return "outline";
+  };
+
+  if (!foodTruck) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">Loading truck information...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <header className="bg-white border-b border-border px-8 py-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Kitchen Display</h1>
+            <p className="text-muted-foreground">
+              Live ticket queue for {foodTruck.name}.
+            </p>
+          </div>
+          <div className={`flex items-center text-sm ${isConnected ? "text-green-600" : "text-muted-foreground"}`}>
+            {isConnected ? <Wifi className="h-4 w-4 mr-2" /> : <WifiOff className="h-4 w-4 mr-2" />}
+            {isConnected ? "Live" : "Reconnecting..."}
+          </div>
+        </div>
+      </header>
+
+      <main className="p-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {columns.map((column) => {
+            const tickets = openOrders.filter((order) => order.status === column.status);
+
+            return (
+              <div key={column.status}>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-semibold text-foreground">{column.title}</h2>
+                  <Badge variant="secondary">{tickets.length}</Badge>
+                </div>
+
+                {tickets.length === 0 ? (
+                  <Card>
+                    <CardContent className="text-center py-12">
+                      <ChefHat className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                      <p className="text-muted-foreground">No tickets</p>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <div className="space-y-4">
+                    {tickets.map((order) => {
+                      const minutes = getElapsedMinutes(order);
+                      const items = (order.items ?? []) as OrderLineItem[];
+
+                      return (
+                        <Card key={order.id}>
+                          <CardHeader className="pb-3">
+                            <div className="flex items-center justify-between">
+                              <CardTitle
+                                className="text-2xl cursor-pointer hover:underline"
+                                onClick={() => setSelectedOrder(order)}
+                              >
+                                #{order.orderNumber}
+                              </CardTitle>
+                              <Badge variant={getTimerColor(minutes)} className="flex items-center">
+                                <Clock className="h-3 w-3 mr-1" />
+                                {minutes} min
+                              </Badge>
+                            </div>
+                            {order.customerName && (
+                              <p className="text-sm text-muted-foreground">{order.customerName}</p>
+                            )}
+                          </CardHeader>
+                          <CardContent className="space-y-4">
+                            <ul className="space-y-1">
+                              {items.map((item, index) => (
+                                <li key={index} className="text-lg text-foreground capitalize">
+                                  <span className="font-bold mr-2">{item.quantity}x</span>
+                                  {item.proteinType} {item.name}
+                                  {item.modifiers?.map((modifier) => (
+                                    <p key={modifier.optionId} className="text-base text-muted-foreground pl-8 normal-case">
+                                      + {modifier.name}
+                                    </p>
+                                  ))}
+                                </li>
+                              ))}
+                            </ul>
+                            <Button
+                              className="w-full h-14 text-lg bg-primary hover:bg-primary/90"
+                              disabled={bumpMutation.isPending}
+                              onClick={() => bumpMutation.mutate({ id: order.id, status: column.nextStatus })}
+                            >
+                              {column.action}
+                            </Button>
+                          </CardContent>
+                        </Card>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </main>
+
+      <OrderDetailDialog
+        order={selectedOrder}
+        onOpenChange={(open) => !open && setSelectedOrder(null)}
+      />
+    </div>
+  );
+}
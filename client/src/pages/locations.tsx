@@ -15,18 +15,23 @@ import { Plus, MapPin, Trash2, Edit, Check } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
 
 const locationSchema = z.object({
   name: z.string().min(1, "Name is required"),
   address: z.string().min(1, "Address is required"),
   description: z.string().optional(),
   isActive: z.boolean().default(false),
+  serviceDays: z.array(z.number()).default([]),
 });
 
+const weekdayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
 type LocationFormData = z.infer<typeof locationSchema>;
 
 export default function Locations() {
   const { toast } = useToast();
+  const { can } = usePermissions();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingLocation, setEditingLocation] = useState<any>(null);
   const [addressSuggestions, setAddressSuggestions] = useState<any[]>([]);
@@ -50,6 +55,7 @@ export default function Locations() {
       address: "",
       description: "",
       isActive: false,
+      serviceDays: [],
     },
   });
 
@@ -136,6 +142,7 @@ export default function Locations() {
       address: location.address,
       description: location.description || "",
       isActive: location.isActive,
+      serviceDays: location.serviceDays ?? [],
     });
     setIsDialogOpen(true);
   };
@@ -236,23 +243,26 @@ export default function Locations() {
             </p>
           </div>
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button 
-                className="bg-primary hover:bg-primary/90"
-                onClick={() => {
-                  setEditingLocation(null);
-                  form.reset({
-                    name: "",
-                    address: "",
-                    description: "",
-                    isActive: false,
-                  });
-                }}
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Add Location
-              </Button>
-            </DialogTrigger>
+            {can("locations:manage") && (
+              <DialogTrigger asChild>
+                <Button 
+                  className="bg-primary hover:bg-primary/90"
+                  onClick={() => {
+                    setEditingLocation(null);
+                    form.reset({
+                      name: "",
+                      address: "",
+                      description: "",
+                      isActive: false,
+                      serviceDays: [],
+                    });
+                  }}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Location
+                </Button>
+              </DialogTrigger>
+            )}
             <DialogContent className="sm:max-w-[500px]">
               <DialogHeader>
                 <DialogTitle>
@@ -338,6 +348,40 @@ export default function Locations() {
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={form.control}
+                    name="serviceDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Days Here (Optional)</FormLabel>
+                        <FormControl>
+                          <div className="flex gap-1">
+                            {weekdayLabels.map((label, weekday) => {
+                              const selected = field.value.includes(weekday);
+                              return (
+                                <Button
+                                  key={label}
+                                  type="button"
+                                  size="sm"
+                                  variant={selected ? "default" : "outline"}
+                                  onClick={() =>
+                                    field.onChange(
+                                      selected
+                                        ? field.value.filter((day) => day !== weekday)
+                                        : [...field.value, weekday].sort()
+                                    )
+                                  }
+                                >
+                                  {label}
+                                </Button>
+                              );
+                            })}
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                   <FormField
                     control={form.control}
                     name="isActive"
@@ -385,13 +429,15 @@ export default function Locations() {
             <p className="text-muted-foreground mb-6">
               Add your first location to start tracking where your food truck operates.
             </p>
-            <Button 
-              className="bg-primary hover:bg-primary/90"
-              onClick={() => setIsDialogOpen(true)}
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Your First Location
-            </Button>
+            {can("locations:manage") && (
+              <Button 
+                className="bg-primary hover:bg-primary/90"
+                onClick={() => setIsDialogOpen(true)}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Your First Location
+              </Button>
+            )}
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -407,23 +453,25 @@ export default function Locations() {
                       {location.isActive && (
                         <span className="w-2 h-2 bg-green-500 rounded-full"></span>
                       )}
-                      <div className="flex space-x-1">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleEdit(location)}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDelete(location.id)}
-                          className="text-red-500 hover:text-red-700"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
+                      {can("locations:manage") && (
+                        <div className="flex space-x-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(location)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(location.id)}
+                            className="text-red-500 hover:text-red-700"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -432,18 +480,25 @@ export default function Locations() {
                   {location.description && (
                     <p className="text-sm">{location.description}</p>
                   )}
+                  {location.serviceDays?.length > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      {location.serviceDays.map((day: number) => weekdayLabels[day]).join(", ")}
+                    </p>
+                  )}
                   <div className="flex items-center justify-between">
                     <span className="text-sm font-medium">
                       {location.isActive ? "Active" : "Inactive"}
                     </span>
-                    <Button
-                      variant={location.isActive ? "destructive" : "default"}
-                      size="sm"
-                      onClick={() => toggleActive(location)}
-                      disabled={updateMutation.isPending}
-                    >
-                      {location.isActive ? "Deactivate" : "Activate"}
-                    </Button>
+                    {can("locations:manage") && (
+                      <Button
+                        variant={location.isActive ? "destructive" : "default"}
+                        size="sm"
+                        onClick={() => toggleActive(location)}
+                        disabled={updateMutation.isPending}
+                      >
+                        {location.isActive ? "Deactivate" : "Activate"}
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -0,0 +1,588 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Plus, Edit, Archive, ArchiveRestore, Trash2, UtensilsCrossed, ChefHat } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useProteins } from "@/hooks/useProteins";
+import ModifierGroups from "@/components/modifier-groups";
+import RecipeDialog from "@/components/recipe-dialog";
+import type { FoodTruck, MenuCategory, MenuItem, TruckMenuEntry } from "@shared/schema";
+
+const UNCATEGORIZED = "none";
+
+const menuItemSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  description: z.string().optional(),
+  categoryId: z.string(),
+  proteinId: z.string().min(1, "Protein is required"),
+  proteinAmount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter lbs per item, e.g. 0.25"),
+  price: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter a price, e.g. 3.50"),
+  isActive: z.boolean().default(true),
+});
+
+type MenuItemFormData = z.infer<typeof menuItemSchema>;
+
+export default function Menu() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const { proteins, iconFor } = useProteins();
+  const canManage = can("menu:manage");
+  const [isItemDialogOpen, setIsItemDialogOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<MenuItem | null>(null);
+  const [recipeItem, setRecipeItem] = useState<MenuItem | null>(null);
+  const [newCategoryName, setNewCategoryName] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+
+  const { data: foodTruck } = useQuery<FoodTruck>({
+    queryKey: ["/api/food-truck"],
+  });
+
+  const { data: categories = [] } = useQuery<MenuCategory[]>({
+    queryKey: ["/api/menu-categories"],
+  });
+
+  const { data: menuItems = [] } = useQuery<MenuItem[]>({
+    queryKey: ["/api/menu-items", showArchived],
+    queryFn: () => fetch(`/api/menu-items?includeArchived=${showArchived}`).then(res => res.json()),
+  });
+
+  const { data: truckMenu = [] } = useQuery<TruckMenuEntry[]>({
+    queryKey: ["/api/menu", foodTruck?.id],
+    queryFn: () => fetch(`/api/menu/${foodTruck?.id}`).then(res => res.json()),
+    enabled: !!foodTruck?.id,
+  });
+
+  const truckEntries = new Map(truckMenu.map((entry) => [entry.id, entry]));
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+
+  const form = useForm<MenuItemFormData>({
+    resolver: zodResolver(menuItemSchema),
+    defaultValues: {
+      name: "",
+      description: "",
+      categoryId: UNCATEGORIZED,
+      proteinId: "",
+      proteinAmount: "",
+      price: "",
+      isActive: true,
+    },
+  });
+
+  const invalidateMenu = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/menu-items"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/menu"] });
+  };
+
+  const showError = (description: string) => () => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const createCategoryMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/menu-categories", {
+        name,
+        sortOrder: categories.length,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/menu-categories"] });
+      setNewCategoryName("");
+    },
+    onError: showError("Failed to create category"),
+  });
+
+  const deleteCategoryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/menu-categories/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/menu-categories"] });
+      invalidateMenu();
+    },
+    onError: showError("Failed to delete category"),
+  });
+
+  const saveItemMutation = useMutation({
+    mutationFn: async (data: MenuItemFormData) => {
+      const body = {
+        ...data,
+        categoryId: data.categoryId === UNCATEGORIZED ? null : parseInt(data.categoryId),
+        proteinId: parseInt(data.proteinId),
+      };
+      const response = editingItem
+        ? await apiRequest("PUT", `/api/menu-items/${editingItem.id}`, body)
+        : await apiRequest("POST", "/api/menu-items", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateMenu();
+      setIsItemDialogOpen(false);
+      setEditingItem(null);
+      form.reset();
+      toast({
+        title: "Success",
+        description: editingItem ? "Menu item updated successfully" : "Menu item created successfully",
+      });
+    },
+    onError: showError("Failed to save menu item"),
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async ({ id, archive }: { id: number; archive: boolean }) => {
+      const response = await apiRequest("POST", `/api/menu-items/${id}/${archive ? "archive" : "restore"}`);
+      return response.json();
+    },
+    onSuccess: invalidateMenu,
+    onError: showError("Failed to update menu item"),
+  });
+
+  const truckMenuMutation = useMutation({
+    mutationFn: async ({ menuItemId, settings }: {
+      menuItemId: number;
+      settings: { price?: string | null; isAvailable?: boolean } | null; // null removes it from the truck
+    }) => {
+      const url = `/api/menu/${foodTruck?.id}/items/${menuItemId}`;
+      const response = settings
+        ? await apiRequest("PUT", url, settings)
+        : await apiRequest("DELETE", url);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/menu", foodTruck?.id] });
+    },
+    onError: showError("Failed to update this truck's menu"),
+  });
+
+  const openNewItem = () => {
+    setEditingItem(null);
+    form.reset({
+      name: "",
+      description: "",
+      categoryId: UNCATEGORIZED,
+      proteinId: "",
+      proteinAmount: "",
+      price: "",
+      isActive: true,
+    });
+    setIsItemDialogOpen(true);
+  };
+
+  const openEditItem = (item: MenuItem) => {
+    setEditingItem(item);
+    form.reset({
+      name: item.name,
+      description: item.description || "",
+      categoryId: item.categoryId ? String(item.categoryId) : UNCATEGORIZED,
+      proteinId: item.proteinId ? String(item.proteinId) : "",
+      proteinAmount: item.proteinAmount,
+      price: item.price,
+      isActive: item.isActive ?? true,
+    });
+    setIsItemDialogOpen(true);
+  };
+
+  const savePriceOverride = (item: MenuItem, value: string) => {
+    const entry = truckEntries.get(item.id);
+    const price = value.trim() === "" ? null : value.trim();
+    if (!entry || price === entry.priceOverride) return;
+    if (price !== null && !/^\d+(\.\d{1,2})?$/.test(price)) {
+      showError("Enter a price, e.g. 3.50")();
+      return;
+    }
+    truckMenuMutation.mutate({ menuItemId: item.id, settings: { price } });
+  };
+
+  // Group items under their category, uncategorized last
+  const sections = [
+    ...categories.map((category) => ({
+      key: String(category.id),
+      title: category.name,
+      items: menuItems.filter((item) => item.categoryId === category.id),
+    })),
+    {
+      key: UNCATEGORIZED,
+      title: "Uncategorized",
+      items: menuItems.filter((item) => !item.categoryId || !categoryNames.has(item.categoryId)),
+    },
+  ].filter((section) => section.items.length > 0);
+
+  return (
+    <div>
+      {/* Header */}
+      <header className="bg-white border-b border-border px-8 py-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Menu</h1>
+            <p className="text-muted-foreground">
+              Manage your organization's menu and what {foodTruck?.name ?? "each truck"} sells.
+            </p>
+          </div>
+          {canManage && (
+            <Button className="bg-primary hover:bg-primary/90" onClick={openNewItem}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Menu Item
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="p-8">
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          {/* Categories */}
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle>Categories</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {categories.length === 0 && (
+                <p className="text-sm text-muted-foreground">No categories yet</p>
+              )}
+              {categories.map((category) => (
+                <div key={category.id} className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{category.name}</span>
+                  {canManage && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteCategoryMutation.mutate(category.id)}
+                      disabled={deleteCategoryMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {canManage && (
+                <form
+                  className="flex gap-2 pt-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (newCategoryName.trim()) {
+                      createCategoryMutation.mutate(newCategoryName.trim());
+                    }
+                  }}
+                >
+                  <Input
+                    placeholder="New category"
+                    value={newCategoryName}
+                    onChange={(e) => setNewCategoryName(e.target.value)}
+                  />
+                  <Button type="submit" variant="outline" size="icon" disabled={createCategoryMutation.isPending}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Items */}
+          <div className="lg:col-span-3 space-y-6">
+            <div className="flex items-center justify-end space-x-2">
+              <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+              <Label htmlFor="show-archived">Show archived</Label>
+            </div>
+
+            {sections.length === 0 ? (
+              <Card>
+                <CardContent className="text-center py-12">
+                  <UtensilsCrossed className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-foreground mb-2">No menu items yet</h3>
+                  <p className="text-muted-foreground">
+                    Add items, then turn them on for each truck that sells them.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              sections.map((section) => (
+                <Card key={section.key}>
+                  <CardHeader>
+                    <CardTitle>{section.title}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead>
+                          <tr className="border-b border-border">
+                            <th className="text-left py-3 text-sm font-medium text-muted-foreground">Item</th>
+                            <th className="text-left py-3 text-sm font-medium text-muted-foreground">Protein</th>
+                            <th className="text-left py-3 text-sm font-medium text-muted-foreground">Base Price</th>
+                            <th className="text-left py-3 text-sm font-medium text-muted-foreground">On This Truck</th>
+                            <th className="text-left py-3 text-sm font-medium text-muted-foreground">Truck Price</th>
+                            <th className="text-left py-3 text-sm font-medium text-muted-foreground">Food Cost</th>
+                            <th className="text-left py-3 text-sm font-medium text-muted-foreground">Available</th>
+                            <th></th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {section.items.map((item) => {
+                            const entry = truckEntries.get(item.id);
+                            const isArchived = !!item.archivedAt;
+
+                            return (
+                              <tr key={item.id} className="border-b border-gray-50">
+                                <td className="py-4 text-sm">
+                                  <p className="font-medium text-foreground capitalize">{item.name}</p>
+                                  {item.description && (
+                                    <p className="text-xs text-muted-foreground">{item.description}</p>
+                                  )}
+                                  {isArchived && <Badge variant="outline" className="mt-1">Archived</Badge>}
+                                  {!isArchived && item.isActive === false && (
+                                    <Badge variant="outline" className="mt-1">Inactive</Badge>
+                                  )}
+                                </td>
+                                <td className="py-4 text-sm text-muted-foreground capitalize">
+                                  {iconFor(item.proteinId)} {item.proteinType} · {Number(item.proteinAmount)} lbs
+                                </td>
+                                <td className="py-4 text-sm font-medium">${Number(item.price).toFixed(2)}</td>
+                                <td className="py-4">
+                                  <Switch
+                                    checked={!!entry}
+                                    disabled={!canManage || isArchived || !foodTruck}
+                                    onCheckedChange={(checked) =>
+                                      truckMenuMutation.mutate({ menuItemId: item.id, settings: checked ? {} : null })
+                                    }
+                                  />
+                                </td>
+                                <td className="py-4">
+                                  <Input
+                                    key={`${item.id}-${entry?.priceOverride ?? ""}`}
+                                    className="w-24 h-8"
+                                    placeholder={Number(item.price).toFixed(2)}
+                                    defaultValue={entry?.priceOverride ?? ""}
+                                    disabled={!canManage || !entry}
+                                    onBlur={(e) => savePriceOverride(item, e.target.value)}
+                                  />
+                                </td>
+                                <td className="py-4 text-sm">
+                                  {entry?.plateCost != null ? (
+                                    <>
+                                      <p className="font-medium">${entry.plateCost.toFixed(2)}</p>
+                                      {Number(entry.price) > 0 && (
+                                        <p className="text-xs text-muted-foreground">
+                                          {Math.round((entry.plateCost / Number(entry.price)) * 100)}% of price
+                                        </p>
+                                      )}
+                                    </>
+                                  ) : (
+                                    <span className="text-muted-foreground">—</span>
+                                  )}
+                                </td>
+                                <td className="py-4">
+                                  <Switch
+                                    checked={entry?.isAvailable ?? false}
+                                    disabled={!canManage || !entry}
+                                    onCheckedChange={(isAvailable) =>
+                                      truckMenuMutation.mutate({ menuItemId: item.id, settings: { isAvailable } })
+                                    }
+                                  />
+                                </td>
+                                <td className="py-4 text-right whitespace-nowrap">
+                                  <Button variant="ghost" size="sm" title="Recipe" onClick={() => setRecipeItem(item)}>
+                                    <ChefHat className="h-4 w-4" />
+                                  </Button>
+                                  {canManage && (
+                                    <>
+                                      <Button variant="ghost" size="sm" onClick={() => openEditItem(item)}>
+                                        <Edit className="h-4 w-4" />
+                                      </Button>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        title={isArchived ? "Restore" : "Archive"}
+                                        onClick={() => archiveMutation.mutate({ id: item.id, archive: !isArchived })}
+                                        disabled={archiveMutation.isPending}
+                                      >
+                                        {isArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                                      </Button>
+                                    </>
+                                  )}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+
+            <ModifierGroups menuItems={menuItems} canManage={canManage} />
+          </div>
+        </div>
+      </main>
+
+      <RecipeDialog
+        menuItem={recipeItem}
+        truckId={foodTruck?.id}
+        canManage={canManage}
+        onOpenChange={(open) => !open && setRecipeItem(null)}
+      />
+
+      {/* Add / edit item */}
+      <Dialog open={isItemDialogOpen} onOpenChange={setIsItemDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingItem ? "Edit Menu Item" : "Add Menu Item"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveItemMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Taco" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Corn tortilla, onion, cilantro" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="categoryId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={UNCATEGORIZED}>Uncategorized</SelectItem>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={String(category.id)}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="proteinId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Protein</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Pick one" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {proteins
+                            .filter((protein) => protein.isActive || String(protein.id) === field.value)
+                            .map((protein) => (
+                              <SelectItem key={protein.id} value={String(protein.id)} className="capitalize">
+                                {iconFor(protein.id)} {protein.name}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="proteinAmount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lbs per Item</FormLabel>
+                      <FormControl>
+                        <Input placeholder="0.25" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Base Price</FormLabel>
+                      <FormControl>
+                        <Input placeholder="3.50" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel>Active on every truck that sells it</FormLabel>
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex justify-end space-x-2 pt-2">
+                <Button type="button" variant="outline" onClick={() => setIsItemDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" className="bg-primary hover:bg-primary/90" disabled={saveItemMutation.isPending}>
+                  {editingItem ? "Save Changes" : "Add Item"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+import { useEffect, useState } from "react";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowDown, ArrowUp, CalendarIcon, ClipboardList, Search, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { OrderDetails, getOrderStatusVariant } from "@/components/order-detail-dialog";
+import { orderStatuses, type FoodTruck, type Location, type Order, type OrderLineItem } from "@shared/schema";
+import type { OrderPage, SearchFilters } from "@/lib/types";
+
+const PAGE_SIZE = 25;
+
+const sortableColumns = [
+  { key: "orderNumber", label: "Order ID" },
+  { key: "customerName", label: "Customer" },
+  { key: "totalAmount", label: "Amount" },
+  { key: "status", label: "Status" },
+  { key: "createdAt", label: "Placed" },
+];
+
+// Serializes the filters into the query string /api/orders/:truckId expects
+function buildOrderSearchParams(filters: SearchFilters, cursor?: string | null) {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  if (filters.query) params.set("q", filters.query);
+  if (filters.status?.length) params.set("status", filters.status.join(","));
+  if (filters.locationId) params.set("locationId", String(filters.locationId));
+  if (filters.dateRange) {
+    params.set("from", format(filters.dateRange.start, "yyyy-MM-dd"));
+    params.set("to", format(filters.dateRange.end, "yyyy-MM-dd"));
+  }
+  if (filters.sortBy) params.set("sortBy", filters.sortBy);
+  if (filters.sortOrder) params.set("sortOrder", filters.sortOrder);
+  if (cursor) params.set("cursor", cursor);
+  return params.toString();
+}
+
+export default function Orders() {
+  const [search, setSearch] = useState("");
+  const [filters, setFilters] = useState<SearchFilters>({ sortBy: "createdAt", sortOrder: "desc" });
+  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+
+  const { data: foodTruck } = useQuery<FoodTruck>({
+    queryKey: ["/api/food-truck"],
+  });
+
+  const { data: locations = [] } = useQuery<Location[]>({
+    queryKey: ["/api/locations", foodTruck?.id],
+    queryFn: () => fetch(`/api/locations/${foodTruck?.id}`).then(res => res.json()),
+    enabled: !!foodTruck?.id,
+  });
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters((current) => ({ ...current, query: search.trim() || undefined }));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<OrderPage>({
+    queryKey: ["/api/orders", foodTruck?.id, "search", filters],
+    queryFn: async ({ pageParam }) => {
+      const res = await fetch(`/api/orders/${foodTruck?.id}?${buildOrderSearchParams(filters, pageParam as string | null)}`);
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!foodTruck?.id,
+  });
+
+  const orders = data?.pages.flatMap((page) => page.orders) ?? [];
+
+  // Keep the drawer in sync when the order changes status underneath it
+  const drawerOrder = selectedOrder
+    ? orders.find((order) => order.id === selectedOrder.id) ?? selectedOrder
+    : null;
+
+  const toggleSort = (column: string) => {
+    setFilters((current) => ({
+      ...current,
+      sortBy: column,
+      sortOrder: current.sortBy === column && current.sortOrder === "desc" ? "asc" : "desc",
+    }));
+  };
+
+  const hasFilters = !!(filters.query || filters.status?.length || filters.locationId || filters.dateRange);
+
+  const clearFilters = () => {
+    setSearch("");
+    setFilters(({ sortBy, sortOrder }) => ({ sortBy, sortOrder }));
+  };
+
+  const formatOrderItems = (items: unknown) => {
+    if (!Array.isArray(items)) return "No items";
+    return (items as OrderLineItem[]).map((item) => `${item.quantity}x ${item.name}`).join(", ");
+  };
+
+  if (!foodTruck) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">Loading truck information...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <header className="bg-white border-b border-border px-8 py-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Orders</h1>
+          <p className="text-muted-foreground">
+            Every order placed at {foodTruck.name}.
+          </p>
+        </div>
+      </header>
+
+      <main className="p-8 space-y-6">
+        {/* Filters */}
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="relative flex-1 min-w-64">
+                <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  className="pl-9"
+                  placeholder="Search by customer or order number"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+              </div>
+
+              <Select
+                value={filters.locationId ? String(filters.locationId) : "all"}
+                onValueChange={(value) =>
+                  setFilters((current) => ({
+                    ...current,
+                    locationId: value === "all" ? undefined : parseInt(value),
+                  }))
+                }
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Location" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All locations</SelectItem>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={String(location.id)}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-64 justify-start font-normal">
+                    <CalendarIcon className="h-4 w-4 mr-2" />
+                    {filters.dateRange
+                      ? `${format(filters.dateRange.start, "MMM d")} – ${format(filters.dateRange.end, "MMM d, yyyy")}`
+                      : "Any date"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="end">
+                  <Calendar
+                    mode="range"
+                    selected={filters.dateRange ? { from: filters.dateRange.start, to: filters.dateRange.end } : undefined}
+                    onSelect={(range) =>
+                      setFilters((current) => ({
+                        ...current,
+                        dateRange: range?.from ? { start: range.from, end: range.to ?? range.from } : undefined,
+                      }))
+                    }
+                    numberOfMonths={2}
+                    disabled={{ after: new Date() }}
+                  />
+                </PopoverContent>
+              </Popover>
+
+              {hasFilters && (
+                <Button variant="ghost" onClick={clearFilters}>
+                  <X className="h-4 w-4 mr-1" />
+                  Clear
+                </Button>
+              )}
+            </div>
+
+            <ToggleGroup
+              type="multiple"
+              className="justify-start flex-wrap"
+              value={filters.status ?? []}
+              onValueChange={(status) => setFilters((current) => ({ ...current, status }))}
+            >
+              {orderStatuses.map((status) => (
+                <ToggleGroupItem key={status} value={status} variant="outline" size="sm" className="capitalize">
+                  {status}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        <Card>
+          <CardContent className="p-6">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+            ) : orders.length === 0 ? (
+              <div className="text-center py-8">
+                <ClipboardList className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-foreground mb-2">No orders found</h3>
+                <p className="text-muted-foreground">
+                  {hasFilters ? "Try widening your filters." : "Orders will appear here once customers start placing them."}
+                </p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-border">
+                      {sortableColumns.map((column) => {
+                        const isSorted = filters.sortBy === column.key;
+                        const SortIcon = filters.sortOrder === "asc" ? ArrowUp : ArrowDown;
+                        return (
+                          <th key={column.key} className="text-left py-3 text-sm font-medium text-muted-foreground">
+                            <button
+                              type="button"
+                              className="flex items-center hover:text-foreground"
+                              onClick={() => toggleSort(column.key)}
+                            >
+                              {column.label}
+                              {isSorted && <SortIcon className="h-3 w-3 ml-1" />}
+                            </button>
+                          </th>
+                        );
+                      })}
+                      <th className="text-left py-3 text-sm font-medium text-muted-foreground">Items</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {orders.map((order) => (
+                      <tr
+                        key={order.id}
+                        className="border-b border-gray-50 hover:bg-gray-50 cursor-pointer"
+                        onClick={() => setSelectedOrder(order)}
+                      >
+                        <td className="py-4 text-sm font-medium text-foreground">#{order.orderNumber}</td>
+                        <td className="py-4 text-sm text-foreground">{order.customerName || "Walk-in Customer"}</td>
+                        <td className="py-4 text-sm font-medium text-foreground">
+                          ${Number(order.totalAmount).toFixed(2)}
+                        </td>
+                        <td className="py-4">
+                          <Badge variant={getOrderStatusVariant(order.status)} className="capitalize">
+                            {order.status}
+                          </Badge>
+                        </td>
+                        <td className="py-4 text-sm text-muted-foreground">
+                          {order.createdAt && format(new Date(order.createdAt), "MMM d, h:mm a")}
+                        </td>
+                        <td className="py-4 text-sm text-muted-foreground max-w-48 truncate">
+                          {formatOrderItems(order.items)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {hasNextPage && (
+                  <div className="flex justify-center pt-6">
+                    <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                      {isFetchingNextPage ? "Loading..." : "Load more"}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* Order detail drawer */}
+      <Sheet open={!!drawerOrder} onOpenChange={(open) => !open && setSelectedOrder(null)}>
+        <SheetContent className="sm:max-w-md overflow-y-auto">
+          {drawerOrder && (
+            <>
+              <SheetHeader className="mb-6">
+                <SheetTitle className="flex items-center justify-between pr-6">
+                  <span>Order #{drawerOrder.orderNumber}</span>
+                  <Badge variant={getOrderStatusVariant(drawerOrder.status)} className="capitalize">
+                    {drawerOrder.status}
+                  </Badge>
+                </SheetTitle>
+              </SheetHeader>
+              <OrderDetails order={drawerOrder} />
+            </>
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Minus, Plus, ShoppingCart, Trash2, MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import ModifierPickerDialog from "@/components/modifier-picker-dialog";
+import type { FoodTruck, Location, ModifierOption, Order, TruckMenuEntry } from "@shared/schema";
+
+interface CartLine {
+  key: string; // same item with the same modifiers shares a line
+  menuItem: TruckMenuEntry;
+  options: ModifierOption[];
+  quantity: number;
+}
+
+function cartLineKey(menuItemId: number, options: ModifierOption[]) {
+  return [menuItemId, ...options.map((option) => option.id).sort((a, b) => a - b)].join(":");
+}
+
+function linePrice(line: CartLine) {
+  const unit = line.options.reduce((sum, option) => sum + Number(option.priceDelta), Number(line.menuItem.price));
+  return Math.max(0, unit) * line.quantity;
+}
+
+export default function PointOfSale() {
+  const { toast } = useToast();
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [customerName, setCustomerName] = useState("");
+  const [pickingItem, setPickingItem] = useState<TruckMenuEntry | null>(null);
+
+  const { data: foodTruck } = useQuery<FoodTruck>({
+    queryKey: ["/api/food-truck"],
+  });
+
+  const { data: menu = [] } = useQuery<TruckMenuEntry[]>({
+    queryKey: ["/api/menu", foodTruck?.id],
+    queryFn: () => fetch(`/api/menu/${foodTruck?.id}`).then(res => res.json()),
+    enabled: !!foodTruck?.id,
+  });
+
+  const { data: locations = [] } = useQuery<Location[]>({
+    queryKey: ["/api/locations", foodTruck?.id],
+    queryFn: () => fetch(`/api/locations/${foodTruck?.id}`).then(res => res.json()),
+    enabled: !!foodTruck?.id,
+  });
+
+  const activeLocation = locations.find((location) => location.isActive);
+  const availableItems = menu.filter((item) => item.isAvailable);
+
+  // The truck menu comes back sorted by category, so consecutive runs form sections
+  const sections = availableItems.reduce<{ title: string; items: TruckMenuEntry[] }[]>((result, item) => {
+    const title = item.categoryName ?? "Other";
+    const last = result[result.length - 1];
+    if (last?.title === title) {
+      last.items.push(item);
+    } else {
+      result.push({ title, items: [item] });
+    }
+    return result;
+  }, []);
+
+  const placeOrderMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/orders", {
+        customerName: customerName.trim() || undefined,
+        locationId: activeLocation?.id,
+        items: cart.map((line) => ({
+          menuItemId: line.menuItem.id,
+          quantity: line.quantity,
+          modifierOptionIds: line.options.map((option) => option.id),
+        })),
+      });
+      return response.json() as Promise<Order>;
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", foodTruck?.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard-stats"] });
+      setCart([]);
+      setCustomerName("");
+      toast({
+        title: `Order #${order.orderNumber} placed`,
+        description: `Total $${Number(order.totalAmount).toFixed(2)}`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to place order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addToCart = (menuItem: TruckMenuEntry, options: ModifierOption[] = []) => {
+    const key = cartLineKey(menuItem.id, options);
+    setCart((current) => {
+      const existing = current.find((line) => line.key === key);
+      if (existing) {
+        return current.map((line) =>
+          line.key === key ? { ...line, quantity: line.quantity + 1 } : line
+        );
+      }
+      return [...current, { key, menuItem, options, quantity: 1 }];
+    });
+  };
+
+  const selectItem = (menuItem: TruckMenuEntry) => {
+    if (menuItem.modifierGroups.length > 0) {
+      setPickingItem(menuItem);
+    } else {
+      addToCart(menuItem);
+    }
+  };
+
+  const changeQuantity = (key: string, delta: number) => {
+    setCart((current) =>
+      current
+        .map((line) =>
+          line.key === key ? { ...line, quantity: line.quantity + delta } : line
+        )
+        .filter((line) => line.quantity > 0)
+    );
+  };
+
+  // Display only; the server recalculates the total from menu prices
+  const estimatedTotal = cart.reduce((sum, line) => sum + linePrice(line), 0);
+  const itemCount = cart.reduce((sum, line) => sum + line.quantity, 0);
+
+  if (!foodTruck) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">Loading truck information...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <header className="bg-white border-b border-border px-8 py-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Point of Sale</h1>
+            <p className="text-muted-foreground">
+              Ring up orders for {foodTruck.name}.
+            </p>
+          </div>
+          <div className="flex items-center text-sm text-muted-foreground">
+            <MapPin className="h-4 w-4 mr-1" />
+            {activeLocation ? activeLocation.name : "No active location"}
+          </div>
+        </div>
+      </header>
+
+      <main className="p-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Menu */}
+          <div className="lg:col-span-2">
+            {availableItems.length === 0 ? (
+              <Card>
+                <CardContent className="text-center py-12">
+                  <ShoppingCart className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-foreground mb-2">No menu items</h3>
+                  <p className="text-muted-foreground">
+                    Add menu items to this truck before taking orders.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-6">
+                {sections.map((section) => (
+                  <div key={section.title}>
+                    <h2 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground mb-3">
+                      {section.title}
+                    </h2>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                      {section.items.map((item) => (
+                        <button
+                          key={item.id}
+                          type="button"
+                          onClick={() => selectItem(item)}
+                          className="min-h-28 p-4 rounded-lg border border-border bg-white text-left shadow-sm hover:border-primary active:bg-primary/10 transition-colors"
+                        >
+                          <p className="text-lg font-semibold text-foreground capitalize">{item.name}</p>
+                          <p className="text-sm text-muted-foreground capitalize">{item.proteinType}</p>
+                          <p className="text-lg font-bold text-primary mt-2">
+                            ${Number(item.price).toFixed(2)}
+                          </p>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Cart */}
+          <Card className="h-fit">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center">
+                  <ShoppingCart className="h-5 w-5 mr-2" />
+                  Current Order
+                </CardTitle>
+                {itemCount > 0 && <Badge variant="secondary">{itemCount} items</Badge>}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Input
+                placeholder="Customer name (optional)"
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
+                className="h-12 text-base"
+              />
+
+              {cart.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  Tap a menu item to start an order
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {cart.map((line) => (
+                    <div key={line.key} className="flex items-center justify-between">
+                      <div className="flex-1">
+                        <p className="font-medium text-foreground capitalize">
+                          {line.menuItem.name}
+                        </p>
+                        <p className="text-xs text-muted-foreground capitalize">
+                          {line.menuItem.proteinType} · ${linePrice(line).toFixed(2)}
+                        </p>
+                        {line.options.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {line.options.map((option) => option.name).join(", ")}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="h-10 w-10"
+                          onClick={() => changeQuantity(line.key, -1)}
+                        >
+                          {line.quantity === 1 ? <Trash2 className="h-4 w-4" /> : <Minus className="h-4 w-4" />}
+                        </Button>
+                        <span className="w-6 text-center font-medium">{line.quantity}</span>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="h-10 w-10"
+                          onClick={() => changeQuantity(line.key, 1)}
+                        >
+                          <Plus className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex justify-between pt-4 border-t text-lg font-bold">
+                <span>Total</span>
+                <span>${estimatedTotal.toFixed(2)}</span>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  variant="outline"
+                  className="h-14"
+                  disabled={cart.length === 0}
+                  onClick={() => setCart([])}
+                >
+                  Clear
+                </Button>
+                <Button
+                  className="h-14 bg-primary hover:bg-primary/90 text-base"
+                  disabled={cart.length === 0 || placeOrderMutation.isPending}
+                  onClick={() => placeOrderMutation.mutate()}
+                >
+                  Place Order
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <ModifierPickerDialog
+        menuItem={pickingItem}
+        onOpenChange={(open) => !open && setPickingItem(null)}
+        onConfirm={(menuItem, options) => {
+          addToCart(menuItem, options);
+          setPickingItem(null);
+        }}
+      />
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -15,6 +16,7 @@ import { Truck, Phone, Globe, MapPin, Star, Users, LogOut } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import type { FoodTruck } from "@shared/schema";
 
 const foodTruckSchema = z.object({
   name: z.string().min(1, "Food truck name is required"),
@@ -22,18 +24,27 @@ const foodTruckSchema = z.object({
   cuisine: z.string().optional(),
   phone: z.string().optional(),
   website: z.string().optional(),
+  timezone: z.string(),
 });
 
+// Select value meaning "no truck-specific timezone"
+const ORGANIZATION_TIMEZONE = "organization";
+const timeZones = Intl.supportedValuesOf("timeZone");
+
 type FoodTruckFormData = z.infer<typeof foodTruckSchema>;
 
 export default function Profile() {
   const { user } = useAuth();
   const { toast } = useToast();
 
-  const { data: foodTruck } = useQuery({
+  const { data: foodTruck } = useQuery<FoodTruck>({
     queryKey: ["/api/food-truck"],
   });
 
+  const { data: organization } = useQuery<{ timezone: string }>({
+    queryKey: ["/api/organization"],
+  });
+
   const { data: reviews = [] } = useQuery({
     queryKey: ["/api/reviews", foodTruck?.id],
     enabled: !!foodTruck?.id,
@@ -47,6 +58,7 @@ export default function Profile() {
       cuisine: "",
       phone: "",
       website: "",
+      timezone: ORGANIZATION_TIMEZONE,
     },
   });
 
@@ -59,12 +71,13 @@ export default function Profile() {
         cuisine: foodTruck.cuisine || "",
         phone: foodTruck.phone || "",
         website: foodTruck.website || "",
+        timezone: foodTruck.timezone || ORGANIZATION_TIMEZONE,
       });
     }
   }, [foodTruck, form]);
 
   const createMutation = useMutation({
-    mutationFn: async (data: FoodTruckFormData) => {
+    mutationFn: async (data: Omit<FoodTruckFormData, "timezone"> & { timezone: string | null }) => {
       const response = await apiRequest("POST", "/api/food-truck", data);
       return response.json();
     },
@@ -85,7 +98,7 @@ export default function Profile() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: async (data: FoodTruckFormData) => {
+    mutationFn: async (data: Omit<FoodTruckFormData, "timezone"> & { timezone: string | null }) => {
       const response = await apiRequest("PUT", `/api/food-truck/${foodTruck?.id}`, data);
       return response.json();
     },
@@ -105,7 +118,11 @@ export default function Profile() {
     },
   });
 
-  const onSubmit = (data: FoodTruckFormData) => {
+  const onSubmit = (formData: FoodTruckFormData) => {
+    const data = {
+      ...formData,
+      timezone: formData.timezone === ORGANIZATION_TIMEZONE ? null : formData.timezone,
+    };
     if (foodTruck) {
       updateMutation.mutate(data);
     } else {
@@ -281,6 +298,37 @@ export default function Profile() {
                       )}
                     />
 
+                    <FormField
+                      control={form.control}
+                      name="timezone"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Timezone</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={ORGANIZATION_TIMEZONE}>
+                                Organization default ({organization?.timezone ?? "UTC"})
+                              </SelectItem>
+                              {timeZones.map((timeZone) => (
+                                <SelectItem key={timeZone} value={timeZone}>
+                                  {timeZone.replace(/_/g, " ")}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <p className="text-sm text-muted-foreground">
+                            Used to decide where "today" starts on your dashboard.
+                          </p>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
                     <div className="flex justify-end pt-4">
                       <Button
                         type="submit"
@@ -3,7 +3,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Plus, Beef, AlertTriangle } from "lucide-react";
+import { Plus, Beef, AlertTriangle, History } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -15,12 +15,24 @@ import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useProteins } from "@/hooks/useProteins";
+import StockHistorySheet from "@/components/stock-history-sheet";
+import StockAlertsPanel from "@/components/stock-alerts-panel";
+import StockCounts from "@/components/stock-counts";
+import WasteLog from "@/components/waste-log";
+import TransfersList from "@/components/transfers-list";
+import ReorderPanel from "@/components/reorder-panel";
+import ProteinCatalogue from "@/components/protein-catalogue";
+import type { InventoryAlert } from "@/lib/types";
+import type { FoodTruck, ProteinInventory as ProteinInventoryRow } from "@shared/schema";
 
 const proteinSchema = z.object({
-  proteinType: z.enum(["pork", "beef", "chicken"]),
+  proteinId: z.string().min(1, "Pick a protein"),
   allocatedAmount: z.string().min(1, "Allocated amount is required"),
   currentStock: z.string().min(1, "Current stock is required"),
   costPerUnit: z.string().optional(),
+  packSize: z.string().optional(),
 });
 
 type ProteinFormData = z.infer<typeof proteinSchema>;
@@ -29,16 +41,25 @@ export default function ProteinInventory() {
   const { toast } = useToast();
   const { user } = useAuth();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [historyProtein, setHistoryProtein] = useState<ProteinInventoryRow | null>(null);
+  const { can } = usePermissions();
+  const { activeProteins, iconFor } = useProteins();
 
-  const { data: foodTruck } = useQuery({
+  const { data: foodTruck } = useQuery<FoodTruck>({
     queryKey: ["/api/food-truck"],
   });
 
-  const { data: proteinInventory = [] } = useQuery({
+  const { data: proteinInventory = [] } = useQuery<ProteinInventoryRow[]>({
     queryKey: ["/api/protein-inventory", foodTruck?.id],
     enabled: !!foodTruck?.id,
   });
 
+  const { data: alerts = [] } = useQuery<InventoryAlert[]>({
+    queryKey: ["/api/alerts", foodTruck?.id],
+    queryFn: () => fetch(`/api/alerts/${foodTruck?.id}`).then(res => res.json()),
+    enabled: !!foodTruck?.id,
+  });
+
   const { data: menuItems = [] } = useQuery({
     queryKey: ["/api/menu-items"],
   });
@@ -46,10 +67,11 @@ export default function ProteinInventory() {
   const form = useForm<ProteinFormData>({
     resolver: zodResolver(proteinSchema),
     defaultValues: {
-      proteinType: "pork",
+      proteinId: "",
       allocatedAmount: "",
       currentStock: "",
       costPerUnit: "",
+      packSize: "",
     },
   });
 
@@ -57,15 +79,18 @@ export default function ProteinInventory() {
     mutationFn: async (data: ProteinFormData) => {
       const response = await apiRequest("POST", "/api/protein-inventory", {
         ...data,
+        proteinId: parseInt(data.proteinId),
         truckId: foodTruck?.id,
         allocatedAmount: data.allocatedAmount,
         currentStock: data.currentStock,
         costPerUnit: data.costPerUnit || null,
+        packSize: data.packSize || null,
       });
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/protein-inventory", foodTruck?.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts", foodTruck?.id] });
       setIsDialogOpen(false);
       form.reset();
       toast({
@@ -101,25 +126,20 @@ export default function ProteinInventory() {
     },
   });
 
+  // New stock is kept in the catalogue's default unit
+  const selectedProtein = activeProteins.find((protein) => String(protein.id) === form.watch("proteinId"));
+  const newUnit = selectedProtein?.defaultUnit ?? "lbs";
+
   const onSubmit = (data: ProteinFormData) => {
     createMutation.mutate(data);
   };
 
-  const getProteinIcon = (proteinType: string) => {
-    switch (proteinType) {
-      case "beef": return "🥩";
-      case "pork": return "🥓";
-      case "chicken": return "🐔";
-      default: return "🍖";
-    }
-  };
-
   const getUsagePercentage = (used: number, allocated: number) => {
     return allocated > 0 ? (used / allocated) * 100 : 0;
   };
 
-  const getMenuItemsForProtein = (proteinType: string) => {
-    return menuItems.filter((item: any) => item.proteinType === proteinType);
+  const getMenuItemsForProtein = (proteinId: number | null) => {
+    return menuItems.filter((item: any) => item.proteinId === proteinId);
   };
 
   if (!foodTruck) {
@@ -142,12 +162,14 @@ export default function ProteinInventory() {
             </p>
           </div>
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button className="bg-primary hover:bg-primary/90">
-                <Plus className="h-4 w-4 mr-2" />
-                Add Protein
-              </Button>
-            </DialogTrigger>
+            {can("inventory:allocate") && (
+              <DialogTrigger asChild>
+                <Button className="bg-primary hover:bg-primary/90">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Protein
+                </Button>
+              </DialogTrigger>
+            )}
             <DialogContent>
               <DialogHeader>
                 <DialogTitle>Add Protein Inventory</DialogTitle>
@@ -156,20 +178,22 @@ export default function ProteinInventory() {
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                   <FormField
                     control={form.control}
-                    name="proteinType"
+                    name="proteinId"
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Protein Type</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Select onValueChange={field.onChange} value={field.value}>
                           <FormControl>
                             <SelectTrigger>
                               <SelectValue placeholder="Select protein type" />
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="pork">🥓 Pork</SelectItem>
-                            <SelectItem value="beef">🥩 Beef</SelectItem>
-                            <SelectItem value="chicken">🐔 Chicken</SelectItem>
+                            {activeProteins.map((protein) => (
+                              <SelectItem key={protein.id} value={String(protein.id)} className="capitalize">
+                                {iconFor(protein.id)} {protein.name}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                         <FormMessage />
@@ -182,7 +206,7 @@ export default function ProteinInventory() {
                     name="allocatedAmount"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Allocated Amount (lbs)</FormLabel>
+                        <FormLabel>Allocated Amount ({newUnit})</FormLabel>
                         <FormControl>
                           <Input
                             type="text"
@@ -200,7 +224,7 @@ export default function ProteinInventory() {
                     name="currentStock"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Current Stock (lbs)</FormLabel>
+                        <FormLabel>Current Stock ({newUnit})</FormLabel>
                         <FormControl>
                           <Input
                             type="text"
@@ -218,11 +242,29 @@ export default function ProteinInventory() {
                     name="costPerUnit"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Cost per lb (Optional)</FormLabel>
+                        <FormLabel>Cost per {newUnit} (Optional)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="text"
+                            placeholder={selectedProtein?.costPerUnit ?? "8.50"}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="packSize"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Pack Size (Optional)</FormLabel>
                         <FormControl>
                           <Input
                             type="text"
-                            placeholder="8.50"
+                            placeholder={`${newUnit} per box, bag or case`}
                             {...field}
                           />
                         </FormControl>
@@ -271,7 +313,7 @@ export default function ProteinInventory() {
                       .map((item: any) => (
                         <div key={`${item.name}-${item.proteinType}`} className="flex justify-between items-center">
                           <span className="text-sm">
-                            {getProteinIcon(item.proteinType)} {item.proteinType}
+                            {iconFor(item.proteinId)} {item.proteinType}
                           </span>
                           <div className="text-right">
                             <p className="text-sm font-medium">${Number(item.price).toFixed(2)}</p>
@@ -288,6 +330,8 @@ export default function ProteinInventory() {
           </div>
         </div>
 
+        <StockAlertsPanel truckId={foodTruck.id} alerts={alerts} />
+
         {/* Protein Inventory */}
         <div>
           <h2 className="text-xl font-semibold text-foreground mb-4">Protein Allocation & Usage</h2>
@@ -299,36 +343,42 @@ export default function ProteinInventory() {
                 <p className="text-muted-foreground mb-6">
                   Start by adding protein allocations for your truck.
                 </p>
-                <Button 
-                  className="bg-primary hover:bg-primary/90"
-                  onClick={() => setIsDialogOpen(true)}
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add First Protein
-                </Button>
+                {can("inventory:allocate") && (
+                  <Button 
+                    className="bg-primary hover:bg-primary/90"
+                    onClick={() => setIsDialogOpen(true)}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add First Protein
+                  </Button>
+                )}
               </CardContent>
             </Card>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {proteinInventory.map((protein: any) => {
                 const usagePercent = getUsagePercentage(Number(protein.usedAmount), Number(protein.allocatedAmount));
-                const remaining = Number(protein.currentStock);
-                const isLow = remaining < Number(protein.allocatedAmount) * 0.2;
+                const isLow = alerts.some((alert) => alert.proteinInventoryId === protein.id && alert.kind === "low_stock");
 
                 return (
                   <Card key={protein.id} className={isLow ? "border-red-200" : ""}>
                     <CardHeader className="pb-3">
                       <div className="flex items-center justify-between">
                         <CardTitle className="text-lg flex items-center">
-                          <span className="mr-2">{getProteinIcon(protein.proteinType)}</span>
+                          <span className="mr-2">{iconFor(protein.proteinId)}</span>
                           {protein.proteinType.charAt(0).toUpperCase() + protein.proteinType.slice(1)}
                         </CardTitle>
-                        {isLow && (
-                          <Badge variant="destructive" className="flex items-center">
-                            <AlertTriangle className="h-3 w-3 mr-1" />
-                            Low
-                          </Badge>
-                        )}
+                        <div className="flex items-center space-x-1">
+                          {isLow && (
+                            <Badge variant="destructive" className="flex items-center">
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              Low
+                            </Badge>
+                          )}
+                          <Button variant="ghost" size="sm" title="Stock history" onClick={() => setHistoryProtein(protein)}>
+                            <History className="h-4 w-4" />
+                          </Button>
+                        </div>
                       </div>
                     </CardHeader>
                     <CardContent className="space-y-4">
@@ -343,19 +393,19 @@ export default function ProteinInventory() {
                       <div className="space-y-2">
                         <div className="flex justify-between">
                           <span className="text-sm text-muted-foreground">Allocated:</span>
-                          <span className="text-sm font-medium">{Number(protein.allocatedAmount).toFixed(1)} lbs</span>
+                          <span className="text-sm font-medium">{Number(protein.allocatedAmount).toFixed(1)} {protein.unit}</span>
                         </div>
                         <div className="flex justify-between">
                           <span className="text-sm text-muted-foreground">Current Stock:</span>
-                          <span className="text-sm font-medium">{Number(protein.currentStock).toFixed(1)} lbs</span>
+                          <span className="text-sm font-medium">{Number(protein.currentStock).toFixed(1)} {protein.unit}</span>
                         </div>
                         <div className="flex justify-between">
                           <span className="text-sm text-muted-foreground">Used:</span>
-                          <span className="text-sm font-medium">{Number(protein.usedAmount).toFixed(1)} lbs</span>
+                          <span className="text-sm font-medium">{Number(protein.usedAmount).toFixed(1)} {protein.unit}</span>
                         </div>
                         {protein.costPerUnit && (
                           <div className="flex justify-between">
-                            <span className="text-sm text-muted-foreground">Cost/lb:</span>
+                            <span className="text-sm text-muted-foreground">Cost/{protein.unit}:</span>
                             <span className="text-sm font-medium">${Number(protein.costPerUnit).toFixed(2)}</span>
                           </div>
                         )}
@@ -364,10 +414,10 @@ export default function ProteinInventory() {
                       <div className="pt-2 border-t">
                         <h4 className="text-sm font-medium mb-2">Menu Items:</h4>
                         <div className="space-y-1">
-                          {getMenuItemsForProtein(protein.proteinType).map((item: any) => (
-                            <div key={`${item.name}-${item.proteinType}`} className="flex justify-between text-xs">
+                          {getMenuItemsForProtein(protein.proteinId).map((item: any) => (
+                            <div key={item.id} className="flex justify-between text-xs">
                               <span>{item.name}</span>
-                              <span>{Number(item.proteinAmount).toFixed(2)} lbs</span>
+                              <span>{Number(item.proteinAmount).toFixed(2)} lbs per item</span>
                             </div>
                           ))}
                         </div>
@@ -379,7 +429,18 @@ export default function ProteinInventory() {
             </div>
           )}
         </div>
+
+        <ReorderPanel truckId={foodTruck.id} proteins={proteinInventory} />
+        <StockCounts truckId={foodTruck.id} proteins={proteinInventory} />
+        <WasteLog truckId={foodTruck.id} proteins={proteinInventory} />
+        <TransfersList truckId={foodTruck.id} proteins={proteinInventory} />
+        <ProteinCatalogue canManage={can("inventory:allocate")} />
       </main>
+
+      <StockHistorySheet
+        protein={historyProtein && (proteinInventory.find((row) => row.id === historyProtein.id) ?? historyProtein)}
+        onOpenChange={(open) => !open && setHistoryProtein(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Plus, PackageCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import SuppliersCard from "@/components/suppliers-card";
+import PurchaseOrderDialog from "@/components/purchase-order-dialog";
+import ReceiveDeliveryDialog from "@/components/receive-delivery-dialog";
+import type { FoodTruck, PurchaseOrderStatus, PurchaseOrderWithLines } from "@shared/schema";
+
+const statusLabels: Record<PurchaseOrderStatus, string> = {
+  draft: "Draft",
+  ordered: "Ordered",
+  partially_received: "Partly received",
+  received: "Received",
+  closed: "Closed short",
+  cancelled: "Cancelled",
+};
+
+function getStatusVariant(status: string) {
+  switch (status) {
+    case "received":
+      return "default";
+    case "ordered":
+    case "partially_received":
+      return "secondary";
+    case "cancelled":
+      return "destructive";
+    default:
+      return "outline";
+  }
+}
+
+export default function Purchasing() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canManage = can("purchasing:manage");
+  const [isCreating, setIsCreating] = useState(false);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrderWithLines | null>(null);
+
+  const { data: foodTruck } = useQuery<FoodTruck>({
+    queryKey: ["/api/food-truck"],
+  });
+
+  const { data: purchaseOrders = [], isLoading } = useQuery<PurchaseOrderWithLines[]>({
+    queryKey: ["/api/purchase-orders", foodTruck?.id],
+    queryFn: () => fetch(`/api/purchase-orders/${foodTruck?.id}`).then(res => res.json()),
+    enabled: !!foodTruck?.id,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: PurchaseOrderStatus }) => {
+      const response = await apiRequest("PUT", `/api/purchase-orders/${id}`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders", foodTruck?.id] });
+      // Placed and cancelled orders change what the reorder panel counts as on order
+      queryClient.invalidateQueries({ queryKey: ["/api/protein-inventory", foodTruck?.id] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update purchase order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!foodTruck) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">Loading truck information...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <header className="bg-white border-b border-border px-8 py-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Purchasing</h1>
+            <p className="text-muted-foreground">
+              Order from suppliers and receive deliveries into {foodTruck.name}'s inventory.
+            </p>
+          </div>
+          {canManage && (
+            <Button className="bg-primary hover:bg-primary/90" onClick={() => setIsCreating(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Purchase Order
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="p-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 space-y-4">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+          ) : purchaseOrders.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-12">
+                <PackageCheck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-muted-foreground">No purchase orders yet</p>
+              </CardContent>
+            </Card>
+          ) : (
+            purchaseOrders.map((order) => {
+              const status = order.status as PurchaseOrderStatus;
+              return (
+                <Card key={order.id}>
+                  <CardContent className="p-6 space-y-4">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <p className="font-semibold text-foreground">
+                          PO #{order.id} · {order.supplierName}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {order.expectedDate
+                            ? `Expected ${format(new Date(`${order.expectedDate}T00:00:00`), "MMM d, yyyy")}`
+                            : "No delivery date"}
+                          {order.receivedAt && ` · Last delivery ${format(new Date(order.receivedAt), "MMM d")}`}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <Badge variant={getStatusVariant(status)}>{statusLabels[status] ?? status}</Badge>
+                        <p className="text-sm font-medium mt-1">${order.total.toFixed(2)}</p>
+                      </div>
+                    </div>
+
+                    <div className="space-y-1">
+                      {order.lines.map((line) => (
+                        <div key={line.id} className="flex justify-between text-sm">
+                          <span className="capitalize">{line.itemName}</span>
+                          <span className="text-muted-foreground">
+                            {Number(line.quantityReceived).toFixed(2)} / {Number(line.quantityOrdered).toFixed(2)} {line.unit}
+                            {" "}@ ${Number(line.unitCost).toFixed(2)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    {order.notes && <p className="text-sm text-foreground">{order.notes}</p>}
+
+                    <div className="flex justify-end gap-2">
+                      {canManage && status === "draft" && (
+                        <Button
+                          size="sm"
+                          disabled={statusMutation.isPending}
+                          onClick={() => statusMutation.mutate({ id: order.id, status: "ordered" })}
+                        >
+                          Place Order
+                        </Button>
+                      )}
+                      {can("purchasing:receive") && (status === "ordered" || status === "partially_received") && (
+                        <Button size="sm" onClick={() => setReceivingOrder(order)}>
+                          Receive
+                        </Button>
+                      )}
+                      {canManage && status === "partially_received" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={statusMutation.isPending}
+                          onClick={() => statusMutation.mutate({ id: order.id, status: "closed" })}
+                        >
+                          Close Short
+                        </Button>
+                      )}
+                      {canManage && (status === "draft" || status === "ordered") && (
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          disabled={statusMutation.isPending}
+                          onClick={() => statusMutation.mutate({ id: order.id, status: "cancelled" })}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+        </div>
+
+        <div>
+          <SuppliersCard canManage={canManage} />
+        </div>
+      </main>
+
+      <PurchaseOrderDialog truckId={foodTruck.id} open={isCreating} onOpenChange={setIsCreating} />
+      <ReceiveDeliveryDialog order={receivingOrder} onOpenChange={(open) => !open && setReceivingOrder(null)} />
+    </div>
+  );
+}
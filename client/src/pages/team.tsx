@@ -13,6 +13,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { usePermissions } from "@/hooks/usePermissions";
 
 const organizationSchema = z.object({
   name: z.string().min(1, "Organization name is required"),
@@ -46,6 +47,7 @@ export default function Team() {
   const [isMemberDialogOpen, setIsMemberDialogOpen] = useState(false);
   const [isTruckDialogOpen, setIsTruckDialogOpen] = useState(false);
   const [editingMember, setEditingMember] = useState<any>(null);
+  const { can } = usePermissions();
 
   // Get user's organization and team data
   const { data: organization } = useQuery({
@@ -91,6 +93,7 @@ export default function Team() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/membership"] });
       setIsOrgDialogOpen(false);
       orgForm.reset();
       toast({
@@ -313,12 +316,14 @@ export default function Team() {
                     memberForm.reset();
                   }
                 }}>
-                  <DialogTrigger asChild>
-                    <Button size="sm" className="bg-primary hover:bg-primary/90">
-                      <UserPlus className="h-4 w-4 mr-2" />
-                      Add Member
-                    </Button>
-                  </DialogTrigger>
+                  {can("team:manage") && (
+                    <DialogTrigger asChild>
+                      <Button size="sm" className="bg-primary hover:bg-primary/90">
+                        <UserPlus className="h-4 w-4 mr-2" />
+                        Add Member
+                      </Button>
+                    </DialogTrigger>
+                  )}
                   <DialogContent>
                     <DialogHeader>
                       <DialogTitle>{editingMember ? "Edit Team Member" : "Add Team Member"}</DialogTitle>
@@ -501,38 +506,40 @@ export default function Team() {
                             </p>
                           </div>
                         </div>
-                        <div className="flex gap-2">
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => {
-                              setEditingMember(member);
-                              memberForm.reset({
-                                userId: member.userId,
-                                firstName: member.firstName,
-                                lastName: member.lastName,
-                                email: member.email || "",
-                                phone: member.phone || "",
-                                role: member.role,
-                                truckId: member.truckId,
-                              });
-                              setIsMemberDialogOpen(true);
-                            }}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="destructive"
-                            onClick={() => {
-                              if (window.confirm("Are you sure you want to delete this team member?")) {
-                                deleteMemberMutation.mutate(member.id);
-                              }
-                            }}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
+                        {can("team:manage") && (
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => {
+                                setEditingMember(member);
+                                memberForm.reset({
+                                  userId: member.userId,
+                                  firstName: member.firstName,
+                                  lastName: member.lastName,
+                                  email: member.email || "",
+                                  phone: member.phone || "",
+                                  role: member.role,
+                                  truckId: member.truckId,
+                                });
+                                setIsMemberDialogOpen(true);
+                              }}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => {
+                                if (window.confirm("Are you sure you want to delete this team member?")) {
+                                  deleteMemberMutation.mutate(member.id);
+                                }
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -547,12 +554,14 @@ export default function Team() {
               <div className="flex items-center justify-between">
                 <CardTitle>Food Trucks</CardTitle>
                 <Dialog open={isTruckDialogOpen} onOpenChange={setIsTruckDialogOpen}>
-                  <DialogTrigger asChild>
-                    <Button size="sm" className="bg-primary hover:bg-primary/90">
-                      <Plus className="h-4 w-4 mr-2" />
-                      Add Truck
-                    </Button>
-                  </DialogTrigger>
+                  {can("trucks:manage") && (
+                    <DialogTrigger asChild>
+                      <Button size="sm" className="bg-primary hover:bg-primary/90">
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Truck
+                      </Button>
+                    </DialogTrigger>
+                  )}
                   <DialogContent>
                     <DialogHeader>
                       <DialogTitle>Add Food Truck</DialogTitle>
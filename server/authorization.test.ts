@@ -0,0 +1,207 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Request, Response } from "express";
+import type { FoodTruck, Location, Order, Organization, ProteinInventory, TeamMember } from "@shared/schema";
+
+vi.mock("./storage", () => ({
+  storage: {
+    getOrganizationByOwnerId: vi.fn(),
+    getTeamMemberByUserId: vi.fn(),
+    getOrganization: vi.fn(),
+    getFoodTruck: vi.fn(),
+    getOrder: vi.fn(),
+    getLocation: vi.fn(),
+    getProteinInventoryItem: vi.fn(),
+  },
+}));
+
+import { storage } from "./storage";
+import { requireAccess, requirePermission } from "./authorization";
+
+const mocked = vi.mocked(storage);
+
+// Only the fields authorization reads are filled in
+function fixture<T>(fields: Partial<T>): T {
+  return fields as unknown as T;
+}
+
+const OUR_ORG = fixture<Organization>({ id: 1, name: "Ours", ownerId: "owner-1" });
+const OTHER_ORG_ID = 2;
+
+// Trucks 10 and 11 belong to us, 20 to another organization
+const trucks: Record<number, FoodTruck> = {
+  10: fixture<FoodTruck>({ id: 10, organizationId: OUR_ORG.id }),
+  11: fixture<FoodTruck>({ id: 11, organizationId: OUR_ORG.id }),
+  20: fixture<FoodTruck>({ id: 20, organizationId: OTHER_ORG_ID }),
+};
+
+function member(fields: Partial<TeamMember>): TeamMember {
+  return fixture<TeamMember>({ id: 5, organizationId: OUR_ORG.id, isActive: true, truckId: null, ...fields });
+}
+
+function signInAs(role: "owner" | "admin" | "manager" | "member" | "nobody") {
+  mocked.getOrganizationByOwnerId.mockResolvedValue(role === "owner" ? OUR_ORG : undefined);
+  mocked.getTeamMemberByUserId.mockResolvedValue(
+    role === "owner" || role === "nobody" ? undefined : member({ role })
+  );
+}
+
+function buildRequest(overrides: { params?: Record<string, string>; body?: Record<string, unknown> } = {}) {
+  return {
+    user: { claims: { sub: "user-1" } },
+    params: overrides.params ?? {},
+    body: overrides.body ?? {},
+  } as unknown as Request;
+}
+
+function buildResponse() {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+}
+
+async function run(handler: ReturnType<typeof requireAccess>, req: Request) {
+  const res = buildResponse();
+  const next = vi.fn();
+  await handler(req, res as unknown as Response, next);
+  return { res, next };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocked.getOrganization.mockImplementation(async (id) => (id === OUR_ORG.id ? OUR_ORG : undefined));
+  mocked.getFoodTruck.mockImplementation(async (id) => trucks[id]);
+  signInAs("owner");
+});
+
+describe("requireAccess", () => {
+  it("lets a record from the caller's organization through", async () => {
+    const { res, next } = await run(requireAccess("truck", "truckId"), buildRequest({ params: { truckId: "10" } }));
+    expect(next).toHaveBeenCalled();
+    expect(res.statusCode).toBe(200);
+  });
+
+  it("forbids another organization's truck", async () => {
+    const { res, next } = await run(requireAccess("truck", "truckId"), buildRequest({ params: { truckId: "20" } }));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+  });
+
+  it("forbids another organization's order", async () => {
+    mocked.getOrder.mockResolvedValue(fixture<Order>({ id: 7, truckId: 20 }));
+    const { res, next } = await run(requireAccess("order"), buildRequest({ params: { id: "7" } }));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+  });
+
+  it("forbids another organization's location", async () => {
+    mocked.getLocation.mockResolvedValue(fixture<Location>({ id: 3, truckId: 20 }));
+    const { res, next } = await run(requireAccess("location"), buildRequest({ params: { id: "3" } }));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+  });
+
+  it("forbids another organization's inventory", async () => {
+    mocked.getProteinInventoryItem.mockResolvedValue(fixture<ProteinInventory>({ id: 4, truckId: 20 }));
+    const { res, next } = await run(requireAccess("proteinInventory"), buildRequest({ params: { id: "4" } }));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+  });
+
+  it("forbids pointing a body id at another organization's truck", async () => {
+    const { res, next } = await run(
+      requireAccess("truck", "truckId", "body"),
+      buildRequest({ body: { truckId: 20 } })
+    );
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+  });
+
+  it("returns 404 for a record that doesn't exist", async () => {
+    mocked.getOrder.mockResolvedValue(undefined);
+    const { res, next } = await run(requireAccess("order"), buildRequest({ params: { id: "999" } }));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(404);
+  });
+
+  it("returns 404 for a record whose truck is gone", async () => {
+    mocked.getLocation.mockResolvedValue(fixture<Location>({ id: 3, truckId: 404 }));
+    const { res } = await run(requireAccess("location"), buildRequest({ params: { id: "3" } }));
+    expect(res.statusCode).toBe(404);
+  });
+
+  it("rejects ids that aren't integers", async () => {
+    const { res, next } = await run(requireAccess("truck", "truckId"), buildRequest({ params: { truckId: "abc" } }));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(400);
+  });
+
+  it("skips a body id that wasn't sent", async () => {
+    const { next } = await run(requireAccess("truck", "truckId", "body"), buildRequest());
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("forbids callers without an organization", async () => {
+    signInAs("nobody");
+    const { res, next } = await run(requireAccess("truck", "truckId"), buildRequest({ params: { truckId: "10" } }));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+  });
+
+  it("forbids deactivated team members", async () => {
+    signInAs("member");
+    mocked.getTeamMemberByUserId.mockResolvedValue(member({ role: "admin", isActive: false }));
+    const { res, next } = await run(requireAccess("truck", "truckId"), buildRequest({ params: { truckId: "10" } }));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+  });
+});
+
+describe("requirePermission", () => {
+  it("lets owners do anything", async () => {
+    const { next } = await run(requirePermission("team:manage"), buildRequest());
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("forbids members from admin-only actions", async () => {
+    signInAs("member");
+    const { res, next } = await run(requirePermission("inventory:allocate"), buildRequest());
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+  });
+
+  it("forbids managers from admin-only actions", async () => {
+    signInAs("manager");
+    const { res, next } = await run(requirePermission("team:manage"), buildRequest());
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+  });
+
+  it("lets managers do manager actions", async () => {
+    signInAs("manager");
+    const { next } = await run(requirePermission("orders:refund"), buildRequest());
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("lets members take orders", async () => {
+    signInAs("member");
+    const { next } = await run(requirePermission("orders:create"), buildRequest());
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("forbids callers without an organization", async () => {
+    signInAs("nobody");
+    const { res, next } = await run(requirePermission("orders:create"), buildRequest());
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+  });
+});
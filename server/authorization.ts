@@ -0,0 +1,210 @@
+import type { Request, RequestHandler } from "express";
+import type { FoodTruck, Organization } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { storage } from "./storage";
+
+// The organization the signed-in user works for, and in what capacity
+export interface OrganizationContext {
+  organization: Organization;
+  role: string; // admin, manager, member
+  isOwner: boolean;
+  truckId: number | null; // truck a team member is assigned to, if any
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Truck picked in the sidebar; "all" rolls the dashboard up across trucks
+    selectedTruckId?: number | "all";
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      orgContext?: OrganizationContext | null;
+    }
+
+    // What passport keeps for a signed-in user; sub is the user's id
+    interface User {
+      claims?: { sub?: string };
+    }
+  }
+}
+
+type ResourceKind =
+  | "organization"
+  | "truck"
+  | "location"
+  | "order"
+  | "protein"
+  | "proteinInventory"
+  | "inventoryItem"
+  | "stockAlert"
+  | "wasteLog"
+  | "supplier"
+  | "commissaryStock"
+  | "stockTransfer"
+  | "purchaseOrder"
+  | "teamMember"
+  | "menuCategory"
+  | "menuItem"
+  | "modifierGroup"
+  | "modifierOption";
+
+export async function resolveOrganizationContext(userId: string): Promise<OrganizationContext | null> {
+  const ownedOrganization = await storage.getOrganizationByOwnerId(userId);
+  if (ownedOrganization) {
+    return { organization: ownedOrganization, role: "admin", isOwner: true, truckId: null };
+  }
+
+  const membership = await storage.getTeamMemberByUserId(userId);
+  if (membership?.isActive) {
+    const organization = await storage.getOrganization(membership.organizationId);
+    if (organization) {
+      return {
+        organization,
+        role: membership.role,
+        isOwner: false,
+        truckId: membership.truckId,
+      };
+    }
+  }
+
+  return null;
+}
+
+// Resolves (once per request) the caller's organization context
+export async function getOrganizationContext(req: Request): Promise<OrganizationContext | null> {
+  if (req.orgContext === undefined) {
+    const userId = req.user?.claims?.sub;
+    req.orgContext = userId ? await resolveOrganizationContext(userId) : null;
+  }
+  return req.orgContext;
+}
+
+async function getTruckOrganizationId(truckId: number | null | undefined) {
+  if (!truckId) return undefined;
+  const truck = await storage.getFoodTruck(truckId);
+  return truck?.organizationId;
+}
+
+// Looks up which organization a record belongs to; undefined when it doesn't exist
+async function getOwningOrganizationId(kind: ResourceKind, id: number): Promise<number | undefined> {
+  switch (kind) {
+    case "organization":
+      return (await storage.getOrganization(id))?.id;
+    case "truck":
+      return getTruckOrganizationId(id);
+    case "location":
+      return getTruckOrganizationId((await storage.getLocation(id))?.truckId);
+    case "order":
+      return getTruckOrganizationId((await storage.getOrder(id))?.truckId);
+    case "protein":
+      return (await storage.getProtein(id))?.organizationId;
+    case "proteinInventory":
+      return getTruckOrganizationId((await storage.getProteinInventoryItem(id))?.truckId);
+    case "inventoryItem":
+      return getTruckOrganizationId((await storage.getInventoryItem(id))?.truckId);
+    case "stockAlert":
+      return getTruckOrganizationId((await storage.getStockAlert(id))?.truckId);
+    case "wasteLog":
+      return getTruckOrganizationId((await storage.getWasteLogEntry(id))?.truckId);
+    case "supplier":
+      return (await storage.getSupplier(id))?.organizationId;
+    case "commissaryStock":
+      return (await storage.getCommissaryStockItem(id))?.organizationId;
+    case "stockTransfer":
+      return (await storage.getTransfer(id))?.organizationId;
+    case "purchaseOrder":
+      return getTruckOrganizationId((await storage.getPurchaseOrder(id))?.truckId);
+    case "teamMember":
+      return (await storage.getTeamMember(id))?.organizationId;
+    case "menuCategory":
+      return (await storage.getMenuCategory(id))?.organizationId;
+    case "menuItem":
+      return (await storage.getMenuItem(id))?.organizationId ?? undefined;
+    case "modifierGroup":
+      return (await storage.getModifierGroup(id))?.organizationId;
+    case "modifierOption": {
+      const option = await storage.getModifierOption(id);
+      return option && (await storage.getModifierGroup(option.groupId))?.organizationId;
+    }
+  }
+}
+
+// The truck the caller is currently working with, honoring their sidebar pick
+export async function getSelectedTruck(req: Request): Promise<FoodTruck | undefined> {
+  const userId = req.user?.claims?.sub;
+  if (!userId) {
+    return undefined;
+  }
+  const selected = req.session.selectedTruckId;
+  return await storage.getFoodTruckByUserId(userId, typeof selected === "number" ? selected : undefined);
+}
+
+export async function userCanAccessTruck(userId: string, truckId: number): Promise<boolean> {
+  const context = await resolveOrganizationContext(userId);
+  return !!context && (await getTruckOrganizationId(truckId)) === context.organization.id;
+}
+
+/**
+ * Rejects the request unless the record identified by `req[from][param]`
+ * belongs to the caller's organization. Ids in the body are optional (a
+ * partial update may not include one); ids in the route params are not.
+ */
+export function requireAccess(
+  kind: ResourceKind,
+  param = "id",
+  from: "params" | "body" = "params",
+): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const rawId = from === "params" ? req.params[param] : req.body?.[param];
+      if (from === "body" && (rawId === undefined || rawId === null)) {
+        return next();
+      }
+
+      const id = Number(rawId);
+      if (!Number.isInteger(id)) {
+        return res.status(400).json({ message: `Invalid ${param}` });
+      }
+
+      const context = await getOrganizationContext(req);
+      if (!context) {
+        return res.status(403).json({ message: "You don't belong to an organization" });
+      }
+
+      const organizationId = await getOwningOrganizationId(kind, id);
+      if (organizationId === undefined) {
+        return res.status(404).json({ message: "Not found" });
+      }
+      if (organizationId !== context.organization.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      next();
+    } catch (error) {
+      console.error("Error checking access:", error);
+      res.status(500).json({ message: "Failed to check access" });
+    }
+  };
+}
+
+// Rejects the request unless the caller's role grants the permission
+export function requirePermission(permission: Permission): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const context = await getOrganizationContext(req);
+      if (!context) {
+        return res.status(403).json({ message: "You don't belong to an organization" });
+      }
+      if (!hasPermission(context.role, permission)) {
+        return res.status(403).json({ message: "You don't have permission to do that" });
+      }
+      next();
+    } catch (error) {
+      console.error("Error checking permission:", error);
+      res.status(500).json({ message: "Failed to check permission" });
+    }
+  };
+}
@@ -1,9 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+// Room for a downscaled waste photo
+app.use(express.json({ limit: "1mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -37,6 +39,11 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Bring data saved before organization menus and the protein catalogue up
+  // to date; menus first, since catalogue entries are per organization
+  await storage.backfillOrganizationMenus();
+  await storage.backfillProteinCatalogue();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
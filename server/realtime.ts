@@ -0,0 +1,109 @@
+import type { IncomingMessage, Server } from "http";
+import type { Request, Response } from "express";
+import type { Session } from "express-session";
+import { WebSocketServer, WebSocket } from "ws";
+import type { Order } from "@shared/schema";
+import { getSession } from "./replitAuth";
+import { userCanAccessTruck } from "./authorization";
+
+export type OrderEvent =
+  | { type: "order.created"; order: Order }
+  | { type: "order.updated"; order: Order };
+
+const ORDER_STREAM_PATH = "/ws/orders";
+const HEARTBEAT_INTERVAL = 30 * 1000;
+
+// Open sockets per truck, so events only go to the crews that need them
+const subscribers = new Map<number, Set<WebSocket>>();
+
+// An upgrade request once the session middleware has run on it. Passport
+// keeps the logged-in user on the session.
+type SessionRequest = IncomingMessage & {
+  session?: Session & { passport?: { user?: { claims?: { sub?: string } } } };
+};
+
+// Runs the express session middleware against the upgrade request and
+// returns the logged-in user's id, if any
+function getSessionUserId(req: SessionRequest): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    getSession()(req as Request, {} as Response, () => {
+      resolve(req.session?.passport?.user?.claims?.sub);
+    });
+  });
+}
+
+function subscribe(truckId: number, socket: WebSocket) {
+  let sockets = subscribers.get(truckId);
+  if (!sockets) {
+    sockets = new Set();
+    subscribers.set(truckId, sockets);
+  }
+  sockets.add(socket);
+
+  socket.on("close", () => {
+    sockets!.delete(socket);
+    if (sockets!.size === 0) {
+      subscribers.delete(truckId);
+    }
+  });
+}
+
+export function setupRealtime(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  server.on("upgrade", async (req, socket, head) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    // Leave every other upgrade (e.g. Vite HMR) to its own handler
+    if (url.pathname !== ORDER_STREAM_PATH) {
+      return;
+    }
+
+    try {
+      const userId = await getSessionUserId(req);
+      const truckId = parseInt(url.searchParams.get("truckId") ?? "");
+      if (!userId || !(await userCanAccessTruck(userId, truckId))) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        alive.set(ws, true);
+        ws.on("pong", () => alive.set(ws, true));
+        subscribe(truckId, ws);
+      });
+    } catch (error) {
+      console.error("Error opening order stream:", error);
+      socket.destroy();
+    }
+  });
+
+  // Drop connections that stopped answering pings (e.g. a tablet that slept)
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.set(ws, false);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+
+  server.on("close", () => clearInterval(heartbeat));
+}
+
+export function publishOrderEvent(event: OrderEvent) {
+  const sockets = subscribers.get(event.order.truckId);
+  if (!sockets) {
+    return;
+  }
+
+  const payload = JSON.stringify(event);
+  sockets.forEach((socket) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(payload);
+    }
+  });
+}
@@ -22,7 +22,8 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
-export function getSession() {
+// Memoized so the websocket upgrade handler can reuse the same session store
+export const getSession = memoize(() => {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   const pgStore = connectPg(session);
   const sessionStore = new pgStore({
@@ -42,7 +43,7 @@ export function getSession() {
       maxAge: sessionTtl,
     },
   });
-}
+});
 
 function updateUserSession(
   user: any,
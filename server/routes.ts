@@ -1,10 +1,129 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import {
+  storage,
+  OrderValidationError,
+  InvalidStatusTransitionError,
+  StockValidationError,
+  ProteinNameConflictError,
+  orderSortColumns,
+  type OrderSortColumn,
+} from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
-import { insertFoodTruckSchema, insertLocationSchema, insertOrganizationSchema, insertTeamMemberSchema, insertProteinInventorySchema, insertMenuItemSchema, insertOrderSchema, insertReviewSchema } from "@shared/schema";
+import { setupRealtime, publishOrderEvent } from "./realtime";
+import { requireAccess, requirePermission, getOrganizationContext, getSelectedTruck, userCanAccessTruck } from "./authorization";
+import { getPermissionsForRole, hasPermission } from "@shared/permissions";
+import { insertFoodTruckSchema, insertLocationSchema, insertOrganizationSchema, insertTeamMemberSchema, insertProteinSchema, insertProteinInventorySchema, insertInventoryItemSchema, insertMenuCategorySchema, insertMenuItemSchema, insertModifierGroupSchema, insertModifierOptionSchema, insertRecipeIngredientSchema, insertReviewSchema, createOrderRequestSchema, createStockCountRequestSchema, logWasteRequestSchema, insertSupplierSchema, insertCommissaryStockSchema, createTransferRequestSchema, advanceTransferSchema, createPurchaseOrderRequestSchema, updatePurchaseOrderSchema, receivePurchaseOrderSchema, updateOrderSchema, timeZoneSchema } from "@shared/schema";
+import { unitSchema } from "@shared/units";
 import { z } from "zod";
 
+// ?from=YYYY-MM-DD&to=YYYY-MM-DD, both inclusive. Defaults to the last 30 days.
+const dateRangeQuerySchema = z
+  .object({
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  })
+  .transform(({ from, to }) => {
+    const end = to ? new Date(`${to}T00:00:00`) : new Date(new Date().setHours(0, 0, 0, 0));
+    end.setDate(end.getDate() + 1);
+    const start = from ? new Date(`${from}T00:00:00`) : new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000);
+    return { from: start, to: end };
+  })
+  .refine(({ from, to }) => from < to, "from must be on or before to");
+
+// Sales chart query; dates are calendar days in the truck's timezone
+const salesSeriesQuerySchema = z
+  .object({
+    granularity: z.enum(["hour", "day", "week"]).default("day"),
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    days: z.coerce.number().int().min(1).max(366).default(7),
+    tz: timeZoneSchema.optional(),
+  })
+  .refine(({ from, to }) => !from || !to || from <= to, "from must be on or before to")
+  .transform(({ tz, ...query }) => ({ ...query, timeZone: tz }));
+
+// Order history filters; status may be repeated or comma-separated
+const orderSearchQuerySchema = z
+  .object({
+    q: z.string().trim().optional(),
+    status: z
+      .union([z.string(), z.array(z.string())])
+      .optional()
+      .transform((value) => (value === undefined ? undefined : [value].flat().flatMap((s) => s.split(",")).filter(Boolean))),
+    locationId: z.coerce.number().int().positive().optional(),
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    sortBy: z.enum(orderSortColumns as [OrderSortColumn, ...OrderSortColumn[]]).default("createdAt"),
+    sortOrder: z.enum(["asc", "desc"]).default("desc"),
+    cursor: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(25),
+  })
+  .refine(({ from, to }) => !from || !to || from <= to, "from must be on or before to")
+  .transform(({ q, status, ...filters }) => ({
+    ...filters,
+    query: q || undefined,
+    statuses: status,
+  }));
+
+// Reorder forecast window, in weeks of completed sales
+const reorderQuerySchema = z.object({
+  weeks: z.coerce.number().int().min(1).max(26).optional(),
+});
+
+// A truck's override for one menu item; a null price falls back to the base price
+const truckMenuItemSettingsSchema = z.object({
+  price: z.string().regex(/^\d+(\.\d{1,2})?$/, "Invalid price").nullable().optional(),
+  isAvailable: z.boolean().optional(),
+});
+
+// Money and weights arrive as decimal strings, like the rest of the API
+const decimalString = z.string().regex(/^-?\d+(\.\d{1,2})?$/, "Invalid amount");
+
+const modifierOptionBodySchema = insertModifierOptionSchema.omit({ groupId: true }).extend({
+  priceDelta: decimalString.optional(),
+  proteinAmount: decimalString.optional(),
+});
+
+// Each ingredient may appear once per recipe
+const recipeBodySchema = z.object({
+  ingredients: z
+    .array(insertRecipeIngredientSchema.omit({ menuItemId: true }))
+    .max(30)
+    .refine(
+      (ingredients) => new Set(ingredients.map((line) => line.ingredient)).size === ingredients.length,
+      "Each ingredient can only be listed once",
+    ),
+});
+
+// Stock movements people can record by hand; sales come from orders and
+// waste goes through the waste log. Adjustments need a reason.
+const stockMovementBodySchema = z
+  .object({
+    type: z.enum(["receipt", "adjustment"]),
+    quantity: decimalString,
+    unit: unitSchema.optional(), // what quantity and cost were entered in; defaults to the item's unit
+    unitCost: z.string().regex(/^\d+(\.\d{1,2})?$/, "Invalid cost").nullable().optional(),
+    reason: z.string().trim().max(500).optional(),
+  })
+  .refine(({ type, quantity }) => {
+    const amount = Number(quantity);
+    return type === "receipt" ? amount > 0 : amount !== 0;
+  }, "Receipts add stock, and adjustments can't be zero")
+  .refine(({ type, reason }) => type === "receipt" || !!reason, "Give a reason for adjustments");
+
+// Protein inventory fields only admins may change
+const PROTEIN_ALLOCATION_FIELDS = [
+  "truckId",
+  "allocatedAmount",
+  "unit",
+  "costPerUnit",
+  "lowStockThreshold",
+  "lowStockPercent",
+  "leadTimeDays",
+  "safetyStockDays",
+];
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
@@ -21,6 +140,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Caller's role and permissions within their organization
+  app.get('/api/auth/membership', isAuthenticated, async (req, res) => {
+    try {
+      const context = await getOrganizationContext(req);
+      res.json({
+        organizationId: context?.organization.id ?? null,
+        role: context?.role ?? null,
+        isOwner: context?.isOwner ?? false,
+        truckId: context?.truckId ?? null,
+        permissions: getPermissionsForRole(context?.role),
+      });
+    } catch (error) {
+      console.error("Error fetching membership:", error);
+      res.status(500).json({ message: "Failed to fetch membership" });
+    }
+  });
+
   // Mapbox token route
   app.get('/api/mapbox-token', isAuthenticated, async (req, res) => {
     try {
@@ -32,11 +168,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Organization routes
-  app.get('/api/organization', isAuthenticated, async (req: any, res) => {
+  app.get('/api/organization', isAuthenticated, async (req, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const organization = await storage.getOrganizationByOwnerId(userId);
-      res.json(organization);
+      const context = await getOrganizationContext(req);
+      res.json(context?.organization);
     } catch (error) {
       console.error("Error fetching organization:", error);
       res.status(500).json({ message: "Failed to fetch organization" });
@@ -58,8 +193,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.put('/api/organization', isAuthenticated, requirePermission("organization:manage"), async (req, res) => {
+    try {
+      const context = await getOrganizationContext(req);
+      const { ownerId, ...orgData } = insertOrganizationSchema.partial().parse(req.body);
+      const organization = await storage.updateOrganization(context!.organization.id, orgData);
+      res.json(organization);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid organization data", errors: error.errors });
+      }
+      console.error("Error updating organization:", error);
+      res.status(500).json({ message: "Failed to update organization" });
+    }
+  });
+
   // Team member routes
-  app.get('/api/team-members/:organizationId', isAuthenticated, async (req, res) => {
+  app.get('/api/team-members/:organizationId', isAuthenticated, requireAccess("organization", "organizationId"), async (req, res) => {
     try {
       const organizationId = parseInt(req.params.organizationId);
       const members = await storage.getTeamMembersByOrganizationId(organizationId);
@@ -70,14 +220,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/team-members', isAuthenticated, async (req: any, res) => {
+  app.get('/api/team-members', isAuthenticated, async (req, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const organization = await storage.getOrganizationByOwnerId(userId);
-      if (!organization) {
+      const context = await getOrganizationContext(req);
+      if (!context) {
         return res.json([]);
       }
-      const members = await storage.getTeamMembersByOrganizationId(organization.id);
+      const members = await storage.getTeamMembersByOrganizationId(context.organization.id);
       res.json(members);
     } catch (error) {
       console.error("Error fetching team members:", error);
@@ -85,11 +234,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/team-members', isAuthenticated, async (req, res) => {
+  app.post('/api/team-members', isAuthenticated, requirePermission("team:manage"), requireAccess("truck", "truckId", "body"), async (req, res) => {
     try {
+      const context = await getOrganizationContext(req);
+      if (!context) {
+        return res.status(400).json({ message: "No organization found" });
+      }
+
       // Transform empty strings to null for optional fields
       const processedData = {
         ...req.body,
+        organizationId: context.organization.id,
         email: req.body.email === "" ? null : req.body.email,
         phone: req.body.phone === "" ? null : req.body.phone,
       };
@@ -103,13 +258,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/team-members/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/team-members/:id', isAuthenticated, requirePermission("team:manage"), requireAccess("teamMember"), requireAccess("truck", "truckId", "body"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      // Members can't be moved to another organization
+      const { organizationId, ...body } = req.body;
       const processedData = {
-        ...req.body,
-        email: req.body.email === "" ? null : req.body.email,
-        phone: req.body.phone === "" ? null : req.body.phone,
+        ...body,
+        email: body.email === "" ? null : body.email,
+        phone: body.phone === "" ? null : body.phone,
       };
       
       const memberData = insertTeamMemberSchema.partial().parse(processedData);
@@ -121,7 +278,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/team-members/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/team-members/:id', isAuthenticated, requirePermission("team:manage"), requireAccess("teamMember"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteTeamMember(id);
@@ -133,14 +290,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Truck management routes
-  app.get('/api/trucks', isAuthenticated, async (req: any, res) => {
+  app.get('/api/trucks', isAuthenticated, async (req, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const organization = await storage.getOrganizationByOwnerId(userId);
-      if (!organization) {
+      const context = await getOrganizationContext(req);
+      if (!context) {
         return res.json([]);
       }
-      const trucks = await storage.getFoodTrucksByOrganizationId(organization.id);
+      const trucks = await storage.getFoodTrucksByOrganizationId(context.organization.id);
       res.json(trucks);
     } catch (error) {
       console.error("Error fetching trucks:", error);
@@ -148,17 +304,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/trucks', isAuthenticated, async (req: any, res) => {
+  app.post('/api/trucks', isAuthenticated, requirePermission("trucks:manage"), async (req, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const organization = await storage.getOrganizationByOwnerId(userId);
-      if (!organization) {
-        return res.status(400).json({ message: "No organization found" });
-      }
-      
+      const context = await getOrganizationContext(req);
       const truckData = insertFoodTruckSchema.parse({
         ...req.body,
-        organizationId: organization.id,
+        organizationId: context!.organization.id,
       });
       const truck = await storage.createFoodTruck(truckData);
       res.json(truck);
@@ -171,8 +322,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Food truck routes
   app.get('/api/food-truck', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const truck = await storage.getFoodTruckByUserId(userId);
+      const truck = await getSelectedTruck(req);
       res.json(truck);
     } catch (error) {
       console.error("Error fetching food truck:", error);
@@ -180,6 +330,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Truck selection, persisted in the session
+  app.get('/api/food-truck/selection', isAuthenticated, async (req, res) => {
+    res.json({ truckId: req.session.selectedTruckId ?? null });
+  });
+
+  app.put('/api/food-truck/selection', isAuthenticated, async (req: any, res) => {
+    try {
+      const { truckId } = z.object({
+        truckId: z.union([z.number().int().positive(), z.literal("all")]),
+      }).parse(req.body);
+
+      if (truckId !== "all" && !(await userCanAccessTruck(req.user.claims.sub, truckId))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      req.session.selectedTruckId = truckId;
+      res.json({ truckId });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid truck selection", errors: error.errors });
+      }
+      console.error("Error selecting food truck:", error);
+      res.status(500).json({ message: "Failed to select food truck" });
+    }
+  });
+
   app.post('/api/food-truck', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -205,8 +381,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.put('/api/food-truck/:id', isAuthenticated, requirePermission("trucks:manage"), requireAccess("truck"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { organizationId, ...truckData } = insertFoodTruckSchema.partial().parse(req.body);
+      const truck = await storage.updateFoodTruck(id, truckData);
+      res.json(truck);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid food truck data", errors: error.errors });
+      }
+      console.error("Error updating food truck:", error);
+      res.status(500).json({ message: "Failed to update food truck" });
+    }
+  });
+
   // Location routes
-  app.get('/api/locations/:truckId', isAuthenticated, async (req, res) => {
+  app.get('/api/locations/:truckId', isAuthenticated, requireAccess("truck", "truckId"), async (req, res) => {
     try {
       const truckId = parseInt(req.params.truckId);
       const locations = await storage.getLocationsByTruckId(truckId);
@@ -217,7 +408,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/locations', isAuthenticated, async (req, res) => {
+  app.post('/api/locations', isAuthenticated, requirePermission("locations:manage"), requireAccess("truck", "truckId", "body"), async (req, res) => {
     try {
       const locationData = insertLocationSchema.parse(req.body);
       const location = await storage.createLocation(locationData);
@@ -228,7 +419,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/locations/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/locations/:id', isAuthenticated, requirePermission("locations:manage"), requireAccess("location"), requireAccess("truck", "truckId", "body"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const locationData = insertLocationSchema.partial().parse(req.body);
@@ -240,7 +431,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/locations/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/locations/:id', isAuthenticated, requirePermission("locations:manage"), requireAccess("location"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteLocation(id);
@@ -252,48 +443,123 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Inventory routes
-  app.get('/api/inventory/:truckId', isAuthenticated, async (req, res) => {
+  app.get('/api/inventory/:truckId', isAuthenticated, requireAccess("truck", "truckId"), async (req, res) => {
     try {
-      // Legacy endpoint - return empty for compatibility
-      res.json([]);
+      const truckId = parseInt(req.params.truckId);
+      const inventory = await storage.getInventoryItemsByTruckId(truckId);
+      res.json(inventory);
     } catch (error) {
       console.error("Error fetching inventory:", error);
       res.status(500).json({ message: "Failed to fetch inventory" });
     }
   });
 
-  app.post('/api/inventory', isAuthenticated, async (req, res) => {
+  app.post('/api/inventory', isAuthenticated, requirePermission("inventory:adjust"), requireAccess("truck", "truckId", "body"), async (req, res) => {
     try {
-      // Legacy endpoint for compatibility
-      res.status(501).json({ message: "Use protein inventory instead" });
+      const inventoryData = insertInventoryItemSchema.parse(req.body);
+
+      // Anyone can stock the truck, but costs are admin-only
+      const context = await getOrganizationContext(req);
+      if (inventoryData.costPerUnit != null && !hasPermission(context?.role, "inventory:allocate")) {
+        return res.status(403).json({ message: "You don't have permission to set costs" });
+      }
+
+      const item = await storage.createInventoryItem(inventoryData);
+      res.json(item);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid inventory item", errors: error.errors });
+      }
       console.error("Error creating inventory item:", error);
       res.status(500).json({ message: "Failed to create inventory item" });
     }
   });
 
-  app.put('/api/inventory/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/inventory/:id', isAuthenticated, requirePermission("inventory:adjust"), requireAccess("inventoryItem"), async (req, res) => {
     try {
-      // Legacy endpoint for compatibility
-      res.status(501).json({ message: "Use protein inventory instead" });
+      const id = parseInt(req.params.id);
+      const { truckId, ...inventoryData } = insertInventoryItemSchema.partial().parse(req.body);
+
+      const context = await getOrganizationContext(req);
+      if ("costPerUnit" in inventoryData && !hasPermission(context?.role, "inventory:allocate")) {
+        return res.status(403).json({ message: "You don't have permission to change costs" });
+      }
+
+      const item = await storage.updateInventoryItem(id, inventoryData);
+      res.json(item);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid inventory item", errors: error.errors });
+      }
       console.error("Error updating inventory item:", error);
       res.status(500).json({ message: "Failed to update inventory item" });
     }
   });
 
-  app.delete('/api/inventory/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/inventory/:id', isAuthenticated, requirePermission("inventory:adjust"), requireAccess("inventoryItem"), async (req, res) => {
     try {
-      // Legacy endpoint for compatibility
-      res.status(501).json({ message: "Use protein inventory instead" });
+      const id = parseInt(req.params.id);
+      await storage.deleteInventoryItem(id);
+      res.json({ message: "Inventory item deleted successfully" });
     } catch (error) {
       console.error("Error deleting inventory item:", error);
       res.status(500).json({ message: "Failed to delete inventory item" });
     }
   });
 
+  // Protein catalogue routes
+  app.get('/api/proteins', isAuthenticated, async (req, res) => {
+    try {
+      const context = await getOrganizationContext(req);
+      if (!context) {
+        return res.json([]);
+      }
+      const proteinList = await storage.getProteins(context.organization.id);
+      res.json(proteinList);
+    } catch (error) {
+      console.error("Error fetching proteins:", error);
+      res.status(500).json({ message: "Failed to fetch proteins" });
+    }
+  });
+
+  app.post('/api/proteins', isAuthenticated, requirePermission("inventory:allocate"), async (req, res) => {
+    try {
+      const context = await getOrganizationContext(req);
+      const proteinData = insertProteinSchema.parse({
+        ...req.body,
+        organizationId: context!.organization.id,
+      });
+      const protein = await storage.createProtein(proteinData);
+      res.json(protein);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid protein", errors: error.errors });
+      }
+      console.error("Error creating protein:", error);
+      res.status(500).json({ message: "Failed to create protein" });
+    }
+  });
+
+  app.put('/api/proteins/:id', isAuthenticated, requirePermission("inventory:allocate"), requireAccess("protein"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { organizationId, ...proteinData } = insertProteinSchema.partial().parse(req.body);
+      const protein = await storage.updateProtein(id, proteinData);
+      res.json(protein);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid protein", errors: error.errors });
+      }
+      if (error instanceof ProteinNameConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating protein:", error);
+      res.status(500).json({ message: "Failed to update protein" });
+    }
+  });
+
   // Protein inventory routes
-  app.get('/api/protein-inventory/:truckId', isAuthenticated, async (req, res) => {
+  app.get('/api/protein-inventory/:truckId', isAuthenticated, requireAccess("truck", "truckId"), async (req, res) => {
     try {
       const truckId = parseInt(req.params.truckId);
       const inventory = await storage.getProteinInventoryByTruckId(truckId);
@@ -306,8 +572,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/protein-inventory', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const truck = await storage.getFoodTruckByUserId(userId);
+      const truck = await getSelectedTruck(req);
       if (!truck) {
         return res.json([]);
       }
@@ -319,10 +584,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/protein-inventory', isAuthenticated, async (req: any, res) => {
+  app.post('/api/protein-inventory', isAuthenticated, requirePermission("inventory:allocate"), requireAccess("protein", "proteinId", "body"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const truck = await storage.getFoodTruckByUserId(userId);
+      const truck = await getSelectedTruck(req);
       if (!truck) {
         return res.status(400).json({ message: "No truck found for user" });
       }
@@ -331,27 +595,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         truckId: truck.id,
       });
-      const inventory = await storage.createProteinInventory(inventoryData);
+      const inventory = await storage.createProteinInventory(inventoryData, req.user.claims.sub);
       res.json(inventory);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid protein inventory", errors: error.errors });
+      }
       console.error("Error creating protein inventory:", error);
       res.status(500).json({ message: "Failed to create protein inventory" });
     }
   });
 
-  app.put('/api/protein-inventory/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/protein-inventory/:id', isAuthenticated, requirePermission("inventory:adjust"), requireAccess("proteinInventory"), requireAccess("truck", "truckId", "body"), async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const inventoryData = insertProteinInventorySchema.partial().parse(req.body);
-      const inventory = await storage.updateProteinInventory(id, inventoryData);
+      // A row stays on its protein; its ledger is in that protein's terms
+      const { proteinId, ...inventoryData } = insertProteinInventorySchema.partial().parse(req.body);
+      const { reason } = z.object({ reason: z.string().trim().max(500).optional() }).parse(req.body);
+
+      // Anyone can correct stock on hand, but allocations and costs are admin-only
+      const context = await getOrganizationContext(req);
+      const changesAllocation = PROTEIN_ALLOCATION_FIELDS.some((field) => field in inventoryData);
+      if (changesAllocation && !hasPermission(context?.role, "inventory:allocate")) {
+        return res.status(403).json({ message: "You don't have permission to change allocations" });
+      }
+
+      const inventory = await storage.updateProteinInventory(id, inventoryData, req.user.claims.sub, reason);
+      if (!inventory) {
+        return res.status(404).json({ message: "Protein inventory not found" });
+      }
       res.json(inventory);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid protein inventory", errors: error.errors });
+      }
+      if (error instanceof StockValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error updating protein inventory:", error);
       res.status(500).json({ message: "Failed to update protein inventory" });
     }
   });
 
-  app.delete('/api/protein-inventory/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/protein-inventory/:id', isAuthenticated, requirePermission("inventory:allocate"), requireAccess("proteinInventory"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteProteinInventory(id);
@@ -362,10 +648,499 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stock ledger routes
+  app.get('/api/protein-inventory/:id/movements', isAuthenticated, requireAccess("proteinInventory"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const history = await storage.getStockHistory(id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching stock history:", error);
+      res.status(500).json({ message: "Failed to fetch stock history" });
+    }
+  });
+
+  app.post('/api/protein-inventory/:id/movements', isAuthenticated, requirePermission("inventory:adjust"), requireAccess("proteinInventory"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const movement = stockMovementBodySchema.parse(req.body);
+
+      // Bringing stock in and pricing it is an allocation
+      const context = await getOrganizationContext(req);
+      if ((movement.type === "receipt" || movement.unitCost) && !hasPermission(context?.role, "inventory:allocate")) {
+        return res.status(403).json({ message: "You don't have permission to receive stock" });
+      }
+
+      const { unit, ...entry } = movement;
+      const recorded = await storage.recordStockMovement(id, { ...entry, createdBy: req.user.claims.sub }, unit);
+      res.json(recorded);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid stock movement", errors: error.errors });
+      }
+      if (error instanceof StockValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error recording stock movement:", error);
+      res.status(500).json({ message: "Failed to record stock movement" });
+    }
+  });
+
+  app.post('/api/protein-inventory/:id/reconcile', isAuthenticated, requirePermission("inventory:allocate"), requireAccess("proteinInventory"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const entry = await storage.reconcileStock(id, req.user.claims.sub);
+      res.json(entry);
+    } catch (error) {
+      console.error("Error reconciling stock:", error);
+      res.status(500).json({ message: "Failed to reconcile stock" });
+    }
+  });
+
+  // Waste log routes
+  app.get('/api/waste/:truckId', isAuthenticated, requireAccess("truck", "truckId"), async (req, res) => {
+    try {
+      const truckId = parseInt(req.params.truckId);
+      const entries = await storage.getWasteLog(truckId);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching waste log:", error);
+      res.status(500).json({ message: "Failed to fetch waste log" });
+    }
+  });
+
+  app.get('/api/waste/:id/photo', isAuthenticated, requireAccess("wasteLog"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const entry = await storage.getWasteLogEntry(id);
+      const match = entry?.photo?.match(/^data:(image\/[a-z]+);base64,(.+)$/);
+      if (!match) {
+        return res.status(404).json({ message: "No photo for this entry" });
+      }
+      res.set("Cache-Control", "private, max-age=86400");
+      res.type(match[1]).send(Buffer.from(match[2], "base64"));
+    } catch (error) {
+      console.error("Error fetching waste photo:", error);
+      res.status(500).json({ message: "Failed to fetch waste photo" });
+    }
+  });
+
+  app.post('/api/waste', isAuthenticated, requirePermission("inventory:adjust"), requireAccess("proteinInventory", "proteinInventoryId", "body"), async (req: any, res) => {
+    try {
+      const request = logWasteRequestSchema.parse(req.body);
+      const entry = await storage.logWaste(request, req.user.claims.sub);
+      const { photo, ...logged } = entry;
+      res.json({ ...logged, hasPhoto: !!photo });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid waste entry", errors: error.errors });
+      }
+      if (error instanceof StockValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error logging waste:", error);
+      res.status(500).json({ message: "Failed to log waste" });
+    }
+  });
+
+  // Commissary routes
+  app.get('/api/commissary', isAuthenticated, async (req, res) => {
+    try {
+      const context = await getOrganizationContext(req);
+      if (!context) {
+        return res.json([]);
+      }
+      const stock = await storage.getCommissaryStock(context.organization.id);
+      res.json(stock);
+    } catch (error) {
+      console.error("Error fetching commissary stock:", error);
+      res.status(500).json({ message: "Failed to fetch commissary stock" });
+    }
+  });
+
+  app.post('/api/commissary', isAuthenticated, requirePermission("inventory:allocate"), requireAccess("protein", "proteinId", "body"), async (req, res) => {
+    try {
+      const context = await getOrganizationContext(req);
+      const itemData = insertCommissaryStockSchema.parse({
+        ...req.body,
+        organizationId: context!.organization.id,
+      });
+      const item = await storage.createCommissaryStock(itemData);
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid commissary item", errors: error.errors });
+      }
+      console.error("Error creating commissary item:", error);
+      res.status(500).json({ message: "Failed to create commissary item" });
+    }
+  });
+
+  app.get('/api/commissary/:id/movements', isAuthenticated, requireAccess("commissaryStock"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const movements = await storage.getCommissaryMovements(id);
+      res.json(movements);
+    } catch (error) {
+      console.error("Error fetching commissary movements:", error);
+      res.status(500).json({ message: "Failed to fetch commissary movements" });
+    }
+  });
+
+  app.post('/api/commissary/:id/movements', isAuthenticated, requirePermission("inventory:allocate"), requireAccess("commissaryStock"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { unit, ...movement } = stockMovementBodySchema.parse(req.body);
+      const entry = await storage.recordCommissaryMovement(id, { ...movement, createdBy: req.user.claims.sub }, unit);
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid commissary movement", errors: error.errors });
+      }
+      if (error instanceof StockValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error recording commissary movement:", error);
+      res.status(500).json({ message: "Failed to record commissary movement" });
+    }
+  });
+
+  // Transfer routes
+  app.get('/api/transfers', isAuthenticated, async (req, res) => {
+    try {
+      const context = await getOrganizationContext(req);
+      if (!context) {
+        return res.json([]);
+      }
+      const truckId = req.query.truckId ? parseInt(req.query.truckId as string) : undefined;
+      const transfers = await storage.getTransfers(context.organization.id, truckId || undefined);
+      res.json(transfers);
+    } catch (error) {
+      console.error("Error fetching transfers:", error);
+      res.status(500).json({ message: "Failed to fetch transfers" });
+    }
+  });
+
+  app.post('/api/transfers', isAuthenticated, requirePermission("inventory:adjust"), requireAccess("proteinInventory", "proteinInventoryId", "body"), async (req: any, res) => {
+    try {
+      const request = createTransferRequestSchema.parse(req.body);
+      const transfer = await storage.createTransfer(request, req.user.claims.sub);
+      res.json(transfer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid transfer request", errors: error.errors });
+      }
+      if (error instanceof StockValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error requesting transfer:", error);
+      res.status(500).json({ message: "Failed to request transfer" });
+    }
+  });
+
+  app.put('/api/transfers/:id', isAuthenticated, requirePermission("inventory:adjust"), requireAccess("stockTransfer"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const change = advanceTransferSchema.parse(req.body);
+
+      // Trucks request, cancel and receive; the commissary side is for admins
+      const context = await getOrganizationContext(req);
+      const isCommissaryStep = ["approved", "rejected", "dispatched"].includes(change.status);
+      if (isCommissaryStep && !hasPermission(context?.role, "inventory:allocate")) {
+        return res.status(403).json({ message: "You don't have permission to approve or dispatch transfers" });
+      }
+
+      const transfer = await storage.advanceTransfer(id, change, req.user.claims.sub);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      res.json(transfer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid transfer update", errors: error.errors });
+      }
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof StockValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error updating transfer:", error);
+      res.status(500).json({ message: "Failed to update transfer" });
+    }
+  });
+
+  // Supplier routes
+  app.get('/api/suppliers', isAuthenticated, async (req, res) => {
+    try {
+      const context = await getOrganizationContext(req);
+      if (!context) {
+        return res.json([]);
+      }
+      const supplierList = await storage.getSuppliers(context.organization.id);
+      res.json(supplierList);
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+      res.status(500).json({ message: "Failed to fetch suppliers" });
+    }
+  });
+
+  app.post('/api/suppliers', isAuthenticated, requirePermission("purchasing:manage"), async (req, res) => {
+    try {
+      const context = await getOrganizationContext(req);
+      const supplierData = insertSupplierSchema.parse({
+        ...req.body,
+        organizationId: context!.organization.id,
+      });
+      const supplier = await storage.createSupplier(supplierData);
+      res.json(supplier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid supplier", errors: error.errors });
+      }
+      console.error("Error creating supplier:", error);
+      res.status(500).json({ message: "Failed to create supplier" });
+    }
+  });
+
+  app.put('/api/suppliers/:id', isAuthenticated, requirePermission("purchasing:manage"), requireAccess("supplier"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { organizationId, ...supplierData } = insertSupplierSchema.partial().parse(req.body);
+      const supplier = await storage.updateSupplier(id, supplierData);
+      res.json(supplier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid supplier", errors: error.errors });
+      }
+      console.error("Error updating supplier:", error);
+      res.status(500).json({ message: "Failed to update supplier" });
+    }
+  });
+
+  // Purchase order routes
+  app.get('/api/purchase-orders/:truckId', isAuthenticated, requireAccess("truck", "truckId"), async (req, res) => {
+    try {
+      const truckId = parseInt(req.params.truckId);
+      const orders = await storage.getPurchaseOrders(truckId);
+      res.json(orders);
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+      res.status(500).json({ message: "Failed to fetch purchase orders" });
+    }
+  });
+
+  app.post('/api/purchase-orders', isAuthenticated, requirePermission("purchasing:manage"), requireAccess("truck", "truckId", "body"), async (req: any, res) => {
+    try {
+      const request = createPurchaseOrderRequestSchema.parse(req.body);
+      const order = await storage.createPurchaseOrder(request, req.user.claims.sub);
+      res.json(order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid purchase order", errors: error.errors });
+      }
+      if (error instanceof StockValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating purchase order:", error);
+      res.status(500).json({ message: "Failed to create purchase order" });
+    }
+  });
+
+  app.put('/api/purchase-orders/:id', isAuthenticated, requirePermission("purchasing:manage"), requireAccess("purchaseOrder"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const changes = updatePurchaseOrderSchema.parse(req.body);
+      const order = await storage.updatePurchaseOrder(id, changes);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid purchase order update", errors: error.errors });
+      }
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating purchase order:", error);
+      res.status(500).json({ message: "Failed to update purchase order" });
+    }
+  });
+
+  app.post('/api/purchase-orders/:id/receive', isAuthenticated, requirePermission("purchasing:receive"), requireAccess("purchaseOrder"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const delivery = receivePurchaseOrderSchema.parse(req.body);
+      const order = await storage.receivePurchaseOrder(id, delivery, req.user.claims.sub);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid delivery", errors: error.errors });
+      }
+      if (error instanceof StockValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error receiving purchase order:", error);
+      res.status(500).json({ message: "Failed to receive purchase order" });
+    }
+  });
+
+  // Stock count routes
+  app.get('/api/stock-counts/:truckId', isAuthenticated, requireAccess("truck", "truckId"), async (req, res) => {
+    try {
+      const truckId = parseInt(req.params.truckId);
+      const counts = await storage.getStockCounts(truckId);
+      res.json(counts);
+    } catch (error) {
+      console.error("Error fetching stock counts:", error);
+      res.status(500).json({ message: "Failed to fetch stock counts" });
+    }
+  });
+
+  app.post('/api/stock-counts', isAuthenticated, requirePermission("inventory:adjust"), requireAccess("truck", "truckId", "body"), async (req: any, res) => {
+    try {
+      const request = createStockCountRequestSchema.parse(req.body);
+      const count = await storage.createStockCount(request, req.user.claims.sub);
+      res.json(count);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid stock count", errors: error.errors });
+      }
+      if (error instanceof StockValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error recording stock count:", error);
+      res.status(500).json({ message: "Failed to record stock count" });
+    }
+  });
+
+  // Reorder routes
+  app.get('/api/reorder-suggestions/:truckId', isAuthenticated, requireAccess("truck", "truckId"), async (req, res) => {
+    try {
+      const truckId = parseInt(req.params.truckId);
+      const { weeks } = reorderQuerySchema.parse(req.query);
+      const suggestions = await storage.getReorderSuggestions(truckId, weeks);
+      res.json(suggestions);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reorder query", errors: error.errors });
+      }
+      console.error("Error fetching reorder suggestions:", error);
+      res.status(500).json({ message: "Failed to fetch reorder suggestions" });
+    }
+  });
+
+  // Stock alert routes
+  app.get('/api/alerts/:truckId', isAuthenticated, requireAccess("truck", "truckId"), async (req, res) => {
+    try {
+      const truckId = parseInt(req.params.truckId);
+      const alerts = await storage.getInventoryAlerts(truckId, req.query.status === "all");
+      res.json(alerts);
+    } catch (error) {
+      console.error("Error fetching alerts:", error);
+      res.status(500).json({ message: "Failed to fetch alerts" });
+    }
+  });
+
+  app.put('/api/alerts/:id/acknowledge', isAuthenticated, requirePermission("inventory:adjust"), requireAccess("stockAlert"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const alert = await storage.acknowledgeStockAlert(id, req.user.claims.sub);
+      if (!alert) {
+        return res.status(409).json({ message: "Only open alerts can be acknowledged" });
+      }
+      res.json(alert);
+    } catch (error) {
+      console.error("Error acknowledging alert:", error);
+      res.status(500).json({ message: "Failed to acknowledge alert" });
+    }
+  });
+
+  app.put('/api/alerts/:id/resolve', isAuthenticated, requirePermission("inventory:adjust"), requireAccess("stockAlert"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const alert = await storage.resolveStockAlert(id, req.user.claims.sub);
+      if (!alert) {
+        return res.status(409).json({ message: "This alert is already resolved" });
+      }
+      res.json(alert);
+    } catch (error) {
+      console.error("Error resolving alert:", error);
+      res.status(500).json({ message: "Failed to resolve alert" });
+    }
+  });
+
+  // Menu category routes
+  app.get('/api/menu-categories', isAuthenticated, async (req, res) => {
+    try {
+      const context = await getOrganizationContext(req);
+      if (!context) {
+        return res.json([]);
+      }
+      const categories = await storage.getMenuCategories(context.organization.id);
+      res.json(categories);
+    } catch (error) {
+      console.error("Error fetching menu categories:", error);
+      res.status(500).json({ message: "Failed to fetch menu categories" });
+    }
+  });
+
+  app.post('/api/menu-categories', isAuthenticated, requirePermission("menu:manage"), async (req, res) => {
+    try {
+      const context = await getOrganizationContext(req);
+      const categoryData = insertMenuCategorySchema.parse({
+        ...req.body,
+        organizationId: context!.organization.id,
+      });
+      const category = await storage.createMenuCategory(categoryData);
+      res.json(category);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid menu category", errors: error.errors });
+      }
+      console.error("Error creating menu category:", error);
+      res.status(500).json({ message: "Failed to create menu category" });
+    }
+  });
+
+  app.put('/api/menu-categories/:id', isAuthenticated, requirePermission("menu:manage"), requireAccess("menuCategory"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { organizationId, ...categoryData } = insertMenuCategorySchema.partial().parse(req.body);
+      const category = await storage.updateMenuCategory(id, categoryData);
+      res.json(category);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid menu category", errors: error.errors });
+      }
+      console.error("Error updating menu category:", error);
+      res.status(500).json({ message: "Failed to update menu category" });
+    }
+  });
+
+  app.delete('/api/menu-categories/:id', isAuthenticated, requirePermission("menu:manage"), requireAccess("menuCategory"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteMenuCategory(id);
+      res.json({ message: "Menu category deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting menu category:", error);
+      res.status(500).json({ message: "Failed to delete menu category" });
+    }
+  });
+
   // Menu item routes
-  app.get('/api/menu-items', async (req, res) => {
+  app.get('/api/menu-items', isAuthenticated, async (req, res) => {
     try {
-      const menuItems = await storage.getMenuItems();
+      const context = await getOrganizationContext(req);
+      if (!context) {
+        return res.json([]);
+      }
+      const menuItems = await storage.getMenuItems(context.organization.id, req.query.includeArchived === "true");
       res.json(menuItems);
     } catch (error) {
       console.error("Error fetching menu items:", error);
@@ -373,54 +1148,361 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/menu-items', isAuthenticated, async (req, res) => {
+  app.post('/api/menu-items', isAuthenticated, requirePermission("menu:manage"), requireAccess("menuCategory", "categoryId", "body"), requireAccess("protein", "proteinId", "body"), async (req, res) => {
     try {
-      const menuData = insertMenuItemSchema.parse(req.body);
+      const context = await getOrganizationContext(req);
+      const menuData = insertMenuItemSchema.parse({
+        ...req.body,
+        organizationId: context!.organization.id,
+      });
       const menuItem = await storage.createMenuItem(menuData);
       res.json(menuItem);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid menu item", errors: error.errors });
+      }
       console.error("Error creating menu item:", error);
       res.status(500).json({ message: "Failed to create menu item" });
     }
   });
 
+  app.put('/api/menu-items/:id', isAuthenticated, requirePermission("menu:manage"), requireAccess("menuItem"), requireAccess("menuCategory", "categoryId", "body"), requireAccess("protein", "proteinId", "body"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { organizationId, ...menuData } = insertMenuItemSchema.partial().parse(req.body);
+      const menuItem = await storage.updateMenuItem(id, menuData);
+      res.json(menuItem);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid menu item", errors: error.errors });
+      }
+      console.error("Error updating menu item:", error);
+      res.status(500).json({ message: "Failed to update menu item" });
+    }
+  });
+
+  app.post('/api/menu-items/:id/archive', isAuthenticated, requirePermission("menu:manage"), requireAccess("menuItem"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const menuItem = await storage.archiveMenuItem(id);
+      res.json(menuItem);
+    } catch (error) {
+      console.error("Error archiving menu item:", error);
+      res.status(500).json({ message: "Failed to archive menu item" });
+    }
+  });
+
+  app.post('/api/menu-items/:id/restore', isAuthenticated, requirePermission("menu:manage"), requireAccess("menuItem"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const menuItem = await storage.restoreMenuItem(id);
+      res.json(menuItem);
+    } catch (error) {
+      console.error("Error restoring menu item:", error);
+      res.status(500).json({ message: "Failed to restore menu item" });
+    }
+  });
+
+  app.get('/api/menu-items/:id/recipe', isAuthenticated, requireAccess("menuItem"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const recipe = await storage.getRecipe(id);
+      res.json(recipe);
+    } catch (error) {
+      console.error("Error fetching recipe:", error);
+      res.status(500).json({ message: "Failed to fetch recipe" });
+    }
+  });
+
+  // Replaces the item's recipe; send an empty list to go back to its single protein
+  app.put('/api/menu-items/:id/recipe', isAuthenticated, requirePermission("menu:manage"), requireAccess("menuItem"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { ingredients } = recipeBodySchema.parse(req.body);
+      const recipe = await storage.setRecipe(id, ingredients);
+      res.json(recipe);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid recipe", errors: error.errors });
+      }
+      if (error instanceof StockValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error updating recipe:", error);
+      res.status(500).json({ message: "Failed to update recipe" });
+    }
+  });
+
+  // Per-truck menus
+  app.get('/api/menu/:truckId', isAuthenticated, requireAccess("truck", "truckId"), async (req, res) => {
+    try {
+      const truckId = parseInt(req.params.truckId);
+      const menu = await storage.getTruckMenu(truckId);
+      res.json(menu);
+    } catch (error) {
+      console.error("Error fetching truck menu:", error);
+      res.status(500).json({ message: "Failed to fetch truck menu" });
+    }
+  });
+
+  app.put('/api/menu/:truckId/items/:menuItemId', isAuthenticated, requirePermission("menu:manage"), requireAccess("truck", "truckId"), requireAccess("menuItem", "menuItemId"), async (req, res) => {
+    try {
+      const truckId = parseInt(req.params.truckId);
+      const menuItemId = parseInt(req.params.menuItemId);
+      const settings = truckMenuItemSettingsSchema.parse(req.body);
+      const assignment = await storage.setTruckMenuItem(truckId, menuItemId, settings);
+      res.json(assignment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid menu settings", errors: error.errors });
+      }
+      console.error("Error updating truck menu:", error);
+      res.status(500).json({ message: "Failed to update truck menu" });
+    }
+  });
+
+  app.delete('/api/menu/:truckId/items/:menuItemId', isAuthenticated, requirePermission("menu:manage"), requireAccess("truck", "truckId"), requireAccess("menuItem", "menuItemId"), async (req, res) => {
+    try {
+      const truckId = parseInt(req.params.truckId);
+      const menuItemId = parseInt(req.params.menuItemId);
+      await storage.removeTruckMenuItem(truckId, menuItemId);
+      res.json({ message: "Menu item removed from truck" });
+    } catch (error) {
+      console.error("Error updating truck menu:", error);
+      res.status(500).json({ message: "Failed to update truck menu" });
+    }
+  });
+
+  // Modifier routes
+  app.get('/api/modifier-groups', isAuthenticated, async (req, res) => {
+    try {
+      const context = await getOrganizationContext(req);
+      if (!context) {
+        return res.json([]);
+      }
+      const groups = await storage.getModifierGroups(context.organization.id);
+      res.json(groups);
+    } catch (error) {
+      console.error("Error fetching modifier groups:", error);
+      res.status(500).json({ message: "Failed to fetch modifier groups" });
+    }
+  });
+
+  app.post('/api/modifier-groups', isAuthenticated, requirePermission("menu:manage"), async (req, res) => {
+    try {
+      const context = await getOrganizationContext(req);
+      const groupData = insertModifierGroupSchema.parse({
+        ...req.body,
+        organizationId: context!.organization.id,
+      });
+      if ((groupData.minSelections ?? 0) > (groupData.maxSelections ?? 1)) {
+        return res.status(400).json({ message: "Minimum selections can't exceed the maximum" });
+      }
+      const group = await storage.createModifierGroup(groupData);
+      res.json(group);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid modifier group", errors: error.errors });
+      }
+      console.error("Error creating modifier group:", error);
+      res.status(500).json({ message: "Failed to create modifier group" });
+    }
+  });
+
+  app.put('/api/modifier-groups/:id', isAuthenticated, requirePermission("menu:manage"), requireAccess("modifierGroup"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { organizationId, ...groupData } = insertModifierGroupSchema.partial().parse(req.body);
+      const existing = await storage.getModifierGroup(id);
+      const minSelections = groupData.minSelections ?? existing!.minSelections;
+      const maxSelections = groupData.maxSelections ?? existing!.maxSelections;
+      if (minSelections > maxSelections) {
+        return res.status(400).json({ message: "Minimum selections can't exceed the maximum" });
+      }
+      const group = await storage.updateModifierGroup(id, groupData);
+      res.json(group);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid modifier group", errors: error.errors });
+      }
+      console.error("Error updating modifier group:", error);
+      res.status(500).json({ message: "Failed to update modifier group" });
+    }
+  });
+
+  app.delete('/api/modifier-groups/:id', isAuthenticated, requirePermission("menu:manage"), requireAccess("modifierGroup"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteModifierGroup(id);
+      res.json({ message: "Modifier group deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting modifier group:", error);
+      res.status(500).json({ message: "Failed to delete modifier group" });
+    }
+  });
+
+  // Replaces the list of menu items the group is offered on
+  app.put('/api/modifier-groups/:id/menu-items', isAuthenticated, requirePermission("menu:manage"), requireAccess("modifierGroup"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { menuItemIds } = z.object({
+        menuItemIds: z.array(z.number().int().positive()),
+      }).parse(req.body);
+
+      const context = await getOrganizationContext(req);
+      const ownItemIds = new Set(
+        (await storage.getMenuItems(context!.organization.id, true)).map((item) => item.id)
+      );
+      if (!menuItemIds.every((menuItemId) => ownItemIds.has(menuItemId))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      await storage.setModifierGroupMenuItems(id, Array.from(new Set(menuItemIds)));
+      res.json({ menuItemIds });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid menu items", errors: error.errors });
+      }
+      console.error("Error updating modifier group items:", error);
+      res.status(500).json({ message: "Failed to update modifier group items" });
+    }
+  });
+
+  app.post('/api/modifier-groups/:id/options', isAuthenticated, requirePermission("menu:manage"), requireAccess("modifierGroup"), requireAccess("protein", "proteinId", "body"), async (req, res) => {
+    try {
+      const groupId = parseInt(req.params.id);
+      const optionData = modifierOptionBodySchema.parse(req.body);
+      const option = await storage.createModifierOption({ ...optionData, groupId });
+      res.json(option);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid modifier option", errors: error.errors });
+      }
+      console.error("Error creating modifier option:", error);
+      res.status(500).json({ message: "Failed to create modifier option" });
+    }
+  });
+
+  app.put('/api/modifier-options/:id', isAuthenticated, requirePermission("menu:manage"), requireAccess("modifierOption"), requireAccess("protein", "proteinId", "body"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const optionData = modifierOptionBodySchema.partial().parse(req.body);
+      const option = await storage.updateModifierOption(id, optionData);
+      res.json(option);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid modifier option", errors: error.errors });
+      }
+      console.error("Error updating modifier option:", error);
+      res.status(500).json({ message: "Failed to update modifier option" });
+    }
+  });
+
+  app.delete('/api/modifier-options/:id', isAuthenticated, requirePermission("menu:manage"), requireAccess("modifierOption"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteModifierOption(id);
+      res.json({ message: "Modifier option deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting modifier option:", error);
+      res.status(500).json({ message: "Failed to delete modifier option" });
+    }
+  });
+
   // Order routes
-  app.get('/api/orders/:truckId', isAuthenticated, async (req, res) => {
+  app.get('/api/orders/:truckId', isAuthenticated, requireAccess("truck", "truckId"), async (req, res) => {
     try {
       const truckId = parseInt(req.params.truckId);
-      const orders = await storage.getOrdersByTruckId(truckId);
-      res.json(orders);
+      const filters = orderSearchQuerySchema.parse(req.query);
+      const page = await storage.searchOrders(truckId, filters);
+      res.json(page);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid order filters", errors: error.errors });
+      }
+      if (error instanceof OrderValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error fetching orders:", error);
       res.status(500).json({ message: "Failed to fetch orders" });
     }
   });
 
-  app.post('/api/orders', isAuthenticated, async (req, res) => {
+  app.get('/api/orders/:truckId/open', isAuthenticated, requireAccess("truck", "truckId"), async (req, res) => {
+    try {
+      const truckId = parseInt(req.params.truckId);
+      const orders = await storage.getOpenOrdersByTruckId(truckId);
+      res.json(orders);
+    } catch (error) {
+      console.error("Error fetching open orders:", error);
+      res.status(500).json({ message: "Failed to fetch open orders" });
+    }
+  });
+
+  app.post('/api/orders', isAuthenticated, requirePermission("orders:create"), async (req: any, res) => {
     try {
-      const orderData = insertOrderSchema.parse(req.body);
-      const order = await storage.createOrder(orderData);
+      const truck = await getSelectedTruck(req);
+      if (!truck) {
+        return res.status(400).json({ message: "No truck found for user" });
+      }
+
+      const orderRequest = createOrderRequestSchema.parse(req.body);
+      const order = await storage.placeOrder(truck.id, orderRequest, req.user.claims.sub);
+      publishOrderEvent({ type: "order.created", order });
       res.json(order);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid order", errors: error.errors });
+      }
+      if (error instanceof OrderValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error creating order:", error);
       res.status(500).json({ message: "Failed to create order" });
     }
   });
 
-  app.put('/api/orders/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/orders/:id', isAuthenticated, requirePermission("orders:update"), requireAccess("order"), async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const orderData = insertOrderSchema.partial().parse(req.body);
-      const order = await storage.updateOrder(id, orderData);
+      const orderData = updateOrderSchema.parse(req.body);
+      if (orderData.status === "refunded") {
+        const context = await getOrganizationContext(req);
+        if (!hasPermission(context?.role, "orders:refund")) {
+          return res.status(403).json({ message: "You don't have permission to refund orders" });
+        }
+      }
+      const order = await storage.updateOrder(id, orderData, req.user.claims.sub);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      publishOrderEvent({ type: "order.updated", order });
       res.json(order);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid order update", errors: error.errors });
+      }
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error("Error updating order:", error);
       res.status(500).json({ message: "Failed to update order" });
     }
   });
 
+  app.get('/api/orders/:id/history', isAuthenticated, requireAccess("order"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const history = await storage.getOrderStatusHistory(id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching order history:", error);
+      res.status(500).json({ message: "Failed to fetch order history" });
+    }
+  });
+
   // Review routes
-  app.get('/api/reviews/:truckId', isAuthenticated, async (req, res) => {
+  app.get('/api/reviews/:truckId', isAuthenticated, requireAccess("truck", "truckId"), async (req, res) => {
     try {
       const truckId = parseInt(req.params.truckId);
       const reviews = await storage.getReviewsByTruckId(truckId);
@@ -443,7 +1525,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Dashboard stats
-  app.get('/api/dashboard-stats/:truckId', isAuthenticated, async (req, res) => {
+  app.get('/api/dashboard-stats/all', isAuthenticated, async (req, res) => {
+    try {
+      const context = await getOrganizationContext(req);
+      if (!context) {
+        return res.status(403).json({ message: "You don't belong to an organization" });
+      }
+      const stats = await storage.getOrganizationDashboardStats(context.organization.id);
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching dashboard stats:", error);
+      res.status(500).json({ message: "Failed to fetch dashboard stats" });
+    }
+  });
+
+  app.get('/api/dashboard-stats/:truckId', isAuthenticated, requireAccess("truck", "truckId"), async (req, res) => {
     try {
       const truckId = parseInt(req.params.truckId);
       const stats = await storage.getDashboardStats(truckId);
@@ -454,6 +1550,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Sales time series
+  app.get('/api/sales/:truckId', isAuthenticated, requireAccess("truck", "truckId"), async (req, res) => {
+    try {
+      const truckId = parseInt(req.params.truckId);
+      const query = salesSeriesQuerySchema.parse(req.query);
+      const series = await storage.getSalesSeries(truckId, query);
+      res.json(series);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid sales query", errors: error.errors });
+      }
+      console.error("Error fetching sales:", error);
+      res.status(500).json({ message: "Failed to fetch sales" });
+    }
+  });
+
+  // Fleet analytics
+  app.get('/api/analytics/fleet', isAuthenticated, requirePermission("analytics:view"), async (req, res) => {
+    try {
+      const { from, to } = dateRangeQuerySchema.parse(req.query);
+      const context = await getOrganizationContext(req);
+      const performance = await storage.getFleetPerformance(context!.organization.id, from, to);
+      res.json(performance);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date range", errors: error.errors });
+      }
+      console.error("Error fetching fleet analytics:", error);
+      res.status(500).json({ message: "Failed to fetch fleet analytics" });
+    }
+  });
+
+  app.get('/api/analytics/waste', isAuthenticated, requirePermission("analytics:view"), async (req, res) => {
+    try {
+      const { from, to } = dateRangeQuerySchema.parse(req.query);
+      const context = await getOrganizationContext(req);
+      const report = await storage.getWasteReport(context!.organization.id, from, to);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date range", errors: error.errors });
+      }
+      console.error("Error fetching waste report:", error);
+      res.status(500).json({ message: "Failed to fetch waste report" });
+    }
+  });
+
+  app.get('/api/analytics/food-cost', isAuthenticated, requirePermission("analytics:view"), async (req, res) => {
+    try {
+      const { from, to } = dateRangeQuerySchema.parse(req.query);
+      const context = await getOrganizationContext(req);
+      const report = await storage.getFoodCostReport(context!.organization.id, from, to);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date range", errors: error.errors });
+      }
+      console.error("Error fetching food cost report:", error);
+      res.status(500).json({ message: "Failed to fetch food cost report" });
+    }
+  });
+
   const httpServer = createServer(app);
+  setupRealtime(httpServer);
   return httpServer;
 }
@@ -4,10 +4,34 @@ import {
   teamMembers,
   foodTrucks,
   locations,
+  proteins,
   proteinInventory,
+  inventoryItems,
+  stockMovements,
+  stockAlerts,
+  stockAlertKinds,
+  stockCounts,
+  stockCountLines,
+  wasteLogs,
+  commissaryStock,
+  commissaryMovements,
+  stockTransfers,
+  suppliers,
+  purchaseOrders,
+  purchaseOrderLines,
+  menuCategories,
   menuItems,
+  truckMenuItems,
+  modifierGroups,
+  modifierOptions,
+  menuItemModifierGroups,
+  recipeIngredients,
   orders,
+  orderStatusHistory,
   reviews,
+  canTransitionOrderStatus,
+  canTransitionPurchaseOrderStatus,
+  canTransitionTransferStatus,
   type User,
   type UpsertUser,
   type Organization,
@@ -18,17 +42,309 @@ import {
   type InsertFoodTruck,
   type Location,
   type InsertLocation,
+  type Protein,
+  type InsertProtein,
   type ProteinInventory,
   type InsertProteinInventory,
+  type InventoryItem,
+  type InsertInventoryItem,
+  type StockMovement,
+  type InsertStockMovement,
+  type StockMovementEntry,
+  type StockHistory,
+  type StockAlert,
+  type StockAlertKind,
+  type StockAlertSeverity,
+  type StockCount,
+  type StockCountLine,
+  type StockCountWithLines,
+  type CreateStockCountRequest,
+  type WasteLog,
+  type WasteLogEntry,
+  type LogWasteRequest,
+  type CommissaryStock,
+  type InsertCommissaryStock,
+  type CommissaryMovement,
+  type StockTransfer,
+  type StockTransferEntry,
+  type CreateTransferRequest,
+  type AdvanceTransfer,
+  type Supplier,
+  type InsertSupplier,
+  type PurchaseOrder,
+  type PurchaseOrderWithLines,
+  type CreatePurchaseOrderRequest,
+  type UpdatePurchaseOrder,
+  type ReceivePurchaseOrderRequest,
+  type MenuCategory,
+  type InsertMenuCategory,
   type MenuItem,
   type InsertMenuItem,
+  type TruckMenuItem,
+  type TruckMenuEntry,
+  type ModifierGroup,
+  type InsertModifierGroup,
+  type ModifierOption,
+  type InsertModifierOption,
+  type ModifierGroupWithOptions,
+  type RecipeIngredient,
+  type InsertRecipeIngredient,
+  type RecipeLine,
   type Order,
   type InsertOrder,
   type Review,
   type InsertReview,
+  type CreateOrderRequest,
+  type UpdateOrder,
+  type OrderLineItem,
+  type OrderLineModifier,
+  type OrderLineIngredient,
+  type OrderStatusHistoryEntry,
 } from "@shared/schema";
+import { canConvert, convertQuantity, UnitConversionError, unitRegistry, type PackSize } from "@shared/units";
 import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, asc, desc, and, or, ilike, inArray, isNull, sql, gte, lt, avg, count, sum, getTableColumns, type SQL } from "drizzle-orm";
+import { customAlphabet } from "nanoid";
+
+// Short, unambiguous order numbers that are easy to call out at the window
+const generateOrderNumber = customAlphabet("23456789ABCDEFGHJKLMNPQRSTUVWXYZ", 6);
+
+// Order numbers are short, so now and then one is already taken; try a
+// fresh one this many times before giving up
+const ORDER_NUMBER_ATTEMPTS = 5;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Statuses still waiting on the kitchen or pickup
+const OPEN_ORDER_STATUSES = ["pending", "preparing", "ready"];
+
+// Statuses that put protein back on the shelf if it was already deducted
+const REVERSING_ORDER_STATUSES = ["cancelled", "refunded"];
+
+// Weeks of completed sales the reorder forecast averages over, and how many
+// days each order has to last until the next one (a weekly order)
+const REORDER_LOOKBACK_WEEKS = 8;
+const REORDER_CYCLE_DAYS = 7;
+
+// Icons the app showed for the original three proteins, kept when they move
+// into the catalogue
+const LEGACY_PROTEIN_ICONS: Record<string, string> = { beef: "🥩", pork: "🥓", chicken: "🐔" };
+
+// Columns the order history can be sorted by, with the type their cursor value
+// is cast back to. Customer name is coalesced so walk-ins still sort stably.
+const ORDER_SORT_KEYS = {
+  createdAt: { column: sql`${orders.createdAt}`, type: "timestamp" },
+  orderNumber: { column: sql`${orders.orderNumber}`, type: "varchar" },
+  customerName: { column: sql`coalesce(${orders.customerName}, '')`, type: "varchar" },
+  totalAmount: { column: sql`${orders.totalAmount}`, type: "numeric" },
+  status: { column: sql`${orders.status}`, type: "varchar" },
+} satisfies Record<string, { column: SQL; type: string }>;
+
+export type OrderSortColumn = keyof typeof ORDER_SORT_KEYS;
+export const orderSortColumns = Object.keys(ORDER_SORT_KEYS) as OrderSortColumn[];
+
+export interface OrderSearchFilters {
+  query?: string; // matches customer name or order number
+  statuses?: string[];
+  locationId?: number;
+  from?: string; // YYYY-MM-DD in the truck's timezone
+  to?: string; // YYYY-MM-DD, inclusive
+  sortBy: OrderSortColumn;
+  sortOrder: "asc" | "desc";
+  cursor?: string; // nextCursor from the previous page
+  limit: number;
+}
+
+export interface TruckMenuItemSettings {
+  price?: string | null; // null clears the override
+  isAvailable?: boolean;
+}
+
+// A stock movement as callers describe it; the row and truck come from the
+// protein inventory row it is applied to
+export type StockMovementInput = Omit<InsertStockMovement, "proteinInventoryId" | "truckId">;
+
+// An alert with the name and unit of the stock it is about
+export interface InventoryAlert extends StockAlert {
+  itemName: string;
+  unit: string;
+}
+
+// A manual commissary movement; transfers are recorded by the transfer workflow
+export type CommissaryMovementInput = Pick<InsertStockMovement, "quantity" | "unitCost" | "reason" | "createdBy"> & {
+  type: "receipt" | "adjustment";
+};
+
+export interface OrderPage {
+  orders: Order[];
+  nextCursor: string | null;
+}
+
+// Thrown when a request is well-formed but can't be fulfilled as asked
+export class OrderValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderValidationError";
+  }
+}
+
+// Thrown when stock paperwork (a count, say) refers to items it can't use
+export class StockValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StockValidationError";
+  }
+}
+
+// Thrown when a status change isn't allowed by the transitions for its
+// subject, e.g. orderStatusTransitions for an order
+export class InvalidStatusTransitionError extends Error {
+  constructor(public subject: string, public from: string, public to: string) {
+    super(`Cannot change ${subject} status from ${from} to ${to}`);
+    this.name = "InvalidStatusTransitionError";
+  }
+}
+
+// Thrown when a protein can't take a name, because another protein or a
+// recipe line it appears on already uses it
+export class ProteinNameConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProteinNameConflictError";
+  }
+}
+
+// Dashboard numbers, bucketed by each truck's local calendar. The "previous"
+// figures cover the same stretch of the prior period (e.g. yesterday up to
+// this time of day) so they compare like for like.
+export interface BusinessMetrics {
+  revenue: {
+    today: number;
+    yesterday: number;
+    thisWeek: number;
+    lastWeek: number;
+    thisMonth: number;
+    lastMonth: number;
+  };
+  orders: {
+    today: number;
+    yesterday: number;
+    thisWeek: number;
+    lastWeek: number;
+    thisMonth: number;
+    lastMonth: number;
+    averageOrderValue: number; // month to date
+  };
+  customers: {
+    total: number;
+    new: number; // first order this month
+    returning: number; // ordered this month and before
+    satisfactionScore: number;
+  };
+  operations: {
+    activeLocations: number;
+    hoursOperated: number; // first to last sale today, summed across trucks
+    itemsSold: number; // today
+    inventoryValue: number;
+  };
+}
+
+// Side-by-side numbers for one truck in the fleet analytics view
+export interface TruckPerformance {
+  truckId: number;
+  truckName: string;
+  revenue: number;
+  orderCount: number;
+  averageTicket: number;
+  averageRating: number;
+  reviewCount: number;
+  proteinCost: number;
+}
+
+// Waste for one truck, reason and unit in one week (starting Monday, in the
+// truck's timezone). Cost is at the unit cost when the waste was logged.
+export interface WasteReportRow {
+  truckId: number;
+  truckName: string;
+  week: string;
+  reasonCode: string;
+  unit: string;
+  entries: number;
+  quantity: number;
+  cost: number;
+}
+
+// Plate economics for one menu item on one truck at today's stock costs,
+// and what it sold in the period. Plate cost and margins are null when an
+// ingredient has no cost; items no longer on the menu only have sales.
+export interface MenuItemFoodCost {
+  menuItemId: number;
+  name: string;
+  price: number | null;
+  plateCost: number | null;
+  margin: number | null;
+  marginPercent: number | null;
+  quantitySold: number;
+  revenue: number;
+  theoreticalCost: number;
+}
+
+// One truck's food cost for a period. Theoretical cost is what its recipes
+// say the sales should have used, at today's costs. Actual cost comes from
+// the protein ledger at the cost when stock moved, so the gap is measured
+// against the protein share of theoretical cost; it covers waste, count
+// variances, adjustments, over-portioning and cost changes.
+export interface TruckFoodCost {
+  truckId: number;
+  truckName: string;
+  revenue: number;
+  theoreticalCost: number;
+  theoreticalMargin: number;
+  theoreticalMarginPercent: number | null;
+  theoreticalProteinCost: number;
+  actualCost: number;
+  actualSalesCost: number;
+  actualWasteCost: number;
+  actualVarianceCost: number;
+  gap: number;
+  gapPercent: number | null;
+  items: MenuItemFoodCost[];
+}
+
+// What to order for one protein row, from its recent sales. Quantities are in
+// the row's unit; daysOfCover is null when no usage is forecast.
+export interface ReorderSuggestion {
+  proteinInventoryId: number;
+  itemName: string;
+  unit: string;
+  currentStock: number;
+  onOrder: number;
+  averageDailyUsage: number;
+  forecastUsage: number;
+  daysOfCover: number | null;
+  leadTimeDays: number;
+  safetyStockDays: number;
+  suggestedQuantity: number;
+  estimatedCost: number;
+}
+
+export type SalesGranularity = "hour" | "day" | "week";
+
+export interface SalesSeriesQuery {
+  granularity: SalesGranularity;
+  from?: string; // YYYY-MM-DD in the truck's timezone; defaults to `days` before `to`
+  to?: string; // YYYY-MM-DD, inclusive; defaults to today
+  days: number;
+  timeZone?: string; // defaults to the truck's, then the organization's
+}
+
+// One bucket of completed sales; `bucket` is the local start time, without an offset
+export interface SalesBucket {
+  bucket: string;
+  revenue: number;
+  orders: number;
+  averageTicket: number;
+}
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
@@ -36,54 +352,159 @@ export interface IStorage {
   upsertUser(user: UpsertUser): Promise<User>;
   
   // Organization operations
+  getOrganization(id: number): Promise<Organization | undefined>;
   getOrganizationByOwnerId(ownerId: string): Promise<Organization | undefined>;
   createOrganization(org: InsertOrganization): Promise<Organization>;
+  updateOrganization(id: number, org: Partial<InsertOrganization>): Promise<Organization>;
   
   // Team operations
   getTeamMembersByOrganizationId(organizationId: number): Promise<TeamMember[]>;
+  getTeamMember(id: number): Promise<TeamMember | undefined>;
   getTeamMemberByUserId(userId: string): Promise<TeamMember | undefined>;
   addTeamMember(member: InsertTeamMember): Promise<TeamMember>;
   updateTeamMember(id: number, member: Partial<InsertTeamMember>): Promise<TeamMember>;
   deleteTeamMember(id: number): Promise<void>;
   
   // Food truck operations
+  getFoodTruck(id: number): Promise<FoodTruck | undefined>;
   getFoodTrucksByOrganizationId(organizationId: number): Promise<FoodTruck[]>;
-  getFoodTruckByUserId(userId: string): Promise<FoodTruck | undefined>;
+  getFoodTruckByUserId(userId: string, preferredTruckId?: number): Promise<FoodTruck | undefined>;
+  getTruckTimeZone(truckId: number): Promise<string>;
   createFoodTruck(truck: InsertFoodTruck): Promise<FoodTruck>;
   updateFoodTruck(id: number, truck: Partial<InsertFoodTruck>): Promise<FoodTruck>;
   
   // Location operations
+  getLocation(id: number): Promise<Location | undefined>;
   getLocationsByTruckId(truckId: number): Promise<Location[]>;
   createLocation(location: InsertLocation): Promise<Location>;
   updateLocation(id: number, location: Partial<InsertLocation>): Promise<Location>;
   deleteLocation(id: number): Promise<void>;
   
+  // Protein catalogue operations
+  getProteins(organizationId: number): Promise<Protein[]>;
+  getProtein(id: number): Promise<Protein | undefined>;
+  createProtein(protein: InsertProtein): Promise<Protein>;
+  updateProtein(id: number, protein: Partial<InsertProtein>): Promise<Protein>;
+  backfillProteinCatalogue(): Promise<void>;
+
   // Protein inventory operations
+  getProteinInventoryItem(id: number): Promise<ProteinInventory | undefined>;
   getProteinInventoryByTruckId(truckId: number): Promise<ProteinInventory[]>;
-  createProteinInventory(item: InsertProteinInventory): Promise<ProteinInventory>;
-  updateProteinInventory(id: number, item: Partial<InsertProteinInventory>): Promise<ProteinInventory>;
+  createProteinInventory(item: InsertProteinInventory, createdBy?: string): Promise<ProteinInventory>;
+  updateProteinInventory(id: number, item: Partial<InsertProteinInventory>, changedBy?: string, reason?: string): Promise<ProteinInventory | undefined>;
   deleteProteinInventory(id: number): Promise<void>;
+
+  // Stock ledger operations
+  recordStockMovement(proteinInventoryId: number, movement: StockMovementInput, unit?: string): Promise<StockMovement>;
+  getStockHistory(proteinInventoryId: number): Promise<StockHistory>;
+  reconcileStock(proteinInventoryId: number, reconciledBy?: string): Promise<StockMovement | null>;
+
+  // Stock alert operations
+  getStockAlert(id: number): Promise<StockAlert | undefined>;
+  getInventoryAlerts(truckId: number, includeResolved?: boolean): Promise<InventoryAlert[]>;
+  acknowledgeStockAlert(id: number, acknowledgedBy: string): Promise<StockAlert>;
+  resolveStockAlert(id: number, resolvedBy: string): Promise<StockAlert>;
+
+  // Reorder planning
+  getReorderSuggestions(truckId: number, lookbackWeeks?: number): Promise<ReorderSuggestion[]>;
+
+  // Waste operations
+  getWasteLog(truckId: number): Promise<WasteLogEntry[]>;
+  getWasteLogEntry(id: number): Promise<WasteLog | undefined>;
+  logWaste(request: LogWasteRequest, loggedBy?: string): Promise<WasteLog>;
+
+  // Commissary operations
+  getCommissaryStock(organizationId: number): Promise<CommissaryStock[]>;
+  getCommissaryStockItem(id: number): Promise<CommissaryStock | undefined>;
+  createCommissaryStock(item: InsertCommissaryStock): Promise<CommissaryStock>;
+  recordCommissaryMovement(commissaryStockId: number, movement: CommissaryMovementInput, unit?: string): Promise<CommissaryMovement>;
+  getCommissaryMovements(commissaryStockId: number): Promise<CommissaryMovement[]>;
+
+  // Transfer operations
+  getTransfers(organizationId: number, truckId?: number): Promise<StockTransferEntry[]>;
+  getTransfer(id: number): Promise<StockTransfer | undefined>;
+  createTransfer(request: CreateTransferRequest, requestedBy?: string): Promise<StockTransfer>;
+  advanceTransfer(id: number, change: AdvanceTransfer, changedBy?: string): Promise<StockTransfer | undefined>;
+
+  // Supplier operations
+  getSuppliers(organizationId: number): Promise<Supplier[]>;
+  getSupplier(id: number): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: number, supplier: Partial<InsertSupplier>): Promise<Supplier>;
+
+  // Purchase order operations
+  getPurchaseOrders(truckId: number): Promise<PurchaseOrderWithLines[]>;
+  getPurchaseOrder(id: number): Promise<PurchaseOrder | undefined>;
+  createPurchaseOrder(request: CreatePurchaseOrderRequest, createdBy?: string): Promise<PurchaseOrder>;
+  updatePurchaseOrder(id: number, changes: UpdatePurchaseOrder): Promise<PurchaseOrder | undefined>;
+  receivePurchaseOrder(id: number, delivery: ReceivePurchaseOrderRequest, receivedBy?: string): Promise<PurchaseOrder | undefined>;
+
+  // Stock count operations
+  getStockCounts(truckId: number): Promise<StockCountWithLines[]>;
+  createStockCount(request: CreateStockCountRequest, countedBy?: string): Promise<StockCountWithLines>;
+
+  // General inventory operations
+  getInventoryItem(id: number): Promise<InventoryItem | undefined>;
+  getInventoryItemsByTruckId(truckId: number): Promise<InventoryItem[]>;
+  createInventoryItem(item: InsertInventoryItem): Promise<InventoryItem>;
+  updateInventoryItem(id: number, item: Partial<InsertInventoryItem>): Promise<InventoryItem>;
+  deleteInventoryItem(id: number): Promise<void>;
   
   // Menu operations
-  getMenuItems(): Promise<MenuItem[]>;
+  getMenuCategories(organizationId: number): Promise<MenuCategory[]>;
+  getMenuCategory(id: number): Promise<MenuCategory | undefined>;
+  createMenuCategory(category: InsertMenuCategory): Promise<MenuCategory>;
+  updateMenuCategory(id: number, category: Partial<InsertMenuCategory>): Promise<MenuCategory>;
+  deleteMenuCategory(id: number): Promise<void>;
+  getMenuItems(organizationId: number, includeArchived?: boolean): Promise<MenuItem[]>;
+  backfillOrganizationMenus(): Promise<void>;
+  getMenuItem(id: number): Promise<MenuItem | undefined>;
   createMenuItem(item: InsertMenuItem): Promise<MenuItem>;
+  updateMenuItem(id: number, item: Partial<InsertMenuItem>): Promise<MenuItem>;
+  archiveMenuItem(id: number): Promise<MenuItem>;
+  restoreMenuItem(id: number): Promise<MenuItem>;
+  getTruckMenu(truckId: number): Promise<TruckMenuEntry[]>;
+  setTruckMenuItem(truckId: number, menuItemId: number, settings: TruckMenuItemSettings): Promise<TruckMenuItem>;
+  removeTruckMenuItem(truckId: number, menuItemId: number): Promise<void>;
+
+  // Modifier operations
+  getModifierGroups(organizationId: number): Promise<ModifierGroupWithOptions[]>;
+  getModifierGroup(id: number): Promise<ModifierGroup | undefined>;
+  createModifierGroup(group: InsertModifierGroup): Promise<ModifierGroup>;
+  updateModifierGroup(id: number, group: Partial<InsertModifierGroup>): Promise<ModifierGroup>;
+  deleteModifierGroup(id: number): Promise<void>;
+  setModifierGroupMenuItems(groupId: number, menuItemIds: number[]): Promise<void>;
+  getModifierOption(id: number): Promise<ModifierOption | undefined>;
+  createModifierOption(option: InsertModifierOption): Promise<ModifierOption>;
+  updateModifierOption(id: number, option: Partial<InsertModifierOption>): Promise<ModifierOption>;
+  deleteModifierOption(id: number): Promise<void>;
+
+  // Recipe operations
+  getRecipe(menuItemId: number): Promise<RecipeIngredient[]>;
+  setRecipe(menuItemId: number, ingredients: Omit<InsertRecipeIngredient, "menuItemId">[]): Promise<RecipeIngredient[]>;
   
   // Order operations
-  getOrdersByTruckId(truckId: number, limit?: number): Promise<Order[]>;
-  createOrder(order: InsertOrder): Promise<Order>;
-  updateOrder(id: number, order: Partial<InsertOrder>): Promise<Order>;
+  searchOrders(truckId: number, filters: OrderSearchFilters): Promise<OrderPage>;
+  getOpenOrdersByTruckId(truckId: number): Promise<Order[]>;
+  getOrder(id: number): Promise<Order | undefined>;
+  createOrder(order: InsertOrder, createdBy?: string): Promise<Order>;
+  placeOrder(truckId: number, request: CreateOrderRequest, placedBy?: string): Promise<Order>;
+  updateOrder(id: number, change: UpdateOrder, changedBy?: string): Promise<Order | undefined>;
+  getOrderStatusHistory(orderId: number): Promise<OrderStatusHistoryEntry[]>;
   
   // Review operations
   getReviewsByTruckId(truckId: number): Promise<Review[]>;
   createReview(review: InsertReview): Promise<Review>;
   
   // Dashboard stats
-  getDashboardStats(truckId: number): Promise<{
-    todaySales: number;
-    ordersToday: number;
-    averageRating: number;
-    activeLocations: number;
-  }>;
+  getDashboardStats(truckId: number): Promise<BusinessMetrics>;
+  getOrganizationDashboardStats(organizationId: number): Promise<BusinessMetrics>;
+
+  // Analytics
+  getFleetPerformance(organizationId: number, from: Date, to: Date): Promise<TruckPerformance[]>;
+  getSalesSeries(truckId: number, query: SalesSeriesQuery): Promise<SalesBucket[]>;
+  getWasteReport(organizationId: number, from: Date, to: Date): Promise<WasteReportRow[]>;
+  getFoodCostReport(organizationId: number, from: Date, to: Date): Promise<TruckFoodCost[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -108,8 +529,12 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  // Food truck operations
   // Organization operations
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [org] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return org;
+  }
+
   async getOrganizationByOwnerId(ownerId: string): Promise<Organization | undefined> {
     const [org] = await db
       .select()
@@ -126,6 +551,15 @@ export class DatabaseStorage implements IStorage {
     return org;
   }
 
+  async updateOrganization(id: number, orgData: Partial<InsertOrganization>): Promise<Organization> {
+    const [org] = await db
+      .update(organizations)
+      .set({ ...orgData, updatedAt: new Date() })
+      .where(eq(organizations.id, id))
+      .returning();
+    return org;
+  }
+
   // Team operations
   async getTeamMembersByOrganizationId(organizationId: number): Promise<TeamMember[]> {
     return await db
@@ -134,6 +568,11 @@ export class DatabaseStorage implements IStorage {
       .where(eq(teamMembers.organizationId, organizationId));
   }
 
+  async getTeamMember(id: number): Promise<TeamMember | undefined> {
+    const [member] = await db.select().from(teamMembers).where(eq(teamMembers.id, id));
+    return member;
+  }
+
   async getTeamMemberByUserId(userId: string): Promise<TeamMember | undefined> {
     const [member] = await db
       .select()
@@ -166,6 +605,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Food truck operations
+  async getFoodTruck(id: number): Promise<FoodTruck | undefined> {
+    const [truck] = await db.select().from(foodTrucks).where(eq(foodTrucks.id, id));
+    return truck;
+  }
+
   async getFoodTrucksByOrganizationId(organizationId: number): Promise<FoodTruck[]> {
     return await db
       .select()
@@ -173,18 +617,28 @@ export class DatabaseStorage implements IStorage {
       .where(eq(foodTrucks.organizationId, organizationId));
   }
 
-  async getFoodTruckByUserId(userId: string): Promise<FoodTruck | undefined> {
+  async getFoodTruckByUserId(userId: string, preferredTruckId?: number): Promise<FoodTruck | undefined> {
     // First try to find user's organization
     const organization = await this.getOrganizationByOwnerId(userId);
     if (organization) {
-      // If user owns an organization, get the first truck
+      // Owners get the truck they picked in the sidebar, or the first one
       const trucks = await this.getFoodTrucksByOrganizationId(organization.id);
-      return trucks[0];
+      return trucks.find((truck) => truck.id === preferredTruckId) ?? trucks[0];
     }
 
-    // Otherwise, check if user is a team member assigned to a truck
+    // Otherwise, check if user is a team member assigned to a truck.
+    // Deactivated members lose their truck along with their organization.
     const teamMember = await this.getTeamMemberByUserId(userId);
-    if (teamMember?.truckId) {
+    if (!teamMember?.isActive) {
+      return undefined;
+    }
+    if (preferredTruckId) {
+      const preferred = await this.getFoodTruck(preferredTruckId);
+      if (preferred?.organizationId === teamMember.organizationId) {
+        return preferred;
+      }
+    }
+    if (teamMember.truckId) {
       const [truck] = await db
         .select()
         .from(foodTrucks)
@@ -195,6 +649,16 @@ export class DatabaseStorage implements IStorage {
     return undefined;
   }
 
+  // The truck's own timezone, falling back to its organization's
+  async getTruckTimeZone(truckId: number): Promise<string> {
+    const [row] = await db
+      .select({ timezone: sql<string>`coalesce(${foodTrucks.timezone}, ${organizations.timezone})` })
+      .from(foodTrucks)
+      .innerJoin(organizations, eq(organizations.id, foodTrucks.organizationId))
+      .where(eq(foodTrucks.id, truckId));
+    return row?.timezone ?? "UTC";
+  }
+
   async createFoodTruck(truck: InsertFoodTruck): Promise<FoodTruck> {
     const [newTruck] = await db
       .insert(foodTrucks)
@@ -213,6 +677,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Location operations
+  async getLocation(id: number): Promise<Location | undefined> {
+    const [location] = await db.select().from(locations).where(eq(locations.id, id));
+    return location;
+  }
+
   async getLocationsByTruckId(truckId: number): Promise<Location[]> {
     return await db
       .select()
@@ -242,7 +711,216 @@ export class DatabaseStorage implements IStorage {
     await db.delete(locations).where(eq(locations.id, id));
   }
 
+  // Protein catalogue operations
+  async getProteins(organizationId: number): Promise<Protein[]> {
+    return await db
+      .select()
+      .from(proteins)
+      .where(eq(proteins.organizationId, organizationId))
+      .orderBy(desc(proteins.isActive), asc(proteins.name));
+  }
+
+  async getProtein(id: number): Promise<Protein | undefined> {
+    const [protein] = await db.select().from(proteins).where(eq(proteins.id, id));
+    return protein;
+  }
+
+  async createProtein(protein: InsertProtein): Promise<Protein> {
+    const [newProtein] = await db.insert(proteins).values(protein).returning();
+    return newProtein;
+  }
+
+  // A rename carries over to the copies of the name kept on stock, menu
+  // items, modifiers and recipes; past orders keep the name they sold under.
+  // Recipes name each ingredient once, so a rename can't collide with a
+  // general item already on a recipe that uses this protein.
+  async updateProtein(id: number, protein: Partial<InsertProtein>): Promise<Protein> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(proteins).where(eq(proteins.id, id));
+      if (current && protein.name !== undefined && protein.name !== current.name) {
+        const [taken] = await tx
+          .select({ id: proteins.id })
+          .from(proteins)
+          .where(and(eq(proteins.organizationId, current.organizationId), eq(proteins.name, protein.name)))
+          .limit(1);
+        if (taken) {
+          throw new ProteinNameConflictError(`There's already a protein named ${protein.name}`);
+        }
+
+        const [clash] = await tx
+          .select({ menuItemName: menuItems.name })
+          .from(recipeIngredients)
+          .innerJoin(menuItems, eq(menuItems.id, recipeIngredients.menuItemId))
+          .where(
+            and(
+              eq(recipeIngredients.ingredient, protein.name),
+              isNull(recipeIngredients.proteinId),
+              inArray(
+                recipeIngredients.menuItemId,
+                tx.select({ id: recipeIngredients.menuItemId })
+                  .from(recipeIngredients)
+                  .where(eq(recipeIngredients.proteinId, id))
+              )
+            )
+          )
+          .limit(1);
+        if (clash) {
+          throw new ProteinNameConflictError(
+            `The ${clash.menuItemName} recipe already lists ${protein.name}; remove it there before renaming`
+          );
+        }
+      }
+
+      const [updatedProtein] = await tx
+        .update(proteins)
+        .set({ ...protein, updatedAt: new Date() })
+        .where(eq(proteins.id, id))
+        .returning();
+      if (updatedProtein && protein.name !== undefined) {
+        const name = updatedProtein.name;
+        await tx.update(proteinInventory).set({ proteinType: name }).where(eq(proteinInventory.proteinId, id));
+        await tx.update(commissaryStock).set({ proteinType: name }).where(eq(commissaryStock.proteinId, id));
+        await tx.update(menuItems).set({ proteinType: name }).where(eq(menuItems.proteinId, id));
+        await tx.update(modifierOptions).set({ proteinType: name }).where(eq(modifierOptions.proteinId, id));
+        await tx.update(recipeIngredients).set({ ingredient: name }).where(eq(recipeIngredients.proteinId, id));
+      }
+      return updatedProtein;
+    });
+  }
+
+  // Gives stock, menu items and modifiers from before the catalogue an entry
+  // to point at: one per distinct name in each organization, in the unit most
+  // of its stock is kept in. Recipe lines and past orders are linked to the
+  // entry of the same name. Only touches rows without a protein, so it is
+  // safe to run on every start.
+  async backfillProteinCatalogue(): Promise<void> {
+    const icons = Object.entries(LEGACY_PROTEIN_ICONS).map(([name, icon]) => sql`(${name}, ${icon})`);
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`
+        with legacy as (
+          select t.organization_id, lower(trim(pi.protein_type)) as name, pi.unit, pi.cost_per_unit
+          from ${proteinInventory} pi
+          join ${foodTrucks} t on t.id = pi.truck_id
+          where pi.protein_id is null
+          union all
+          select cs.organization_id, lower(trim(cs.protein_type)), cs.unit, cs.cost_per_unit
+          from ${commissaryStock} cs
+          where cs.protein_id is null
+          union all
+          select m.organization_id, lower(trim(m.protein_type)), null, null
+          from ${menuItems} m
+          where m.protein_id is null
+          union all
+          select g.organization_id, lower(trim(mo.protein_type)), null, null
+          from ${modifierOptions} mo
+          join ${modifierGroups} g on g.id = mo.group_id
+          where mo.protein_id is null and mo.protein_type is not null
+        ), named as (
+          select organization_id, name, coalesce(mode() within group (order by unit), 'lbs') as default_unit
+          from legacy
+          where name <> ''
+          group by organization_id, name
+        )
+        insert into ${proteins} (organization_id, name, icon, default_unit, cost_per_unit)
+        select
+          named.organization_id,
+          named.name,
+          icons.icon,
+          named.default_unit,
+          (
+            select round(avg(legacy.cost_per_unit), 2) from legacy
+            where legacy.organization_id = named.organization_id and legacy.name = named.name and legacy.unit = named.default_unit
+          )
+        from named
+        left join (values ${sql.join(icons, sql`, `)}) as icons(name, icon) on icons.name = named.name
+        on conflict (organization_id, name) do nothing
+      `);
+      await tx.execute(sql`
+        update ${proteinInventory} pi
+        set protein_id = p.id, protein_type = p.name
+        from ${foodTrucks} t, ${proteins} p
+        where pi.protein_id is null
+          and t.id = pi.truck_id
+          and p.organization_id = t.organization_id
+          and p.name = lower(trim(pi.protein_type))
+      `);
+      await tx.execute(sql`
+        update ${menuItems} m
+        set protein_id = p.id, protein_type = p.name
+        from ${proteins} p
+        where m.protein_id is null
+          and p.organization_id = m.organization_id
+          and p.name = lower(trim(m.protein_type))
+      `);
+      await tx.execute(sql`
+        update ${commissaryStock} cs
+        set protein_id = p.id, protein_type = p.name
+        from ${proteins} p
+        where cs.protein_id is null
+          and p.organization_id = cs.organization_id
+          and p.name = lower(trim(cs.protein_type))
+      `);
+      await tx.execute(sql`
+        update ${modifierOptions} mo
+        set protein_id = p.id, protein_type = p.name
+        from ${modifierGroups} g, ${proteins} p
+        where mo.protein_id is null
+          and g.id = mo.group_id
+          and p.organization_id = g.organization_id
+          and p.name = lower(trim(mo.protein_type))
+      `);
+      await tx.execute(sql`
+        update ${recipeIngredients} ri
+        set protein_id = p.id
+        from ${menuItems} m, ${proteins} p
+        where ri.protein_id is null
+          and m.id = ri.menu_item_id
+          and p.organization_id = m.organization_id
+          and p.name = ri.ingredient
+      `);
+
+      // Order lines record the protein each line, ingredient and modifier
+      // used. Orders from before that have the key missing everywhere.
+      const proteinNamed = (name: SQL) => sql`(
+        select p.id from ${proteins} p
+        where p.organization_id = t.organization_id and p.name = lower(trim(${name}))
+      )`;
+      await tx.execute(sql`
+        update ${orders} o
+        set items = (
+          select jsonb_agg(
+            line.item
+              || jsonb_build_object('proteinId', ${proteinNamed(sql`line.item->>'proteinType'`)})
+              || case when jsonb_typeof(line.item->'ingredients') = 'array' then jsonb_build_object('ingredients', (
+                select coalesce(jsonb_agg(
+                  ingredient || jsonb_build_object('proteinId', ${proteinNamed(sql`ingredient->>'ingredient'`)})
+                ), '[]'::jsonb)
+                from jsonb_array_elements(line.item->'ingredients') ingredient
+              )) else '{}'::jsonb end
+              || case when jsonb_typeof(line.item->'modifiers') = 'array' then jsonb_build_object('modifiers', (
+                select coalesce(jsonb_agg(
+                  modifier || jsonb_build_object('proteinId', ${proteinNamed(sql`modifier->>'proteinType'`)})
+                ), '[]'::jsonb)
+                from jsonb_array_elements(line.item->'modifiers') modifier
+              )) else '{}'::jsonb end
+            order by line.position
+          )
+          from jsonb_array_elements(o.items) with ordinality as line(item, position)
+        )
+        from ${foodTrucks} t
+        where t.id = o.truck_id
+          and jsonb_array_length(o.items) > 0
+          and not (o.items->0 ? 'proteinId')
+      `);
+    });
+  }
+
   // Protein inventory operations
+  async getProteinInventoryItem(id: number): Promise<ProteinInventory | undefined> {
+    const [item] = await db.select().from(proteinInventory).where(eq(proteinInventory.id, id));
+    return item;
+  }
+
   async getProteinInventoryByTruckId(truckId: number): Promise<ProteinInventory[]> {
     return await db
       .select()
@@ -250,21 +928,87 @@ export class DatabaseStorage implements IStorage {
       .where(eq(proteinInventory.truckId, truckId));
   }
 
-  async createProteinInventory(item: InsertProteinInventory): Promise<ProteinInventory> {
-    const [newItem] = await db
-      .insert(proteinInventory)
-      .values(item)
-      .returning();
-    return newItem;
+  // The starting stock goes in the ledger as the row's first receipt. The
+  // name, and the unit and cost unless given, come from the catalogue.
+  async createProteinInventory(item: InsertProteinInventory, createdBy?: string): Promise<ProteinInventory> {
+    return await db.transaction(async (tx) => {
+      const [protein] = await tx.select().from(proteins).where(eq(proteins.id, item.proteinId));
+      const [newItem] = await tx
+        .insert(proteinInventory)
+        .values({
+          ...item,
+          proteinType: protein.name,
+          unit: item.unit ?? protein.defaultUnit,
+          costPerUnit: item.costPerUnit ?? protein.costPerUnit,
+          currentStock: "0",
+        })
+        .returning();
+      if (Number(item.currentStock) === 0) {
+        await evaluateStockAlerts(tx, newItem.id);
+        return newItem;
+      }
+      await applyStockMovement(tx, newItem, {
+        type: "receipt",
+        quantity: item.currentStock,
+        reason: "Opening stock",
+        createdBy: createdBy ?? null,
+      });
+      return { ...newItem, currentStock: item.currentStock };
+    });
   }
 
-  async updateProteinInventory(id: number, item: Partial<InsertProteinInventory>): Promise<ProteinInventory> {
-    const [updatedItem] = await db
-      .update(proteinInventory)
-      .set({ ...item, updatedAt: new Date() })
-      .where(eq(proteinInventory.id, id))
-      .returning();
-    return updatedItem;
+  // A new currentStock is recorded as an adjustment for the difference, so
+  // the ledger still explains the balance. The unit is fixed once the ledger
+  // has entries, since they're all in that unit.
+  async updateProteinInventory(
+    id: number,
+    item: Partial<InsertProteinInventory>,
+    changedBy?: string,
+    reason?: string,
+  ): Promise<ProteinInventory | undefined> {
+    return await db.transaction(async (tx) => {
+      const { currentStock, ...fields } = item;
+      const [existing] = await tx
+        .select()
+        .from(proteinInventory)
+        .where(eq(proteinInventory.id, id))
+        .for("update");
+      if (!existing) {
+        return existing;
+      }
+
+      if (fields.unit !== undefined && fields.unit !== existing.unit) {
+        const [movement] = await tx
+          .select({ id: stockMovements.id })
+          .from(stockMovements)
+          .where(eq(stockMovements.proteinInventoryId, id))
+          .limit(1);
+        if (movement) {
+          throw new StockValidationError(
+            `${existing.proteinType} already has stock recorded in ${existing.unit}; its unit can't change`
+          );
+        }
+      }
+
+      const delta = currentStock === undefined ? 0 : Number(currentStock) - Number(existing.currentStock);
+      if (delta !== 0) {
+        await applyStockMovement(tx, existing, {
+          type: "adjustment",
+          quantity: delta.toFixed(2),
+          reason: reason || "Stock edited",
+          createdBy: changedBy ?? null,
+        });
+      }
+
+      const [updatedItem] = await tx
+        .update(proteinInventory)
+        .set({ ...fields, updatedAt: new Date() })
+        .where(eq(proteinInventory.id, id))
+        .returning();
+      // Allocation and threshold edits can raise or clear alerts on their own
+      await evaluateStockAlerts(tx, id);
+      return updatedItem;
+    });
   }
 
   async deleteProteinInventory(id: number): Promise<void> {
@@ -273,121 +1017,2558 @@ export class DatabaseStorage implements IStorage {
       .where(eq(proteinInventory.id, id));
   }
 
-  // Menu operations
-  async getMenuItems(): Promise<MenuItem[]> {
-    return await db
-      .select()
-      .from(menuItems);
+  // Stock ledger operations
+  // unit is what the quantity and cost were entered in, if not the row's own
+  async recordStockMovement(proteinInventoryId: number, movement: StockMovementInput, unit?: string): Promise<StockMovement> {
+    return await db.transaction(async (tx) => {
+      const [row] = await tx
+        .select()
+        .from(proteinInventory)
+        .where(eq(proteinInventory.id, proteinInventoryId))
+        .for("update");
+      return await applyStockMovement(tx, row, inStockUnits(movement, unit, row));
+    });
   }
 
-  async createMenuItem(item: InsertMenuItem): Promise<MenuItem> {
-    const [newItem] = await db
-      .insert(menuItems)
-      .values(item)
+  async getStockHistory(proteinInventoryId: number): Promise<StockHistory> {
+    const rows = await db
+      .select({
+        movement: stockMovements,
+        firstName: users.firstName,
+        lastName: users.lastName,
+      })
+      .from(stockMovements)
+      .leftJoin(users, eq(stockMovements.createdBy, users.id))
+      .where(eq(stockMovements.proteinInventoryId, proteinInventoryId))
+      .orderBy(desc(stockMovements.createdAt), desc(stockMovements.id));
+    const [{ balance }] = await db
+      .select({ balance: sum(stockMovements.quantity) })
+      .from(stockMovements)
+      .where(eq(stockMovements.proteinInventoryId, proteinInventoryId));
+    const row = await this.getProteinInventoryItem(proteinInventoryId);
+
+    const movements: StockMovementEntry[] = rows.map(({ movement, firstName, lastName }) => ({
+      ...movement,
+      createdByName: [firstName, lastName].filter(Boolean).join(" ") || null,
+    }));
+    const ledgerBalance = Number(balance ?? 0);
+    const currentStock = Number(row?.currentStock ?? 0);
+    return {
+      movements,
+      ledgerBalance,
+      currentStock,
+      drift: Math.round((currentStock - ledgerBalance) * 100) / 100,
+    };
+  }
+
+  // Books any difference between currentStock and the ledger (e.g. stock
+  // that predates the ledger) as one adjustment, without moving stock
+  async reconcileStock(proteinInventoryId: number, reconciledBy?: string): Promise<StockMovement | null> {
+    const { drift } = await this.getStockHistory(proteinInventoryId);
+    const row = await this.getProteinInventoryItem(proteinInventoryId);
+    if (!row || drift === 0) {
+      return null;
+    }
+    const [movement] = await db
+      .insert(stockMovements)
+      .values({
+        proteinInventoryId,
+        truckId: row.truckId,
+        type: "adjustment",
+        quantity: drift.toFixed(2),
+        unitCost: row.costPerUnit,
+        reason: "Ledger reconciliation",
+        createdBy: reconciledBy ?? null,
+      })
       .returning();
-    return newItem;
+    return movement;
   }
 
-  // Order operations
-  async getOrdersByTruckId(truckId: number, limit = 50): Promise<Order[]> {
-    return await db
-      .select()
-      .from(orders)
-      .where(eq(orders.truckId, truckId))
-      .orderBy(desc(orders.createdAt))
-      .limit(limit);
+  // Stock alert operations
+  async getStockAlert(id: number): Promise<StockAlert | undefined> {
+    const [alert] = await db.select().from(stockAlerts).where(eq(stockAlerts.id, id));
+    return alert;
+  }
+
+  // Open alerts first, then newest; resolved alerts only when asked for
+  async getInventoryAlerts(truckId: number, includeResolved = false): Promise<InventoryAlert[]> {
+    const rows = await db
+      .select({
+        alert: stockAlerts,
+        itemName: proteinInventory.proteinType,
+        unit: proteinInventory.unit,
+      })
+      .from(stockAlerts)
+      .innerJoin(proteinInventory, eq(stockAlerts.proteinInventoryId, proteinInventory.id))
+      .where(
+        and(
+          eq(stockAlerts.truckId, truckId),
+          includeResolved ? undefined : inArray(stockAlerts.status, ["open", "acknowledged"]),
+        ),
+      )
+      .orderBy(
+        sql`case ${stockAlerts.status} when 'open' then 0 when 'acknowledged' then 1 else 2 end`,
+        desc(stockAlerts.updatedAt),
+      )
+      .limit(200);
+    return rows.map(({ alert, itemName, unit }) => ({ ...alert, itemName, unit }));
   }
 
-  async createOrder(order: InsertOrder): Promise<Order> {
-    const [newOrder] = await db
-      .insert(orders)
-      .values(order)
+  async acknowledgeStockAlert(id: number, acknowledgedBy: string): Promise<StockAlert> {
+    const [alert] = await db
+      .update(stockAlerts)
+      .set({ status: "acknowledged", acknowledgedBy, acknowledgedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(stockAlerts.id, id), eq(stockAlerts.status, "open")))
       .returning();
-    return newOrder;
+    return alert;
   }
 
-  async updateOrder(id: number, order: Partial<InsertOrder>): Promise<Order> {
-    const [updatedOrder] = await db
-      .update(orders)
-      .set({ ...order, updatedAt: new Date() })
-      .where(eq(orders.id, id))
+  // Closing an alert by hand; if the stock is still low the next movement
+  // raises a fresh one
+  async resolveStockAlert(id: number, resolvedBy: string): Promise<StockAlert> {
+    const [alert] = await db
+      .update(stockAlerts)
+      .set({ status: "resolved", resolvedBy, resolvedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(stockAlerts.id, id), inArray(stockAlerts.status, ["open", "acknowledged"])))
       .returning();
-    return updatedOrder;
+    return alert;
   }
 
-  // Review operations
-  async getReviewsByTruckId(truckId: number): Promise<Review[]> {
+  // Reorder planning. Usage comes from completed orders, averaged by weekday
+  // and, where the truck has a schedule, by the location it works that day.
+  async getReorderSuggestions(truckId: number, lookbackWeeks = REORDER_LOOKBACK_WEEKS): Promise<ReorderSuggestion[]> {
+    const rows = await db
+      .select()
+      .from(proteinInventory)
+      .where(eq(proteinInventory.truckId, truckId))
+      .orderBy(asc(proteinInventory.proteinType));
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const usage = await db.execute<{
+      protein_inventory_id: number;
+      location_id: number | null;
+      day: string;
+      weekday: number;
+      used: string;
+    }>(sql`
+      select
+        m.protein_inventory_id,
+        o.location_id,
+        to_char(local.sold_at, 'YYYY-MM-DD') as day,
+        extract(dow from local.sold_at)::int as weekday,
+        -sum(m.quantity) as used
+      from ${stockMovements} m
+      join ${orders} o on o.id = m.order_id
+      join ${foodTrucks} t on t.id = m.truck_id
+      join ${organizations} org on org.id = t.organization_id
+      cross join lateral (
+        select (o.created_at at time zone 'UTC') at time zone coalesce(t.timezone, org.timezone) as sold_at
+      ) local
+      where m.truck_id = ${truckId}
+        and m.type = 'sale'
+        and o.status = 'completed'
+        and o.created_at >= now() - make_interval(weeks => ${lookbackWeeks}::int)
+      group by m.protein_inventory_id, o.location_id, day, weekday
+    `);
+
+    const today = await db.execute<{ weekday: number }>(sql`
+      select extract(dow from now() at time zone coalesce(t.timezone, org.timezone))::int as weekday
+      from ${foodTrucks} t
+      join ${organizations} org on org.id = t.organization_id
+      where t.id = ${truckId}
+    `);
+    const todayWeekday = Number(today.rows[0]?.weekday ?? new Date().getDay());
+
+    // Weekday -> locations the truck is scheduled at that day
+    const schedule = new Map<number, number[]>();
+    const truckLocations = await db.select().from(locations).where(eq(locations.truckId, truckId));
+    for (const location of truckLocations) {
+      for (const weekday of location.serviceDays ?? []) {
+        schedule.set(weekday, [...(schedule.get(weekday) ?? []), location.id]);
+      }
+    }
+
+    // Stock already coming: open purchase order lines (in the unit they were
+    // ordered in) and transfers in flight
+    const onOrder = new Map<number, number>();
+    const openLines = await db
+      .select({
+        proteinInventoryId: purchaseOrderLines.proteinInventoryId,
+        unit: purchaseOrderLines.unit,
+        outstanding: sql<string>`${purchaseOrderLines.quantityOrdered} - ${purchaseOrderLines.quantityReceived}`,
+      })
+      .from(purchaseOrderLines)
+      .innerJoin(purchaseOrders, eq(purchaseOrderLines.purchaseOrderId, purchaseOrders.id))
+      .where(
+        and(
+          eq(purchaseOrders.truckId, truckId),
+          inArray(purchaseOrders.status, ["ordered", "partially_received"]),
+          sql`${purchaseOrderLines.quantityOrdered} > ${purchaseOrderLines.quantityReceived}`
+        )
+      );
+    const rowsById = new Map(rows.map((row) => [row.id, row]));
+    const inFlight = await db
+      .select({
+        proteinInventoryId: stockTransfers.proteinInventoryId,
+        outstanding: sql<string>`sum(coalesce(${stockTransfers.quantitySent}, ${stockTransfers.quantityRequested}))`,
+      })
+      .from(stockTransfers)
+      .where(and(eq(stockTransfers.truckId, truckId), inArray(stockTransfers.status, ["approved", "dispatched"])))
+      .groupBy(stockTransfers.proteinInventoryId);
+    for (const { proteinInventoryId, unit, outstanding } of openLines) {
+      const row = rowsById.get(proteinInventoryId);
+      if (!row) {
+        continue;
+      }
+      let quantity = Number(outstanding);
+      if (unit) {
+        try {
+          quantity = convertQuantity(quantity, unit, row.unit, packOf(row));
+        } catch (error) {
+          // The row's pack size was cleared since the line was ordered, so
+          // there's no telling how much is coming; leave it out
+          if (error instanceof UnitConversionError) {
+            continue;
+          }
+          throw error;
+        }
+      }
+      onOrder.set(proteinInventoryId, (onOrder.get(proteinInventoryId) ?? 0) + quantity);
+    }
+    for (const { proteinInventoryId, outstanding } of inFlight) {
+      onOrder.set(proteinInventoryId, (onOrder.get(proteinInventoryId) ?? 0) + Number(outstanding));
+    }
+
+    return rows.map((row) => {
+      const sales = usage.rows
+        .filter((sale) => Number(sale.protein_inventory_id) === row.id)
+        .map((sale) => ({
+          location_id: sale.location_id === null ? null : Number(sale.location_id),
+          day: sale.day,
+          weekday: Number(sale.weekday),
+          used: Number(sale.used),
+        }));
+      const dailyUsage = forecastDailyUsage(sales, schedule, lookbackWeeks);
+
+      // Walk forward from today, one weekday at a time
+      const upcoming = (days: number) =>
+        Array.from({ length: days }, (_, offset) => dailyUsage[(todayWeekday + offset) % 7]);
+      const forecastUsage = upcoming(REORDER_CYCLE_DAYS).reduce((total, used) => total + used, 0);
+
+      const currentStock = Number(row.currentStock);
+      let daysOfCover: number | null = null;
+      if (forecastUsage > 0) {
+        let remaining = Math.max(currentStock, 0);
+        daysOfCover = 0;
+        for (const used of upcoming(365)) {
+          if (used >= remaining && used > 0) {
+            daysOfCover += remaining / used;
+            break;
+          }
+          remaining -= used;
+          daysOfCover += 1;
+        }
+      }
+
+      // Enough to get through delivery and the coming week, plus a buffer,
+      // less whatever is on the truck or already on its way
+      const incoming = onOrder.get(row.id) ?? 0;
+      const needed = upcoming(row.leadTimeDays + REORDER_CYCLE_DAYS).reduce((total, used) => total + used, 0);
+      const safetyStock = (forecastUsage / REORDER_CYCLE_DAYS) * row.safetyStockDays;
+      const suggestedQuantity = Math.max(0, Math.ceil(needed + safetyStock - currentStock - incoming));
+      const totalUsed = sales.reduce((total, sale) => total + sale.used, 0);
+
+      return {
+        proteinInventoryId: row.id,
+        itemName: row.proteinType,
+        unit: row.unit,
+        currentStock,
+        onOrder: roundQuantity(incoming),
+        averageDailyUsage: roundQuantity(totalUsed / (lookbackWeeks * 7)),
+        forecastUsage: roundQuantity(forecastUsage),
+        daysOfCover: daysOfCover === null ? null : Math.round(daysOfCover * 10) / 10,
+        leadTimeDays: row.leadTimeDays,
+        safetyStockDays: row.safetyStockDays,
+        suggestedQuantity,
+        estimatedCost: roundQuantity(suggestedQuantity * Number(row.costPerUnit ?? 0)),
+      };
+    });
+  }
+
+  // Waste operations
+  async getWasteLog(truckId: number): Promise<WasteLogEntry[]> {
+    const { photo, ...entryColumns } = getTableColumns(wasteLogs);
+    const rows = await db
+      .select({
+        ...entryColumns,
+        hasPhoto: sql<boolean>`${photo} is not null`,
+        itemName: proteinInventory.proteinType,
+        firstName: users.firstName,
+        lastName: users.lastName,
+      })
+      .from(wasteLogs)
+      .innerJoin(proteinInventory, eq(wasteLogs.proteinInventoryId, proteinInventory.id))
+      .leftJoin(users, eq(wasteLogs.loggedBy, users.id))
+      .where(eq(wasteLogs.truckId, truckId))
+      .orderBy(desc(wasteLogs.createdAt), desc(wasteLogs.id))
+      .limit(100);
+    return rows.map(({ firstName, lastName, ...entry }) => ({
+      ...entry,
+      loggedByName: [firstName, lastName].filter(Boolean).join(" ") || null,
+    }));
+  }
+
+  async getWasteLogEntry(id: number): Promise<WasteLog | undefined> {
+    const [entry] = await db.select().from(wasteLogs).where(eq(wasteLogs.id, id));
+    return entry;
+  }
+
+  // Takes the wasted amount out of stock as a "waste" movement, which leaves
+  // usedAmount to sales alone
+  async logWaste(request: LogWasteRequest, loggedBy?: string): Promise<WasteLog> {
+    return await db.transaction(async (tx) => {
+      const [row] = await tx
+        .select()
+        .from(proteinInventory)
+        .where(eq(proteinInventory.id, request.proteinInventoryId))
+        .for("update");
+      if (!row) {
+        throw new StockValidationError("Inventory item not found");
+      }
+
+      const movement = await applyStockMovement(tx, row, {
+        type: "waste",
+        quantity: (-Number(request.quantity)).toFixed(2),
+        reason: request.notes ? `${request.reasonCode}: ${request.notes}` : request.reasonCode,
+        createdBy: loggedBy ?? null,
+      });
+      const [entry] = await tx
+        .insert(wasteLogs)
+        .values({
+          truckId: row.truckId,
+          proteinInventoryId: row.id,
+          movementId: movement.id,
+          reasonCode: request.reasonCode,
+          quantity: request.quantity,
+          unit: row.unit,
+          unitCost: movement.unitCost,
+          notes: request.notes || null,
+          photo: request.photo ?? null,
+          loggedBy: loggedBy ?? null,
+        })
+        .returning();
+      return entry;
+    });
+  }
+
+  // Commissary operations
+  async getCommissaryStock(organizationId: number): Promise<CommissaryStock[]> {
     return await db
       .select()
-      .from(reviews)
-      .where(eq(reviews.truckId, truckId))
-      .orderBy(desc(reviews.createdAt));
+      .from(commissaryStock)
+      .where(eq(commissaryStock.organizationId, organizationId))
+      .orderBy(asc(commissaryStock.proteinType));
   }
 
-  async createReview(review: InsertReview): Promise<Review> {
-    const [newReview] = await db
-      .insert(reviews)
-      .values(review)
+  async getCommissaryStockItem(id: number): Promise<CommissaryStock | undefined> {
+    const [item] = await db.select().from(commissaryStock).where(eq(commissaryStock.id, id));
+    return item;
+  }
+
+  // The name, and the unit and cost unless given, come from the catalogue
+  async createCommissaryStock(item: InsertCommissaryStock): Promise<CommissaryStock> {
+    const [protein] = await db.select().from(proteins).where(eq(proteins.id, item.proteinId));
+    const [newItem] = await db
+      .insert(commissaryStock)
+      .values({
+        ...item,
+        proteinType: protein.name,
+        unit: item.unit ?? protein.defaultUnit,
+        costPerUnit: item.costPerUnit ?? protein.costPerUnit,
+      })
       .returning();
-    return newReview;
+    return newItem;
   }
 
-  // Dashboard stats
-  async getDashboardStats(truckId: number): Promise<{
-    todaySales: number;
-    ordersToday: number;
-    averageRating: number;
-    activeLocations: number;
-  }> {
-    // Get today's date range
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-
-    // Get today's orders
-    const todayOrders = await db
+  // Receipts with a cost re-average the commissary's costPerUnit
+  async recordCommissaryMovement(commissaryStockId: number, entered: CommissaryMovementInput, unit?: string): Promise<CommissaryMovement> {
+    return await db.transaction(async (tx) => {
+      const [row] = await tx
+        .select()
+        .from(commissaryStock)
+        .where(eq(commissaryStock.id, commissaryStockId))
+        .for("update");
+      const movement = inStockUnits(entered, unit, { ...row, packSize: null });
+      const [entry] = await tx
+        .insert(commissaryMovements)
+        .values({
+          ...movement,
+          commissaryStockId,
+          unitCost: movement.unitCost ?? row.costPerUnit,
+        })
+        .returning();
+      await tx
+        .update(commissaryStock)
+        .set({
+          currentStock: sql`${commissaryStock.currentStock} + ${movement.quantity}`,
+          ...(movement.type === "receipt" && movement.unitCost
+            ? { costPerUnit: weightedAverageCost(row.currentStock, row.costPerUnit, movement.quantity, movement.unitCost) }
+            : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(commissaryStock.id, commissaryStockId));
+      return entry;
+    });
+  }
+
+  async getCommissaryMovements(commissaryStockId: number): Promise<CommissaryMovement[]> {
+    return await db
       .select()
-      .from(orders)
+      .from(commissaryMovements)
+      .where(eq(commissaryMovements.commissaryStockId, commissaryStockId))
+      .orderBy(desc(commissaryMovements.createdAt), desc(commissaryMovements.id))
+      .limit(200);
+  }
+
+  // Transfer operations
+  async getTransfers(organizationId: number, truckId?: number): Promise<StockTransferEntry[]> {
+    const rows = await db
+      .select({
+        transfer: stockTransfers,
+        truckName: foodTrucks.name,
+        proteinType: proteinInventory.proteinType,
+        unit: proteinInventory.unit,
+      })
+      .from(stockTransfers)
+      .innerJoin(foodTrucks, eq(stockTransfers.truckId, foodTrucks.id))
+      .innerJoin(proteinInventory, eq(stockTransfers.proteinInventoryId, proteinInventory.id))
       .where(
         and(
-          eq(orders.truckId, truckId),
-          eq(orders.status, 'completed')
-        )
-      );
-
-    // Calculate today's sales and order count
-    const todaySales = todayOrders.reduce((sum, order) => sum + Number(order.totalAmount), 0);
-    const ordersToday = todayOrders.length;
+          eq(stockTransfers.organizationId, organizationId),
+          truckId ? eq(stockTransfers.truckId, truckId) : undefined,
+        ),
+      )
+      .orderBy(desc(stockTransfers.createdAt), desc(stockTransfers.id))
+      .limit(100);
+    return rows.map(({ transfer, ...names }) => ({ ...transfer, ...names }));
+  }
 
-    // Get average rating
-    const reviewList = await db
-      .select()
-      .from(reviews)
-      .where(eq(reviews.truckId, truckId));
+  async getTransfer(id: number): Promise<StockTransfer | undefined> {
+    const [transfer] = await db.select().from(stockTransfers).where(eq(stockTransfers.id, id));
+    return transfer;
+  }
 
-    const averageRating = reviewList.length > 0
-      ? reviewList.reduce((sum, review) => sum + review.rating, 0) / reviewList.length
-      : 0;
+  // Draws from the commissary row holding the same protein, preferring one
+  // in the truck's unit. Transfer quantities are always in the truck's unit.
+  async createTransfer(request: CreateTransferRequest, requestedBy?: string): Promise<StockTransfer> {
+    const [destination] = await db
+      .select({ row: proteinInventory, organizationId: foodTrucks.organizationId })
+      .from(proteinInventory)
+      .innerJoin(foodTrucks, eq(proteinInventory.truckId, foodTrucks.id))
+      .where(eq(proteinInventory.id, request.proteinInventoryId));
+    if (!destination) {
+      throw new StockValidationError("Inventory item not found");
+    }
+    const { row, organizationId } = destination;
+    if (row.proteinId === null) {
+      throw new StockValidationError(`${row.proteinType} isn't in the protein catalogue`);
+    }
 
-    // Get active locations count
-    const activeLocationsList = await db
+    const candidates = await db
       .select()
-      .from(locations)
+      .from(commissaryStock)
       .where(
         and(
-          eq(locations.truckId, truckId),
-          eq(locations.isActive, true)
-        )
+          eq(commissaryStock.organizationId, organizationId),
+          eq(commissaryStock.proteinId, row.proteinId),
+        ),
       );
+    const source =
+      candidates.find((candidate) => candidate.unit === row.unit) ??
+      candidates.find((candidate) => canConvert(row.unit, candidate.unit));
+    if (!source) {
+      throw new StockValidationError(`The commissary doesn't stock ${row.proteinType} in a unit that converts to ${row.unit}`);
+    }
 
-    return {
-      todaySales,
-      ordersToday,
-      averageRating: Math.round(averageRating * 10) / 10,
-      activeLocations: activeLocationsList.length,
-    };
+    const [transfer] = await db
+      .insert(stockTransfers)
+      .values({
+        organizationId,
+        commissaryStockId: source.id,
+        truckId: row.truckId,
+        proteinInventoryId: row.id,
+        quantityRequested: request.quantity,
+        notes: request.notes || null,
+        requestedBy: requestedBy ?? null,
+      })
+      .returning();
+    return transfer;
+  }
+
+  // Dispatch takes the stock out of the commissary; receiving puts what
+  // arrived onto the truck and records any difference from what was sent
+  async advanceTransfer(id: number, change: AdvanceTransfer, changedBy?: string): Promise<StockTransfer | undefined> {
+    return await db.transaction(async (tx) => {
+      const [transfer] = await tx
+        .select()
+        .from(stockTransfers)
+        .where(eq(stockTransfers.id, id))
+        .for("update");
+      if (!transfer) {
+        return transfer;
+      }
+      if (!canTransitionTransferStatus(transfer.status, change.status)) {
+        throw new InvalidStatusTransitionError("transfer", transfer.status, change.status);
+      }
+
+      const now = new Date();
+      let fields: Partial<StockTransfer> = {};
+      switch (change.status) {
+        case "approved":
+          fields = { approvedBy: changedBy ?? null, approvedAt: now };
+          break;
+        case "dispatched": {
+          const sent = change.quantity ?? transfer.quantityRequested;
+          if (Number(sent) <= 0) {
+            throw new StockValidationError("Send a quantity above zero");
+          }
+          const [source] = await tx
+            .select()
+            .from(commissaryStock)
+            .where(eq(commissaryStock.id, transfer.commissaryStockId))
+            .for("update");
+          const [destination] = await tx
+            .select({ unit: proteinInventory.unit })
+            .from(proteinInventory)
+            .where(eq(proteinInventory.id, transfer.proteinInventoryId));
+
+          // The commissary may keep this protein in another unit
+          const perTruckUnit = toStockUnit(1, destination.unit, { ...source, packSize: null });
+          const taken = Number(sent) * perTruckUnit;
+          if (Number(source.currentStock) < taken) {
+            throw new StockValidationError(`The commissary only has ${source.currentStock} ${source.unit}`);
+          }
+          await tx.insert(commissaryMovements).values({
+            commissaryStockId: source.id,
+            type: "transfer",
+            quantity: (-taken).toFixed(2),
+            unitCost: source.costPerUnit,
+            reason: `Transfer #${id}`,
+            transferId: id,
+            createdBy: changedBy ?? null,
+          });
+          await tx
+            .update(commissaryStock)
+            .set({ currentStock: sql`${commissaryStock.currentStock} - ${taken.toFixed(2)}`, updatedAt: now })
+            .where(eq(commissaryStock.id, source.id));
+          fields = {
+            quantitySent: sent,
+            unitCost: source.costPerUnit === null ? null : (Number(source.costPerUnit) * perTruckUnit).toFixed(2),
+            dispatchedBy: changedBy ?? null,
+            dispatchedAt: now,
+          };
+          break;
+        }
+        case "received": {
+          const received = change.quantity ?? transfer.quantitySent!;
+          if (Number(received) > 0) {
+            const [row] = await tx
+              .select()
+              .from(proteinInventory)
+              .where(eq(proteinInventory.id, transfer.proteinInventoryId))
+              .for("update");
+            await receiveIntoStock(tx, row, {
+              type: "transfer",
+              quantity: received,
+              unitCost: transfer.unitCost,
+              reason: `Transfer #${id} from the commissary`,
+              transferId: id,
+              createdBy: changedBy ?? null,
+            });
+          }
+          fields = {
+            quantityReceived: received,
+            discrepancy: (Number(transfer.quantitySent) - Number(received)).toFixed(2),
+            receivedBy: changedBy ?? null,
+            receivedAt: now,
+          };
+          break;
+        }
+      }
+
+      const [updated] = await tx
+        .update(stockTransfers)
+        .set({ ...fields, status: change.status, updatedAt: now })
+        .where(eq(stockTransfers.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Supplier operations
+  async getSuppliers(organizationId: number): Promise<Supplier[]> {
+    return await db
+      .select()
+      .from(suppliers)
+      .where(eq(suppliers.organizationId, organizationId))
+      .orderBy(desc(suppliers.isActive), asc(suppliers.name));
+  }
+
+  async getSupplier(id: number): Promise<Supplier | undefined> {
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier;
+  }
+
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    const [newSupplier] = await db.insert(suppliers).values(supplier).returning();
+    return newSupplier;
+  }
+
+  async updateSupplier(id: number, supplier: Partial<InsertSupplier>): Promise<Supplier> {
+    const [updatedSupplier] = await db
+      .update(suppliers)
+      .set({ ...supplier, updatedAt: new Date() })
+      .where(eq(suppliers.id, id))
+      .returning();
+    return updatedSupplier;
+  }
+
+  // Purchase order operations
+  async getPurchaseOrders(truckId: number): Promise<PurchaseOrderWithLines[]> {
+    const orderRows = await db
+      .select({ order: purchaseOrders, supplierName: suppliers.name })
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .where(eq(purchaseOrders.truckId, truckId))
+      .orderBy(desc(purchaseOrders.createdAt), desc(purchaseOrders.id))
+      .limit(50);
+    if (orderRows.length === 0) {
+      return [];
+    }
+
+    const lineRows = await db
+      .select({
+        line: purchaseOrderLines,
+        itemName: proteinInventory.proteinType,
+        unit: proteinInventory.unit,
+      })
+      .from(purchaseOrderLines)
+      .innerJoin(proteinInventory, eq(purchaseOrderLines.proteinInventoryId, proteinInventory.id))
+      .where(inArray(purchaseOrderLines.purchaseOrderId, orderRows.map(({ order }) => order.id)))
+      .orderBy(asc(purchaseOrderLines.id));
+
+    return orderRows.map(({ order, supplierName }) => {
+      const lines = lineRows
+        .filter(({ line }) => line.purchaseOrderId === order.id)
+        .map(({ line, itemName, unit }) => ({ ...line, itemName, unit: line.unit ?? unit }));
+      const total = lines.reduce((sum, line) => sum + Number(line.quantityOrdered) * Number(line.unitCost), 0);
+      return { ...order, supplierName, lines, total: Math.round(total * 100) / 100 };
+    });
+  }
+
+  async getPurchaseOrder(id: number): Promise<PurchaseOrder | undefined> {
+    const [order] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    return order;
+  }
+
+  async createPurchaseOrder(request: CreatePurchaseOrderRequest, createdBy?: string): Promise<PurchaseOrder> {
+    return await db.transaction(async (tx) => {
+      const [supplier] = await tx
+        .select({ organizationId: suppliers.organizationId, isActive: suppliers.isActive })
+        .from(suppliers)
+        .where(eq(suppliers.id, request.supplierId));
+      const [truck] = await tx
+        .select({ organizationId: foodTrucks.organizationId })
+        .from(foodTrucks)
+        .where(eq(foodTrucks.id, request.truckId));
+      if (!supplier || !supplier.isActive || supplier.organizationId !== truck?.organizationId) {
+        throw new StockValidationError("Choose an active supplier from your organization");
+      }
+
+      const ids = request.lines.map((line) => line.proteinInventoryId);
+      const rows = await tx
+        .select()
+        .from(proteinInventory)
+        .where(and(eq(proteinInventory.truckId, request.truckId), inArray(proteinInventory.id, ids)));
+      if (rows.length !== ids.length) {
+        throw new StockValidationError("Every ordered item must belong to this truck");
+      }
+      const rowsById = new Map(rows.map((row) => [row.id, row]));
+      for (const line of request.lines) {
+        const row = rowsById.get(line.proteinInventoryId)!;
+        if (line.unit && !canConvert(line.unit, row.unit, packOf(row))) {
+          throw new StockValidationError(`${row.proteinType} is stocked in ${row.unit} and can't be ordered in ${line.unit}`);
+        }
+      }
+
+      const [order] = await tx
+        .insert(purchaseOrders)
+        .values({
+          truckId: request.truckId,
+          supplierId: request.supplierId,
+          expectedDate: request.expectedDate ?? null,
+          notes: request.notes || null,
+          createdBy: createdBy ?? null,
+        })
+        .returning();
+      await tx.insert(purchaseOrderLines).values(
+        request.lines.map((line) => ({
+          ...line,
+          unit: line.unit ?? rowsById.get(line.proteinInventoryId)!.unit,
+          purchaseOrderId: order.id,
+        })),
+      );
+      return order;
+    });
   }
+
+  async updatePurchaseOrder(id: number, changes: UpdatePurchaseOrder): Promise<PurchaseOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.id, id))
+        .for("update");
+      if (!existing) {
+        return existing;
+      }
+
+      const statusChanged = !!changes.status && changes.status !== existing.status;
+      if (statusChanged && !canTransitionPurchaseOrderStatus(existing.status, changes.status!)) {
+        throw new InvalidStatusTransitionError("purchase order", existing.status, changes.status!);
+      }
+
+      const [updated] = await tx
+        .update(purchaseOrders)
+        .set({
+          ...changes,
+          ...(statusChanged && changes.status === "ordered" ? { orderedAt: new Date() } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Books a delivery: each line is received into stock at the PO's unit
+  // cost, converted from the unit it was ordered in. The order is received
+  // once every line is fully in.
+  async receivePurchaseOrder(id: number, delivery: ReceivePurchaseOrderRequest, receivedBy?: string): Promise<PurchaseOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.id, id))
+        .for("update");
+      if (!order) {
+        return order;
+      }
+      if (order.status !== "ordered" && order.status !== "partially_received") {
+        throw new StockValidationError("Only placed orders can be received");
+      }
+
+      const [supplier] = await tx
+        .select({ name: suppliers.name })
+        .from(suppliers)
+        .where(eq(suppliers.id, order.supplierId));
+      const lines = await tx
+        .select()
+        .from(purchaseOrderLines)
+        .where(eq(purchaseOrderLines.purchaseOrderId, id))
+        .for("update");
+
+      for (const received of delivery.lines) {
+        const line = lines.find((candidate) => candidate.id === received.lineId);
+        if (!line) {
+          throw new StockValidationError("Every received line must be on this order");
+        }
+
+        const [row] = await tx
+          .select()
+          .from(proteinInventory)
+          .where(eq(proteinInventory.id, line.proteinInventoryId))
+          .for("update");
+        await receiveIntoStock(tx, row, inStockUnits({
+          type: "receipt",
+          quantity: received.quantity,
+          unitCost: line.unitCost,
+          reason: `PO #${id}${supplier ? ` from ${supplier.name}` : ""}`,
+          purchaseOrderId: id,
+          createdBy: receivedBy ?? null,
+        }, line.unit, row));
+
+        line.quantityReceived = (Number(line.quantityReceived) + Number(received.quantity)).toFixed(2);
+        await tx
+          .update(purchaseOrderLines)
+          .set({ quantityReceived: line.quantityReceived })
+          .where(eq(purchaseOrderLines.id, line.id));
+      }
+
+      const isComplete = lines.every((line) => Number(line.quantityReceived) >= Number(line.quantityOrdered));
+      const [updated] = await tx
+        .update(purchaseOrders)
+        .set({
+          status: isComplete ? "received" : "partially_received",
+          receivedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Stock count operations
+  async getStockCounts(truckId: number): Promise<StockCountWithLines[]> {
+    const counts = await db
+      .select({
+        count: stockCounts,
+        firstName: users.firstName,
+        lastName: users.lastName,
+      })
+      .from(stockCounts)
+      .leftJoin(users, eq(stockCounts.countedBy, users.id))
+      .where(eq(stockCounts.truckId, truckId))
+      .orderBy(desc(stockCounts.createdAt), desc(stockCounts.id))
+      .limit(50);
+    if (counts.length === 0) {
+      return [];
+    }
+
+    const lines = await db
+      .select()
+      .from(stockCountLines)
+      .where(inArray(stockCountLines.countId, counts.map(({ count }) => count.id)))
+      .orderBy(asc(stockCountLines.proteinType));
+    return counts.map(({ count, firstName, lastName }) =>
+      withCountLines(count, lines.filter((line) => line.countId === count.id), [firstName, lastName]),
+    );
+  }
+
+  // Compares each counted quantity with the stock the ledger expects (the
+  // allocation less what completed orders used, plus any recorded receipts
+  // and waste) and posts the difference as a "count" movement
+  async createStockCount(request: CreateStockCountRequest, countedBy?: string): Promise<StockCountWithLines> {
+    const { count, lines } = await db.transaction(async (tx) => {
+      const ids = request.lines.map((line) => line.proteinInventoryId);
+      const rows = await tx
+        .select()
+        .from(proteinInventory)
+        .where(and(eq(proteinInventory.truckId, request.truckId), inArray(proteinInventory.id, ids)))
+        .for("update");
+      if (rows.length !== ids.length) {
+        throw new StockValidationError("Every counted item must belong to this truck");
+      }
+
+      const [count] = await tx
+        .insert(stockCounts)
+        .values({ truckId: request.truckId, notes: request.notes || null, countedBy: countedBy ?? null })
+        .returning();
+
+      const lines: StockCountLine[] = [];
+      for (const { proteinInventoryId, countedQuantity } of request.lines) {
+        const row = rows.find((candidate) => candidate.id === proteinInventoryId)!;
+        const variance = Math.round((Number(countedQuantity) - Number(row.currentStock)) * 100) / 100;
+        const [line] = await tx
+          .insert(stockCountLines)
+          .values({
+            countId: count.id,
+            proteinInventoryId,
+            proteinType: row.proteinType,
+            unit: row.unit,
+            expectedQuantity: row.currentStock,
+            countedQuantity,
+            variance: variance.toFixed(2),
+            unitCost: row.costPerUnit,
+            varianceValue: row.costPerUnit === null ? null : (variance * Number(row.costPerUnit)).toFixed(2),
+          })
+          .returning();
+        lines.push(line);
+
+        if (variance !== 0) {
+          await applyStockMovement(tx, row, {
+            type: "count",
+            quantity: variance.toFixed(2),
+            reason: `Stock count #${count.id}`,
+            createdBy: countedBy ?? null,
+          });
+        }
+      }
+      return { count, lines };
+    });
+
+    const counter = countedBy ? await this.getUser(countedBy) : undefined;
+    return withCountLines(count, lines, [counter?.firstName, counter?.lastName]);
+  }
+
+  // General inventory operations
+  async getInventoryItem(id: number): Promise<InventoryItem | undefined> {
+    const [item] = await db.select().from(inventoryItems).where(eq(inventoryItems.id, id));
+    return item;
+  }
+
+  async getInventoryItemsByTruckId(truckId: number): Promise<InventoryItem[]> {
+    return await db
+      .select()
+      .from(inventoryItems)
+      .where(eq(inventoryItems.truckId, truckId))
+      .orderBy(asc(inventoryItems.category), asc(inventoryItems.name));
+  }
+
+  async createInventoryItem(item: InsertInventoryItem): Promise<InventoryItem> {
+    const [newItem] = await db
+      .insert(inventoryItems)
+      .values(item)
+      .returning();
+    return newItem;
+  }
+
+  async updateInventoryItem(id: number, item: Partial<InsertInventoryItem>): Promise<InventoryItem> {
+    const [updatedItem] = await db
+      .update(inventoryItems)
+      .set({ ...item, updatedAt: new Date() })
+      .where(eq(inventoryItems.id, id))
+      .returning();
+    return updatedItem;
+  }
+
+  async deleteInventoryItem(id: number): Promise<void> {
+    await db
+      .delete(inventoryItems)
+      .where(eq(inventoryItems.id, id));
+  }
+
+  // Menu operations
+  async getMenuCategories(organizationId: number): Promise<MenuCategory[]> {
+    return await db
+      .select()
+      .from(menuCategories)
+      .where(eq(menuCategories.organizationId, organizationId))
+      .orderBy(asc(menuCategories.sortOrder), asc(menuCategories.name));
+  }
+
+  async getMenuCategory(id: number): Promise<MenuCategory | undefined> {
+    const [category] = await db.select().from(menuCategories).where(eq(menuCategories.id, id));
+    return category;
+  }
+
+  async createMenuCategory(category: InsertMenuCategory): Promise<MenuCategory> {
+    const [newCategory] = await db
+      .insert(menuCategories)
+      .values(category)
+      .returning();
+    return newCategory;
+  }
+
+  async updateMenuCategory(id: number, category: Partial<InsertMenuCategory>): Promise<MenuCategory> {
+    const [updatedCategory] = await db
+      .update(menuCategories)
+      .set(category)
+      .where(eq(menuCategories.id, id))
+      .returning();
+    return updatedCategory;
+  }
+
+  // Items in the category become uncategorized rather than disappearing
+  async deleteMenuCategory(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(menuItems)
+        .set({ categoryId: null })
+        .where(eq(menuItems.categoryId, id));
+      await tx
+        .delete(menuCategories)
+        .where(eq(menuCategories.id, id));
+    });
+  }
+
+  async getMenuItems(organizationId: number, includeArchived = false): Promise<MenuItem[]> {
+    return await db
+      .select()
+      .from(menuItems)
+      .where(
+        and(
+          eq(menuItems.organizationId, organizationId),
+          includeArchived ? undefined : isNull(menuItems.archivedAt)
+        )
+      )
+      .orderBy(asc(menuItems.name));
+  }
+
+  // Menu items from before menus were per organization were shared by every
+  // truck. The oldest organization keeps the originals, so past orders still
+  // point at its items; every other one gets a copy. Each truck then sells
+  // its organization's items, as it did before. Safe to run on every start.
+  async backfillOrganizationMenus(): Promise<void> {
+    await db.transaction(async (tx) => {
+      const legacyItems = await tx
+        .select()
+        .from(menuItems)
+        .where(isNull(menuItems.organizationId))
+        .for("update");
+      const orgs = await tx.select({ id: organizations.id }).from(organizations).orderBy(asc(organizations.id));
+      if (legacyItems.length === 0 || orgs.length === 0) {
+        return;
+      }
+
+      const [oldest, ...others] = orgs;
+      await tx
+        .update(menuItems)
+        .set({ organizationId: oldest.id })
+        .where(inArray(menuItems.id, legacyItems.map((item) => item.id)));
+      const adopted = legacyItems.map((item) => ({ ...item, organizationId: oldest.id }));
+      for (const org of others) {
+        const copies = await tx
+          .insert(menuItems)
+          .values(legacyItems.map(({ id, ...item }) => ({ ...item, organizationId: org.id })))
+          .returning();
+        adopted.push(...copies.map((copy) => ({ ...copy, organizationId: org.id })));
+      }
+
+      const trucks = await tx
+        .select({ id: foodTrucks.id, organizationId: foodTrucks.organizationId })
+        .from(foodTrucks);
+      const links = trucks.flatMap((truck) =>
+        adopted
+          .filter((item) => item.organizationId === truck.organizationId && !item.archivedAt)
+          .map((item) => ({ truckId: truck.id, menuItemId: item.id }))
+      );
+      if (links.length > 0) {
+        await tx.insert(truckMenuItems).values(links).onConflictDoNothing();
+      }
+    });
+  }
+
+  async getMenuItem(id: number): Promise<MenuItem | undefined> {
+    const [item] = await db.select().from(menuItems).where(eq(menuItems.id, id));
+    return item;
+  }
+
+  async createMenuItem(item: InsertMenuItem): Promise<MenuItem> {
+    const [protein] = await db.select().from(proteins).where(eq(proteins.id, item.proteinId));
+    const [newItem] = await db
+      .insert(menuItems)
+      .values({ ...item, proteinType: protein.name })
+      .returning();
+    return newItem;
+  }
+
+  async updateMenuItem(id: number, item: Partial<InsertMenuItem>): Promise<MenuItem> {
+    const protein = item.proteinId === undefined ? undefined : await this.getProtein(item.proteinId);
+    const [updatedItem] = await db
+      .update(menuItems)
+      .set(protein ? { ...item, proteinType: protein.name } : item)
+      .where(eq(menuItems.id, id))
+      .returning();
+    return updatedItem;
+  }
+
+  // Archived items drop off every truck's menu but keep their id, so past
+  // orders and truck overrides still resolve if the item is restored
+  async archiveMenuItem(id: number): Promise<MenuItem> {
+    const [archivedItem] = await db
+      .update(menuItems)
+      .set({ archivedAt: new Date() })
+      .where(eq(menuItems.id, id))
+      .returning();
+    return archivedItem;
+  }
+
+  async restoreMenuItem(id: number): Promise<MenuItem> {
+    const [restoredItem] = await db
+      .update(menuItems)
+      .set({ archivedAt: null })
+      .where(eq(menuItems.id, id))
+      .returning();
+    return restoredItem;
+  }
+
+  async getTruckMenu(truckId: number): Promise<TruckMenuEntry[]> {
+    const rows = await db
+      .select({
+        item: menuItems,
+        assignment: truckMenuItems,
+        categoryName: menuCategories.name,
+      })
+      .from(truckMenuItems)
+      .innerJoin(menuItems, eq(menuItems.id, truckMenuItems.menuItemId))
+      .leftJoin(menuCategories, eq(menuCategories.id, menuItems.categoryId))
+      .where(and(eq(truckMenuItems.truckId, truckId), isNull(menuItems.archivedAt)))
+      .orderBy(asc(menuCategories.sortOrder), asc(menuCategories.name), asc(menuItems.name));
+
+    const itemIds = rows.map(({ item }) => item.id);
+    const groups = itemIds.length === 0 ? [] : await this.loadModifierGroups(
+      inArray(
+        modifierGroups.id,
+        db.select({ id: menuItemModifierGroups.groupId })
+          .from(menuItemModifierGroups)
+          .where(inArray(menuItemModifierGroups.menuItemId, itemIds))
+      )
+    );
+    const recipeRows = itemIds.length === 0 ? [] : await db
+      .select()
+      .from(recipeIngredients)
+      .where(inArray(recipeIngredients.menuItemId, itemIds))
+      .orderBy(asc(recipeIngredients.id));
+
+    // Plate cost uses this truck's own cost for each ingredient, converted
+    // from the unit it is stocked in. Catalogue proteins are costed from
+    // protein inventory, everything else from the general item of that name.
+    const [proteinStock, generalStock] = await Promise.all([
+      this.getProteinInventoryByTruckId(truckId),
+      this.getInventoryItemsByTruckId(truckId),
+    ]);
+    const costedProteins = proteinStock.filter((row) => row.costPerUnit !== null);
+    const costedItems = generalStock.filter((row) => row.costPerUnit !== null);
+
+    return rows.map(({ item, assignment, categoryName }) => {
+      const recipe = effectiveRecipe(item, recipeRows.filter((row) => row.menuItemId === item.id));
+      const lineCosts = recipe.map((line) => {
+        const candidates: { unit: string; packSize: string | null; costPerUnit: string | null }[] =
+          line.proteinId === null
+            ? costedItems.filter((stock) => stock.name.toLowerCase() === line.ingredient)
+            : costedProteins.filter((stock) => stock.proteinId === line.proteinId);
+        const row = matchingStockRow(candidates, line.unit);
+        return row ? Number(row.costPerUnit) * convertQuantity(Number(line.quantity), line.unit, row.unit, packOf(row)) : null;
+      });
+
+      return {
+        ...item,
+        price: assignment.price ?? item.price,
+        basePrice: item.price,
+        priceOverride: assignment.price,
+        isAvailable: assignment.isAvailable && item.isActive !== false,
+        categoryName,
+        modifierGroups: groups
+          .filter((group) => group.menuItemIds.includes(item.id))
+          .map((group) => ({ ...group, options: group.options.filter((option) => option.isActive) })),
+        recipe,
+        plateCost: lineCosts.some((cost) => cost === null)
+          ? null
+          : Math.round(lineCosts.reduce<number>((sum, cost) => sum + cost!, 0) * 100) / 100,
+      };
+    });
+  }
+
+  // Adds the item to the truck's menu, or updates its override if it's already there
+  async setTruckMenuItem(truckId: number, menuItemId: number, settings: TruckMenuItemSettings): Promise<TruckMenuItem> {
+    const changes = Object.fromEntries(
+      Object.entries(settings).filter(([, value]) => value !== undefined)
+    ) as TruckMenuItemSettings;
+
+    const [assignment] = await db
+      .insert(truckMenuItems)
+      .values({ truckId, menuItemId, ...changes })
+      .onConflictDoUpdate({
+        target: [truckMenuItems.truckId, truckMenuItems.menuItemId],
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+    return assignment;
+  }
+
+  async removeTruckMenuItem(truckId: number, menuItemId: number): Promise<void> {
+    await db
+      .delete(truckMenuItems)
+      .where(and(eq(truckMenuItems.truckId, truckId), eq(truckMenuItems.menuItemId, menuItemId)));
+  }
+
+  // Modifier operations
+  async getModifierGroups(organizationId: number): Promise<ModifierGroupWithOptions[]> {
+    return this.loadModifierGroups(eq(modifierGroups.organizationId, organizationId));
+  }
+
+  async getModifierGroup(id: number): Promise<ModifierGroup | undefined> {
+    const [group] = await db.select().from(modifierGroups).where(eq(modifierGroups.id, id));
+    return group;
+  }
+
+  async createModifierGroup(group: InsertModifierGroup): Promise<ModifierGroup> {
+    const [newGroup] = await db
+      .insert(modifierGroups)
+      .values(group)
+      .returning();
+    return newGroup;
+  }
+
+  async updateModifierGroup(id: number, group: Partial<InsertModifierGroup>): Promise<ModifierGroup> {
+    const [updatedGroup] = await db
+      .update(modifierGroups)
+      .set(group)
+      .where(eq(modifierGroups.id, id))
+      .returning();
+    return updatedGroup;
+  }
+
+  // Past orders keep their own copy of the modifiers, so removing a group is safe
+  async deleteModifierGroup(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(menuItemModifierGroups).where(eq(menuItemModifierGroups.groupId, id));
+      await tx.delete(modifierOptions).where(eq(modifierOptions.groupId, id));
+      await tx.delete(modifierGroups).where(eq(modifierGroups.id, id));
+    });
+  }
+
+  async setModifierGroupMenuItems(groupId: number, menuItemIds: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(menuItemModifierGroups).where(eq(menuItemModifierGroups.groupId, groupId));
+      if (menuItemIds.length > 0) {
+        await tx
+          .insert(menuItemModifierGroups)
+          .values(menuItemIds.map((menuItemId) => ({ menuItemId, groupId })));
+      }
+    });
+  }
+
+  async getModifierOption(id: number): Promise<ModifierOption | undefined> {
+    const [option] = await db.select().from(modifierOptions).where(eq(modifierOptions.id, id));
+    return option;
+  }
+
+  async createModifierOption(option: InsertModifierOption): Promise<ModifierOption> {
+    const [newOption] = await db
+      .insert(modifierOptions)
+      .values({ ...option, proteinType: await this.proteinName(option.proteinId) })
+      .returning();
+    return newOption;
+  }
+
+  async updateModifierOption(id: number, option: Partial<InsertModifierOption>): Promise<ModifierOption> {
+    const [updatedOption] = await db
+      .update(modifierOptions)
+      .set(option.proteinId === undefined ? option : { ...option, proteinType: await this.proteinName(option.proteinId) })
+      .where(eq(modifierOptions.id, id))
+      .returning();
+    return updatedOption;
+  }
+
+  // The catalogue name copied onto a modifier option; null for the menu item's own protein
+  private async proteinName(proteinId: number | null | undefined): Promise<string | null> {
+    return proteinId ? (await this.getProtein(proteinId))?.name ?? null : null;
+  }
+
+  async deleteModifierOption(id: number): Promise<void> {
+    await db
+      .delete(modifierOptions)
+      .where(eq(modifierOptions.id, id));
+  }
+
+  // Recipe operations
+  async getRecipe(menuItemId: number): Promise<RecipeIngredient[]> {
+    return await db
+      .select()
+      .from(recipeIngredients)
+      .where(eq(recipeIngredients.menuItemId, menuItemId))
+      .orderBy(asc(recipeIngredients.id));
+  }
+
+  // Replaces the whole recipe; an empty list puts the item back on its
+  // single protein. Ingredients named after a catalogue protein are linked to
+  // it by id; the rest are general inventory items. Each ingredient's unit
+  // has to convert to the unit at least one truck stocks it in, if any truck
+  // stocks it.
+  async setRecipe(menuItemId: number, ingredients: Omit<InsertRecipeIngredient, "menuItemId">[]): Promise<RecipeIngredient[]> {
+    return await db.transaction(async (tx) => {
+      const catalogue = await tx
+        .select({ id: proteins.id, name: proteins.name })
+        .from(proteins)
+        .innerJoin(menuItems, eq(menuItems.organizationId, proteins.organizationId))
+        .where(eq(menuItems.id, menuItemId));
+      const lines = ingredients.map((line) => ({
+        ...line,
+        proteinId: catalogue.find((protein) => protein.name === line.ingredient)?.id ?? null,
+      }));
+
+      const proteinIds = lines.flatMap((line) => (line.proteinId === null ? [] : [line.proteinId]));
+      const names = lines.filter((line) => line.proteinId === null).map((line) => line.ingredient);
+      const orgTrucks = tx
+        .select({ id: foodTrucks.id })
+        .from(foodTrucks)
+        .innerJoin(menuItems, eq(menuItems.organizationId, foodTrucks.organizationId))
+        .where(eq(menuItems.id, menuItemId));
+      const stockedProteins = proteinIds.length === 0 ? [] : await tx
+        .select({ proteinId: proteinInventory.proteinId, unit: proteinInventory.unit, packSize: proteinInventory.packSize })
+        .from(proteinInventory)
+        .where(and(inArray(proteinInventory.truckId, orgTrucks), inArray(proteinInventory.proteinId, proteinIds)));
+      const stockedItems = names.length === 0 ? [] : await tx
+        .select({ name: sql<string>`lower(${inventoryItems.name})`, unit: inventoryItems.unit, packSize: inventoryItems.packSize })
+        .from(inventoryItems)
+        .where(and(inArray(inventoryItems.truckId, orgTrucks), inArray(sql`lower(${inventoryItems.name})`, names)));
+      for (const line of lines) {
+        const unit = line.unit ?? "lbs";
+        const rows: { unit: string; packSize: string | null }[] =
+          line.proteinId === null
+            ? stockedItems.filter((row) => row.name === line.ingredient)
+            : stockedProteins.filter((row) => row.proteinId === line.proteinId);
+        if (rows.length > 0 && !matchingStockRow(rows, unit)) {
+          const stockedUnits = Array.from(new Set(rows.map((row) => row.unit))).join(" or ");
+          throw new StockValidationError(`${line.ingredient} is stocked in ${stockedUnits}, which ${unit} doesn't convert to`);
+        }
+      }
+
+      await tx.delete(recipeIngredients).where(eq(recipeIngredients.menuItemId, menuItemId));
+      if (lines.length === 0) {
+        return [];
+      }
+      return await tx
+        .insert(recipeIngredients)
+        .values(lines.map((line) => ({ ...line, menuItemId })))
+        .returning();
+    });
+  }
+
+  private async loadModifierGroups(where: SQL): Promise<ModifierGroupWithOptions[]> {
+    const groups = await db
+      .select()
+      .from(modifierGroups)
+      .where(where)
+      .orderBy(asc(modifierGroups.sortOrder), asc(modifierGroups.name));
+    if (groups.length === 0) {
+      return [];
+    }
+
+    const groupIds = groups.map((group) => group.id);
+    const options = await db
+      .select()
+      .from(modifierOptions)
+      .where(inArray(modifierOptions.groupId, groupIds))
+      .orderBy(asc(modifierOptions.sortOrder), asc(modifierOptions.id));
+    const links = await db
+      .select()
+      .from(menuItemModifierGroups)
+      .where(inArray(menuItemModifierGroups.groupId, groupIds));
+
+    return groups.map((group) => ({
+      ...group,
+      options: options.filter((option) => option.groupId === group.id),
+      menuItemIds: links.filter((link) => link.groupId === group.id).map((link) => link.menuItemId),
+    }));
+  }
+
+  // Order operations
+  // Keyset pagination: the cursor carries the last row's sort value and id,
+  // so pages stay stable while new orders keep coming in
+  async searchOrders(truckId: number, filters: OrderSearchFilters): Promise<OrderPage> {
+    const { column, type } = ORDER_SORT_KEYS[filters.sortBy];
+    const direction = filters.sortOrder === "asc" ? asc : desc;
+    const conditions: SQL[] = [eq(orders.truckId, truckId)];
+
+    if (filters.statuses?.length) {
+      conditions.push(inArray(orders.status, filters.statuses));
+    }
+    if (filters.locationId) {
+      conditions.push(eq(orders.locationId, filters.locationId));
+    }
+    if (filters.query) {
+      const pattern = `%${filters.query.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+      conditions.push(or(ilike(orders.customerName, pattern), ilike(orders.orderNumber, pattern))!);
+    }
+    if (filters.from || filters.to) {
+      const timeZone = await this.getTruckTimeZone(truckId);
+      const localCreatedAt = sql`(${orders.createdAt} at time zone 'UTC') at time zone ${timeZone}`;
+      if (filters.from) {
+        conditions.push(sql`${localCreatedAt} >= ${filters.from}::date`);
+      }
+      if (filters.to) {
+        conditions.push(sql`${localCreatedAt} < ${filters.to}::date + 1`);
+      }
+    }
+    if (filters.cursor) {
+      const [value, id] = decodeOrderCursor(filters.cursor);
+      const comparison = filters.sortOrder === "asc" ? sql.raw(">") : sql.raw("<");
+      conditions.push(
+        sql`(${column}, ${orders.id}) ${comparison} (cast(${value} as ${sql.raw(type)}), ${id})`
+      );
+    }
+
+    const rows = await db
+      .select({ order: orders, sortValue: sql<string>`${column}::text` })
+      .from(orders)
+      .where(and(...conditions))
+      .orderBy(direction(column), direction(orders.id))
+      .limit(filters.limit + 1);
+
+    const page = rows.slice(0, filters.limit);
+    const last = page[page.length - 1];
+    return {
+      orders: page.map((row) => row.order),
+      nextCursor: rows.length > filters.limit ? encodeOrderCursor(last.sortValue, last.order.id) : null,
+    };
+  }
+
+  async getOpenOrdersByTruckId(truckId: number): Promise<Order[]> {
+    // Oldest first so the kitchen works tickets in the order they came in
+    return await db
+      .select()
+      .from(orders)
+      .where(
+        and(
+          eq(orders.truckId, truckId),
+          inArray(orders.status, OPEN_ORDER_STATUSES)
+        )
+      )
+      .orderBy(orders.createdAt);
+  }
+
+  async getOrder(id: number): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, id));
+    return order;
+  }
+
+  async createOrder(order: InsertOrder, createdBy?: string): Promise<Order> {
+    return await db.transaction(async (tx) => {
+      const [newOrder] = await tx
+        .insert(orders)
+        .values(order)
+        .returning();
+      await tx.insert(orderStatusHistory).values({
+        orderId: newOrder.id,
+        fromStatus: null,
+        toStatus: newOrder.status,
+        changedBy: createdBy ?? null,
+      });
+      return newOrder;
+    });
+  }
+
+  async placeOrder(truckId: number, request: CreateOrderRequest, placedBy?: string): Promise<Order> {
+    // Price from this truck's menu, so overrides and 86'd items are honored
+    const menu = await this.getTruckMenu(truckId);
+    const menuById = new Map(
+      menu.filter((item) => item.isAvailable).map((item) => [item.id, item])
+    );
+
+    // Work in cents so totals don't drift from floating point error
+    let totalCents = 0;
+    const lineItems: OrderLineItem[] = request.items.map(({ menuItemId, quantity, modifierOptionIds }) => {
+      const menuItem = menuById.get(menuItemId);
+      if (!menuItem) {
+        throw new OrderValidationError(`Menu item ${menuItemId} is not available`);
+      }
+      const modifiers = resolveModifiers(menuItem, modifierOptionIds, quantity);
+      const ingredients: OrderLineIngredient[] = menuItem.recipe.map((line) => ({
+        ingredient: line.ingredient,
+        proteinId: line.proteinId,
+        unit: line.unit,
+        quantity: Number(line.quantity) * quantity,
+      }));
+      const unitCents = Math.max(
+        0,
+        Math.round(Number(menuItem.price) * 100) +
+          modifiers.reduce((sum, modifier) => sum + Math.round(modifier.priceDelta * 100), 0)
+      );
+      totalCents += unitCents * quantity;
+      return {
+        menuItemId,
+        name: menuItem.name,
+        quantity,
+        unitPrice: unitCents / 100,
+        lineTotal: (unitCents * quantity) / 100,
+        proteinId: menuItem.proteinId,
+        proteinType: menuItem.proteinType,
+        proteinUsed: ingredients
+          .filter((usage) => usage.proteinId !== null && usage.proteinId === menuItem.proteinId && canConvert(usage.unit, "lbs"))
+          .reduce((sum, usage) => sum + convertQuantity(usage.quantity, usage.unit, "lbs"), 0),
+        modifiers,
+        ingredients,
+      };
+    });
+
+    // Attach the truck's current spot unless the cashier picked one explicitly
+    const truckLocations = await this.getLocationsByTruckId(truckId);
+    let locationId: number | null = null;
+    if (request.locationId) {
+      if (!truckLocations.some((location) => location.id === request.locationId)) {
+        throw new OrderValidationError("Location does not belong to this truck");
+      }
+      locationId = request.locationId;
+    } else {
+      locationId = truckLocations.find((location) => location.isActive)?.id ?? null;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.createOrder({
+          truckId,
+          orderNumber: generateOrderNumber(),
+          customerName: request.customerName || null,
+          items: lineItems,
+          totalAmount: (totalCents / 100).toFixed(2),
+          status: "pending",
+          locationId,
+        }, placedBy);
+      } catch (error) {
+        if (attempt >= ORDER_NUMBER_ATTEMPTS || !isOrderNumberTaken(error)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async updateOrder(id: number, change: UpdateOrder, changedBy?: string): Promise<Order | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, id))
+        .for("update");
+      if (!existing) {
+        return existing;
+      }
+
+      const { status } = change;
+      if (status !== existing.status) {
+        if (!canTransitionOrderStatus(existing.status, status)) {
+          throw new InvalidStatusTransitionError("order", existing.status, status);
+        }
+        await tx.insert(orderStatusHistory).values({
+          orderId: id,
+          fromStatus: existing.status,
+          toStatus: status,
+          changedBy: changedBy ?? null,
+        });
+      }
+
+      // Deduct protein once when an order is completed, and give back exactly
+      // what was taken if a completed order is later cancelled or refunded
+      let inventoryDeducted = existing.inventoryDeducted;
+      const items = existing.items as OrderLineItem[];
+      if (status === "completed" && !inventoryDeducted) {
+        await this.applyProteinUsage(tx, existing, items, 1, changedBy);
+        inventoryDeducted = true;
+      } else if (REVERSING_ORDER_STATUSES.includes(status) && inventoryDeducted) {
+        await this.applyProteinUsage(tx, existing, items, -1, changedBy);
+        inventoryDeducted = false;
+      }
+
+      const [updatedOrder] = await tx
+        .update(orders)
+        .set({ status, inventoryDeducted, updatedAt: new Date() })
+        .where(eq(orders.id, id))
+        .returning();
+      return updatedOrder;
+    });
+  }
+
+  async getOrderStatusHistory(orderId: number): Promise<OrderStatusHistoryEntry[]> {
+    const rows = await db
+      .select({
+        entry: orderStatusHistory,
+        firstName: users.firstName,
+        lastName: users.lastName,
+      })
+      .from(orderStatusHistory)
+      .leftJoin(users, eq(orderStatusHistory.changedBy, users.id))
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(orderStatusHistory.createdAt);
+
+    return rows.map(({ entry, firstName, lastName }) => ({
+      ...entry,
+      changedByName: [firstName, lastName].filter(Boolean).join(" ") || null,
+    }));
+  }
+
+  // Moves every ingredient between currentStock and usedAmount for the
+  // line items. direction 1 consumes stock, -1 returns it.
+  private async applyProteinUsage(
+    tx: Transaction,
+    order: Order,
+    items: OrderLineItem[],
+    direction: 1 | -1,
+    changedBy?: string,
+  ): Promise<void> {
+    const truckId = order.truckId;
+    const usageByStock = new Map<string, { ingredient: string; proteinId: number | null; unit: string; used: number }>();
+    for (const usage of items.flatMap(lineIngredients)) {
+      const used = Number(usage.quantity) || 0;
+      if ((usage.proteinId === null && !usage.ingredient) || used <= 0) {
+        continue;
+      }
+      const key = stockKey(usage, usage.unit);
+      const existing = usageByStock.get(key);
+      if (existing) {
+        existing.used += used;
+      } else {
+        usageByStock.set(key, { ingredient: usage.ingredient, proteinId: usage.proteinId, unit: usage.unit, used });
+      }
+    }
+
+    // Catalogue proteins come out of this truck's rows for that protein, and
+    // anything else out of the general inventory item of the same name,
+    // converted into the unit that stock is kept in
+    for (const { ingredient, proteinId, unit, used } of Array.from(usageByStock.values())) {
+      if (proteinId !== null) {
+        const proteinRows = await tx
+          .select()
+          .from(proteinInventory)
+          .where(and(eq(proteinInventory.truckId, truckId), eq(proteinInventory.proteinId, proteinId)))
+          .for("update");
+        const proteinRow = matchingStockRow(proteinRows, unit);
+        if (!proteinRow) {
+          continue;
+        }
+        const inStock = convertQuantity(used, unit, proteinRow.unit, packOf(proteinRow));
+        await applyStockMovement(tx, proteinRow, {
+          type: "sale",
+          quantity: (-inStock * direction).toFixed(2),
+          reason: direction === 1 ? null : `Order #${order.orderNumber} reversed`,
+          orderId: order.id,
+          createdBy: changedBy ?? null,
+        });
+        continue;
+      }
+
+      const itemRows = await tx
+        .select()
+        .from(inventoryItems)
+        .where(and(eq(inventoryItems.truckId, truckId), sql`lower(${inventoryItems.name}) = ${ingredient}`));
+      const item = matchingStockRow(itemRows, unit);
+      if (!item) {
+        continue;
+      }
+      const amount = (convertQuantity(used, unit, item.unit, packOf(item)) * direction).toFixed(2);
+      await tx
+        .update(inventoryItems)
+        .set({
+          currentStock: sql`${inventoryItems.currentStock} - ${amount}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(inventoryItems.id, item.id));
+    }
+  }
+
+  // Review operations
+  async getReviewsByTruckId(truckId: number): Promise<Review[]> {
+    return await db
+      .select()
+      .from(reviews)
+      .where(eq(reviews.truckId, truckId))
+      .orderBy(desc(reviews.createdAt));
+  }
+
+  async createReview(review: InsertReview): Promise<Review> {
+    const [newReview] = await db
+      .insert(reviews)
+      .values(review)
+      .returning();
+    return newReview;
+  }
+
+  // Dashboard stats
+  async getDashboardStats(truckId: number): Promise<BusinessMetrics> {
+    return this.computeDashboardStats([truckId]);
+  }
+
+  // Rolls every truck in the organization up into one set of stats
+  async getOrganizationDashboardStats(organizationId: number): Promise<BusinessMetrics> {
+    const trucks = await this.getFoodTrucksByOrganizationId(organizationId);
+    return this.computeDashboardStats(trucks.map((truck) => truck.id));
+  }
+
+  async getFleetPerformance(organizationId: number, from: Date, to: Date): Promise<TruckPerformance[]> {
+    const trucks = await this.getFoodTrucksByOrganizationId(organizationId);
+    if (trucks.length === 0) {
+      return [];
+    }
+    const truckIds = trucks.map((truck) => truck.id);
+
+    const salesRows = await db
+      .select({
+        truckId: orders.truckId,
+        revenue: sum(orders.totalAmount),
+        orderCount: count(),
+      })
+      .from(orders)
+      .where(
+        and(
+          inArray(orders.truckId, truckIds),
+          eq(orders.status, "completed"),
+          gte(orders.createdAt, from),
+          lt(orders.createdAt, to)
+        )
+      )
+      .groupBy(orders.truckId);
+
+    const ratingRows = await db
+      .select({
+        truckId: reviews.truckId,
+        averageRating: avg(reviews.rating),
+        reviewCount: count(),
+      })
+      .from(reviews)
+      .where(
+        and(
+          inArray(reviews.truckId, truckIds),
+          gte(reviews.createdAt, from),
+          lt(reviews.createdAt, to)
+        )
+      )
+      .groupBy(reviews.truckId);
+
+    // Ingredient cost of what was sold: each line's recipe usage (or its lbs
+    // of protein on orders placed before recipes), plus any extra protein
+    // from its modifiers, at the truck's cost per unit
+    const proteinCostRows = await db.execute<{ truck_id: number; protein_cost: string | null }>(sql`
+      select o.truck_id, sum(usage.quantity * coalesce(pi.cost, ii.cost, 0)) as protein_cost
+      from ${orders} o
+      cross join lateral jsonb_array_elements(o.items) item
+      cross join lateral (
+        select
+          ingredient->>'ingredient' as ingredient,
+          (ingredient->>'proteinId')::int as protein_id,
+          ingredient->>'unit' as unit,
+          (ingredient->>'quantity')::numeric as quantity
+        from jsonb_array_elements(coalesce(item->'ingredients', '[]'::jsonb)) ingredient
+        union all
+        select item->>'proteinType', (item->>'proteinId')::int, 'lbs', (item->>'proteinUsed')::numeric
+        where item->'ingredients' is null
+        union all
+        select modifier->>'proteinType', (modifier->>'proteinId')::int, 'lbs', (modifier->>'proteinUsed')::numeric
+        from jsonb_array_elements(coalesce(item->'modifiers', '[]'::jsonb)) modifier
+      ) usage
+      ${ingredientCostJoins()}
+      where o.truck_id in (${sql.join(truckIds.map((id) => sql`${id}`), sql`, `)})
+        and o.status = 'completed'
+        and o.created_at >= ${from}
+        and o.created_at < ${to}
+      group by o.truck_id
+    `);
+
+    const salesByTruck = new Map(salesRows.map((row) => [row.truckId, row]));
+    const ratingsByTruck = new Map(ratingRows.map((row) => [row.truckId, row]));
+    const proteinCostByTruck = new Map(
+      proteinCostRows.rows.map((row) => [Number(row.truck_id), Number(row.protein_cost ?? 0)])
+    );
+
+    return trucks.map((truck) => {
+      const sales = salesByTruck.get(truck.id);
+      const ratings = ratingsByTruck.get(truck.id);
+      const revenue = Number(sales?.revenue ?? 0);
+      const orderCount = sales?.orderCount ?? 0;
+      return {
+        truckId: truck.id,
+        truckName: truck.name,
+        revenue,
+        orderCount,
+        averageTicket: orderCount > 0 ? Math.round((revenue / orderCount) * 100) / 100 : 0,
+        averageRating: Math.round(Number(ratings?.averageRating ?? 0) * 10) / 10,
+        reviewCount: ratings?.reviewCount ?? 0,
+        proteinCost: Math.round((proteinCostByTruck.get(truck.id) ?? 0) * 100) / 100,
+      };
+    });
+  }
+
+  async getWasteReport(organizationId: number, from: Date, to: Date): Promise<WasteReportRow[]> {
+    const result = await db.execute<{
+      truck_id: number;
+      truck_name: string;
+      week: string;
+      reason_code: string;
+      unit: string;
+      entries: string;
+      quantity: string;
+      cost: string;
+    }>(sql`
+      select
+        w.truck_id,
+        t.name as truck_name,
+        to_char(
+          date_trunc('week', (w.created_at at time zone 'UTC') at time zone coalesce(t.timezone, org.timezone)),
+          'YYYY-MM-DD'
+        ) as week,
+        w.reason_code,
+        w.unit,
+        count(*) as entries,
+        sum(w.quantity) as quantity,
+        sum(w.quantity * coalesce(w.unit_cost, 0)) as cost
+      from ${wasteLogs} w
+      join ${foodTrucks} t on t.id = w.truck_id
+      join ${organizations} org on org.id = t.organization_id
+      where t.organization_id = ${organizationId}
+        and w.created_at >= ${from}
+        and w.created_at < ${to}
+      group by w.truck_id, t.name, week, w.reason_code, w.unit
+      order by week desc, t.name, cost desc
+    `);
+
+    return result.rows.map((row) => ({
+      truckId: Number(row.truck_id),
+      truckName: row.truck_name,
+      week: row.week,
+      reasonCode: row.reason_code,
+      unit: row.unit,
+      entries: Number(row.entries),
+      quantity: Number(row.quantity),
+      cost: Math.round(Number(row.cost) * 100) / 100,
+    }));
+  }
+
+  async getFoodCostReport(organizationId: number, from: Date, to: Date): Promise<TruckFoodCost[]> {
+    const trucks = await this.getFoodTrucksByOrganizationId(organizationId);
+    if (trucks.length === 0) {
+      return [];
+    }
+    const truckIds = trucks.map((truck) => truck.id);
+
+    // Each sold line costed the same way as the fleet's protein cost, split
+    // into ingredients kept in protein inventory and everything else
+    const soldRows = await db.execute<{
+      truck_id: number;
+      menu_item_id: number;
+      name: string;
+      quantity: string;
+      revenue: string;
+      protein_cost: string;
+      other_cost: string;
+    }>(sql`
+      select
+        o.truck_id,
+        (item->>'menuItemId')::int as menu_item_id,
+        max(item->>'name') as name,
+        sum((item->>'quantity')::numeric) as quantity,
+        sum((item->>'lineTotal')::numeric) as revenue,
+        sum(line_cost.protein_cost) as protein_cost,
+        sum(line_cost.other_cost) as other_cost
+      from ${orders} o
+      cross join lateral jsonb_array_elements(o.items) item
+      cross join lateral (
+        select
+          coalesce(sum(usage.quantity * pi.cost), 0) as protein_cost,
+          coalesce(sum(case when pi.id is null then usage.quantity * coalesce(ii.cost, 0) end), 0) as other_cost
+        from (
+          select
+            ingredient->>'ingredient' as ingredient,
+            (ingredient->>'proteinId')::int as protein_id,
+            ingredient->>'unit' as unit,
+            (ingredient->>'quantity')::numeric as quantity
+          from jsonb_array_elements(coalesce(item->'ingredients', '[]'::jsonb)) ingredient
+          union all
+          select item->>'proteinType', (item->>'proteinId')::int, 'lbs', (item->>'proteinUsed')::numeric
+          where item->'ingredients' is null
+          union all
+          select modifier->>'proteinType', (modifier->>'proteinId')::int, 'lbs', (modifier->>'proteinUsed')::numeric
+          from jsonb_array_elements(coalesce(item->'modifiers', '[]'::jsonb)) modifier
+        ) usage
+        ${ingredientCostJoins()}
+      ) line_cost
+      where o.truck_id in (${sql.join(truckIds.map((id) => sql`${id}`), sql`, `)})
+        and o.status = 'completed'
+        and o.created_at >= ${from}
+        and o.created_at < ${to}
+      group by o.truck_id, menu_item_id
+    `);
+
+    // Stock that left the protein ledger, at the cost it moved at. Reversed
+    // sales and stock found on a count net off against the rest.
+    const ledgerRows = await db
+      .select({
+        truckId: stockMovements.truckId,
+        type: stockMovements.type,
+        cost: sql<string>`-sum(${stockMovements.quantity} * coalesce(${stockMovements.unitCost}, 0))`,
+      })
+      .from(stockMovements)
+      .where(
+        and(
+          inArray(stockMovements.truckId, truckIds),
+          inArray(stockMovements.type, ["sale", "waste", "count", "adjustment"]),
+          gte(stockMovements.createdAt, from),
+          lt(stockMovements.createdAt, to)
+        )
+      )
+      .groupBy(stockMovements.truckId, stockMovements.type);
+
+    return await Promise.all(trucks.map(async (truck) => {
+      const menu = await this.getTruckMenu(truck.id);
+      const sold = new Map(
+        soldRows.rows
+          .filter((row) => Number(row.truck_id) === truck.id)
+          .map((row) => [Number(row.menu_item_id), row])
+      );
+
+      const items: MenuItemFoodCost[] = menu.map((entry) => {
+        const price = Number(entry.price);
+        const margin = entry.plateCost === null ? null : roundQuantity(price - entry.plateCost);
+        const sales = sold.get(entry.id);
+        sold.delete(entry.id);
+        return {
+          menuItemId: entry.id,
+          name: entry.name,
+          price,
+          plateCost: entry.plateCost,
+          margin,
+          marginPercent: margin === null || price <= 0 ? null : Math.round((margin / price) * 1000) / 10,
+          quantitySold: Number(sales?.quantity ?? 0),
+          revenue: roundQuantity(Number(sales?.revenue ?? 0)),
+          theoreticalCost: roundQuantity(Number(sales?.protein_cost ?? 0) + Number(sales?.other_cost ?? 0)),
+        };
+      });
+      for (const [menuItemId, sales] of Array.from(sold.entries())) {
+        items.push({
+          menuItemId,
+          name: sales.name,
+          price: null,
+          plateCost: null,
+          margin: null,
+          marginPercent: null,
+          quantitySold: Number(sales.quantity),
+          revenue: roundQuantity(Number(sales.revenue)),
+          theoreticalCost: roundQuantity(Number(sales.protein_cost) + Number(sales.other_cost)),
+        });
+      }
+
+      const truckSales = soldRows.rows.filter((row) => Number(row.truck_id) === truck.id);
+      const revenue = truckSales.reduce((total, row) => total + Number(row.revenue), 0);
+      const theoreticalProteinCost = truckSales.reduce((total, row) => total + Number(row.protein_cost), 0);
+      const theoreticalCost = theoreticalProteinCost + truckSales.reduce((total, row) => total + Number(row.other_cost), 0);
+
+      const ledger = ledgerRows.filter((row) => row.truckId === truck.id);
+      const ledgerCost = (...types: string[]) =>
+        ledger.filter((row) => types.includes(row.type)).reduce((total, row) => total + Number(row.cost), 0);
+      const actualCost = ledgerCost("sale", "waste", "count", "adjustment");
+      const gap = actualCost - theoreticalProteinCost;
+
+      return {
+        truckId: truck.id,
+        truckName: truck.name,
+        revenue: roundQuantity(revenue),
+        theoreticalCost: roundQuantity(theoreticalCost),
+        theoreticalMargin: roundQuantity(revenue - theoreticalCost),
+        theoreticalMarginPercent: revenue > 0 ? Math.round(((revenue - theoreticalCost) / revenue) * 1000) / 10 : null,
+        theoreticalProteinCost: roundQuantity(theoreticalProteinCost),
+        actualCost: roundQuantity(actualCost),
+        actualSalesCost: roundQuantity(ledgerCost("sale")),
+        actualWasteCost: roundQuantity(ledgerCost("waste")),
+        actualVarianceCost: roundQuantity(ledgerCost("count", "adjustment")),
+        gap: roundQuantity(gap),
+        gapPercent: theoreticalProteinCost > 0 ? Math.round((gap / theoreticalProteinCost) * 1000) / 10 : null,
+        items: items.sort((a, b) => b.revenue - a.revenue || a.name.localeCompare(b.name)),
+      };
+    }));
+  }
+
+  async getSalesSeries(truckId: number, query: SalesSeriesQuery): Promise<SalesBucket[]> {
+    const { granularity, from, to, days, timeZone } = query;
+
+    // Buckets come from generate_series so empty hours/days still show up as zero
+    const result = await db.execute<{ bucket: string; revenue: string; orders: string }>(sql`
+      with params as (
+        select tz, coalesce(${to ?? null}::date, (now() at time zone tz)::date) as to_date
+        from (
+          select coalesce(${timeZone ?? null}::text, t.timezone, org.timezone) as tz
+          from ${foodTrucks} t
+          join ${organizations} org on org.id = t.organization_id
+          where t.id = ${truckId}
+        ) truck_zone
+      ),
+      bounds as (
+        select tz, coalesce(${from ?? null}::date, to_date - ${days - 1}::int) as from_date, to_date
+        from params
+      ),
+      buckets as (
+        select generate_series(
+          date_trunc(${granularity}, from_date::timestamp),
+          to_date::timestamp + interval '1 day' - interval '1 second',
+          ${`1 ${granularity}`}::interval
+        ) as bucket
+        from bounds
+      ),
+      sales as (
+        select
+          date_trunc(${granularity}, (o.created_at at time zone 'UTC') at time zone bounds.tz) as bucket,
+          o.total_amount
+        from ${orders} o, bounds
+        where o.truck_id = ${truckId}
+          and o.status = 'completed'
+          and (o.created_at at time zone 'UTC') at time zone bounds.tz >= bounds.from_date
+          and (o.created_at at time zone 'UTC') at time zone bounds.tz < bounds.to_date + 1
+      )
+      select
+        to_char(b.bucket, 'YYYY-MM-DD"T"HH24:MI:SS') as bucket,
+        coalesce(sum(s.total_amount), 0) as revenue,
+        count(s.bucket) as orders
+      from buckets b
+      left join sales s on s.bucket = b.bucket
+      group by b.bucket
+      order by b.bucket
+    `);
+
+    return result.rows.map((row) => {
+      const revenue = Number(row.revenue);
+      const orderCount = Number(row.orders);
+      return {
+        bucket: row.bucket,
+        revenue,
+        orders: orderCount,
+        averageTicket: orderCount > 0 ? Math.round((revenue / orderCount) * 100) / 100 : 0,
+      };
+    });
+  }
+
+  private async computeDashboardStats(truckIds: number[]): Promise<BusinessMetrics> {
+    if (truckIds.length === 0) {
+      return emptyBusinessMetrics();
+    }
+    const truckIdList = sql.join(truckIds.map((id) => sql`${id}`), sql`, `);
+
+    // Completed orders with their time on the truck's local clock. created_at
+    // is stored as UTC without a zone, hence the double conversion.
+    const localOrders = sql`
+      select
+        o.truck_id,
+        o.total_amount,
+        o.items,
+        lower(trim(o.customer_name)) as customer,
+        (o.created_at at time zone 'UTC') at time zone coalesce(t.timezone, org.timezone) as local_at,
+        now() at time zone coalesce(t.timezone, org.timezone) as local_now
+      from ${orders} o
+      join ${foodTrucks} t on t.id = o.truck_id
+      join ${organizations} org on org.id = t.organization_id
+      where o.truck_id in (${truckIdList}) and o.status = 'completed'
+    `;
+
+    const periodResult = await db.execute<Record<string, string | null>>(sql`
+      with local_orders as (${localOrders}),
+      periods as (
+        select *,
+          local_at >= date_trunc('day', local_now) as is_today,
+          local_at >= date_trunc('day', local_now) - interval '1 day'
+            and local_at < local_now - interval '1 day' as is_yesterday,
+          local_at >= date_trunc('week', local_now) as is_this_week,
+          local_at >= date_trunc('week', local_now) - interval '1 week'
+            and local_at < local_now - interval '1 week' as is_last_week,
+          local_at >= date_trunc('month', local_now) as is_this_month,
+          local_at >= date_trunc('month', local_now) - interval '1 month'
+            and local_at < local_now - interval '1 month' as is_last_month
+        from local_orders
+        where local_at >= date_trunc('month', local_now) - interval '1 month'
+      )
+      select
+        sum(total_amount) filter (where is_today) as revenue_today,
+        sum(total_amount) filter (where is_yesterday) as revenue_yesterday,
+        sum(total_amount) filter (where is_this_week) as revenue_this_week,
+        sum(total_amount) filter (where is_last_week) as revenue_last_week,
+        sum(total_amount) filter (where is_this_month) as revenue_this_month,
+        sum(total_amount) filter (where is_last_month) as revenue_last_month,
+        count(*) filter (where is_today) as orders_today,
+        count(*) filter (where is_yesterday) as orders_yesterday,
+        count(*) filter (where is_this_week) as orders_this_week,
+        count(*) filter (where is_last_week) as orders_last_week,
+        count(*) filter (where is_this_month) as orders_this_month,
+        count(*) filter (where is_last_month) as orders_last_month,
+        sum((select sum((item->>'quantity')::int) from jsonb_array_elements(items) item))
+          filter (where is_today) as items_sold,
+        (
+          select sum(extract(epoch from last_sale - first_sale)) / 3600
+          from (
+            select min(local_at) as first_sale, max(local_at) as last_sale
+            from periods where is_today group by truck_id
+          ) days
+        ) as hours_operated
+      from periods
+    `);
+
+    // Customers are only known by the name on the ticket
+    const customerResult = await db.execute<Record<string, string | null>>(sql`
+      with local_orders as (${localOrders}),
+      customers as (
+        select customer,
+          min(local_at) < date_trunc('month', max(local_now)) as ordered_before,
+          max(local_at) >= date_trunc('month', max(local_now)) as ordered_this_month
+        from local_orders
+        where customer is not null and customer <> ''
+        group by customer
+      )
+      select
+        count(*) as total,
+        count(*) filter (where ordered_this_month and not ordered_before) as new_customers,
+        count(*) filter (where ordered_this_month and ordered_before) as returning_customers
+      from customers
+    `);
+
+    const [rating] = await db
+      .select({ averageRating: avg(reviews.rating) })
+      .from(reviews)
+      .where(inArray(reviews.truckId, truckIds));
+
+    const [activeLocations] = await db
+      .select({ count: count() })
+      .from(locations)
+      .where(
+        and(
+          inArray(locations.truckId, truckIds),
+          eq(locations.isActive, true)
+        )
+      );
+
+    const [inventory] = await db
+      .select({
+        value: sql<string | null>`sum(${proteinInventory.currentStock} * coalesce(${proteinInventory.costPerUnit}, 0))`,
+      })
+      .from(proteinInventory)
+      .where(inArray(proteinInventory.truckId, truckIds));
+    const [generalInventory] = await db
+      .select({
+        value: sql<string | null>`sum(${inventoryItems.currentStock} * coalesce(${inventoryItems.costPerUnit}, 0))`,
+      })
+      .from(inventoryItems)
+      .where(inArray(inventoryItems.truckId, truckIds));
+
+    const periods = periodResult.rows[0] ?? {};
+    const customers = customerResult.rows[0] ?? {};
+    const toNumber = (value: string | null | undefined) => Number(value ?? 0);
+    const toMoney = (value: string | null | undefined) => Math.round(toNumber(value) * 100) / 100;
+
+    const revenueThisMonth = toMoney(periods.revenue_this_month);
+    const ordersThisMonth = toNumber(periods.orders_this_month);
+
+    return {
+      revenue: {
+        today: toMoney(periods.revenue_today),
+        yesterday: toMoney(periods.revenue_yesterday),
+        thisWeek: toMoney(periods.revenue_this_week),
+        lastWeek: toMoney(periods.revenue_last_week),
+        thisMonth: revenueThisMonth,
+        lastMonth: toMoney(periods.revenue_last_month),
+      },
+      orders: {
+        today: toNumber(periods.orders_today),
+        yesterday: toNumber(periods.orders_yesterday),
+        thisWeek: toNumber(periods.orders_this_week),
+        lastWeek: toNumber(periods.orders_last_week),
+        thisMonth: ordersThisMonth,
+        lastMonth: toNumber(periods.orders_last_month),
+        averageOrderValue: ordersThisMonth > 0
+          ? Math.round((revenueThisMonth / ordersThisMonth) * 100) / 100
+          : 0,
+      },
+      customers: {
+        total: toNumber(customers.total),
+        new: toNumber(customers.new_customers),
+        returning: toNumber(customers.returning_customers),
+        satisfactionScore: Math.round(Number(rating?.averageRating ?? 0) * 10) / 10,
+      },
+      operations: {
+        activeLocations: activeLocations?.count ?? 0,
+        hoursOperated: Math.round(toNumber(periods.hours_operated) * 10) / 10,
+        itemsSold: toNumber(periods.items_sold),
+        inventoryValue: Math.round((toMoney(inventory?.value) + toMoney(generalInventory?.value)) * 100) / 100,
+      },
+    };
+  }
+}
+
+// Writes one ledger entry and moves the row's cached stock by the same
+// amount. Sales also count toward usedAmount.
+async function applyStockMovement(
+  tx: Transaction,
+  row: ProteinInventory,
+  movement: StockMovementInput,
+): Promise<StockMovement> {
+  const [entry] = await tx
+    .insert(stockMovements)
+    .values({
+      ...movement,
+      proteinInventoryId: row.id,
+      truckId: row.truckId,
+      unitCost: movement.unitCost ?? row.costPerUnit,
+    })
+    .returning();
+
+  await tx
+    .update(proteinInventory)
+    .set({
+      currentStock: sql`${proteinInventory.currentStock} + ${movement.quantity}`,
+      ...(movement.type === "sale"
+        ? { usedAmount: sql`coalesce(${proteinInventory.usedAmount}, 0) - ${movement.quantity}` }
+        : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(proteinInventory.id, row.id));
+  await evaluateStockAlerts(tx, row.id);
+  return entry;
+}
+
+// Brings stock onto a truck from outside (a supplier or the commissary):
+// adds it to the row's allocation, re-averages costPerUnit over what's on
+// hand, and records the movement
+async function receiveIntoStock(
+  tx: Transaction,
+  row: ProteinInventory,
+  movement: StockMovementInput,
+): Promise<StockMovement> {
+  const [updatedRow] = await tx
+    .update(proteinInventory)
+    .set({
+      allocatedAmount: sql`${proteinInventory.allocatedAmount} + ${movement.quantity}`,
+      ...(movement.unitCost
+        ? { costPerUnit: weightedAverageCost(row.currentStock, row.costPerUnit, movement.quantity, movement.unitCost) }
+        : {}),
+    })
+    .where(eq(proteinInventory.id, row.id))
+    .returning();
+  return await applyStockMovement(tx, updatedRow, movement);
+}
+
+// Cost per unit after adding `quantity` at `unitCost` to what's on hand.
+// Stock at or below zero has no cost left to average in.
+function weightedAverageCost(
+  currentStock: string,
+  currentCost: string | null,
+  quantity: string,
+  unitCost: string,
+): string {
+  const onHand = Math.max(Number(currentStock), 0);
+  const added = Number(quantity);
+  if (currentCost === null || onHand === 0 || added <= 0) {
+    return Number(unitCost).toFixed(2);
+  }
+  return ((onHand * Number(currentCost) + added * Number(unitCost)) / (onHand + added)).toFixed(2);
+}
+
+// The stock level at which a row counts as low: the larger of its absolute
+// threshold and its percentage of allocatedAmount, or null if it has neither
+function lowStockLevel(row: ProteinInventory): number | null {
+  const levels = [
+    row.lowStockThreshold === null ? null : Number(row.lowStockThreshold),
+    row.lowStockPercent === null ? null : (Number(row.allocatedAmount) * row.lowStockPercent) / 100,
+  ].filter((level): level is number => level !== null);
+  return levels.length > 0 ? Math.max(...levels) : null;
+}
+
+interface AlertCondition {
+  severity: StockAlertSeverity;
+  message: string;
+  threshold: string | null;
+}
+
+// Brings a row's alerts in line with its stock: raises alerts for new
+// problems, updates or escalates active ones, and resolves those that have
+// cleared. An acknowledged alert reopens if it becomes critical.
+async function evaluateStockAlerts(tx: Transaction, proteinInventoryId: number): Promise<void> {
+  const [row] = await tx
+    .select()
+    .from(proteinInventory)
+    .where(eq(proteinInventory.id, proteinInventoryId));
+  if (!row) {
+    return;
+  }
+
+  const stock = Number(row.currentStock);
+  const allocated = Number(row.allocatedAmount);
+  const used = Number(row.usedAmount ?? 0);
+  const level = lowStockLevel(row);
+  const conditions: Record<StockAlertKind, AlertCondition | null> = {
+    low_stock:
+      level !== null && stock <= level
+        ? {
+            severity: stock <= 0 || stock <= level / 2 ? "critical" : "low",
+            message: stock <= 0
+              ? `${row.proteinType} is out of stock`
+              : `${row.proteinType} is down to ${stock.toFixed(2)} ${row.unit}`,
+            threshold: level.toFixed(2),
+          }
+        : null,
+    overrun:
+      allocated > 0 && used > allocated
+        ? {
+            severity: "critical",
+            message: `${row.proteinType} has used ${used.toFixed(2)} of ${allocated.toFixed(2)} ${row.unit} allocated`,
+            threshold: allocated.toFixed(2),
+          }
+        : null,
+  };
+
+  const active = await tx
+    .select()
+    .from(stockAlerts)
+    .where(
+      and(
+        eq(stockAlerts.proteinInventoryId, proteinInventoryId),
+        inArray(stockAlerts.status, ["open", "acknowledged"]),
+      ),
+    )
+    .for("update");
+
+  for (const kind of stockAlertKinds) {
+    const condition = conditions[kind];
+    const existing = active.find((alert) => alert.kind === kind);
+    if (!condition) {
+      if (existing) {
+        await tx
+          .update(stockAlerts)
+          .set({ status: "resolved", currentStock: row.currentStock, resolvedAt: new Date(), updatedAt: new Date() })
+          .where(eq(stockAlerts.id, existing.id));
+      }
+      continue;
+    }
+
+    if (!existing) {
+      await tx.insert(stockAlerts).values({
+        truckId: row.truckId,
+        proteinInventoryId,
+        kind,
+        ...condition,
+        currentStock: row.currentStock,
+      });
+      continue;
+    }
+
+    const escalated = existing.severity !== "critical" && condition.severity === "critical";
+    await tx
+      .update(stockAlerts)
+      .set({
+        ...condition,
+        currentStock: row.currentStock,
+        ...(escalated ? { status: "open", acknowledgedBy: null, acknowledgedAt: null } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(stockAlerts.id, existing.id));
+  }
+}
+
+// Expected usage for each weekday (index 0 = Sunday). Without a schedule
+// this is the plain weekday average, so days off count as zero. With one,
+// each scheduled day gets what the truck usually sells at those locations
+// on a trading day, and unscheduled days get nothing.
+function forecastDailyUsage(
+  sales: { location_id: number | null; day: string; weekday: number; used: number }[],
+  schedule: Map<number, number[]>,
+  lookbackWeeks: number
+): number[] {
+  if (schedule.size === 0) {
+    const byWeekday = Array<number>(7).fill(0);
+    for (const sale of sales) {
+      byWeekday[sale.weekday] += sale.used / lookbackWeeks;
+    }
+    return byWeekday;
+  }
+
+  // Average over the days that actually had sales in each group
+  const tradingAverage = (matching: typeof sales) => {
+    const days = new Set(matching.map((sale) => sale.day));
+    return days.size === 0 ? null : matching.reduce((total, sale) => total + sale.used, 0) / days.size;
+  };
+  const overall = tradingAverage(sales) ?? 0;
+
+  return Array.from({ length: 7 }, (_, weekday) =>
+    (schedule.get(weekday) ?? []).reduce((total, locationId) => {
+      const atLocation = sales.filter((sale) => sale.location_id === locationId);
+      const expected =
+        tradingAverage(atLocation.filter((sale) => sale.weekday === weekday)) ??
+        tradingAverage(atLocation) ??
+        overall;
+      return total + expected;
+    }, 0)
+  );
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function withCountLines(
+  count: StockCount,
+  lines: StockCountLine[],
+  counterName: (string | null | undefined)[],
+): StockCountWithLines {
+  const varianceValue = lines.reduce((total, line) => total + Number(line.varianceValue ?? 0), 0);
+  return {
+    ...count,
+    countedByName: counterName.filter(Boolean).join(" ") || null,
+    lines,
+    varianceValue: Math.round(varianceValue * 100) / 100,
+  };
+}
+
+// Joins the stock row each sold ingredient draws from as "pi" (protein
+// inventory) and "ii" (general inventory), with "cost" per unit of the
+// ingredient as used. Expects the order as "o" and the ingredient as "usage"
+// with ingredient, protein_id, unit and quantity columns. Catalogue proteins
+// match protein rows by id; anything else matches a general item by name. A
+// row kept in the same unit wins; otherwise one in a convertible unit is
+// costed through the unit factors. Pack units need an item's pack size, so
+// only match exactly here.
+function ingredientCostJoins(): SQL {
+  const factors = Object.entries(unitRegistry)
+    .filter(([, definition]) => definition.dimension !== "pack")
+    .map(([unit, definition]) => sql`(${unit}, ${definition.dimension}, ${definition.toBase}::numeric)`);
+  const unitFactors = (alias: string) =>
+    sql`(values ${sql.join(factors, sql`, `)}) as ${sql.raw(alias)}(unit, dimension, factor)`;
+
+  return sql`
+    left join lateral (
+      select p.id, p.cost_per_unit * case when p.unit = usage.unit then 1 else used.factor / stocked.factor end as cost
+      from ${proteinInventory} p
+      left join ${unitFactors("stocked")} on stocked.unit = p.unit
+      left join ${unitFactors("used")} on used.unit = usage.unit
+      where p.truck_id = o.truck_id and p.protein_id = usage.protein_id
+        and (p.unit = usage.unit or stocked.dimension = used.dimension)
+      order by p.unit = usage.unit desc
+      limit 1
+    ) pi on true
+    left join lateral (
+      select i.cost_per_unit * case when i.unit = usage.unit then 1 else used.factor / stocked.factor end as cost
+      from ${inventoryItems} i
+      left join ${unitFactors("stocked")} on stocked.unit = i.unit
+      left join ${unitFactors("used")} on used.unit = usage.unit
+      where i.truck_id = o.truck_id and usage.protein_id is null and lower(i.name) = usage.ingredient
+        and (i.unit = usage.unit or stocked.dimension = used.dimension)
+      order by i.unit = usage.unit desc
+      limit 1
+    ) ii on true
+  `;
+}
+
+// The pack an item is bought in, for converting box/bag/case quantities
+function packOf(row: { unit: string; packSize: string | null }): PackSize | null {
+  return row.packSize ? { size: Number(row.packSize), unit: row.unit } : null;
+}
+
+// The stock row a quantity in `unit` draws from: one kept in that unit, or
+// else the first whose unit it converts to
+function matchingStockRow<T extends { unit: string; packSize: string | null }>(rows: T[], unit: string): T | undefined {
+  return rows.find((row) => row.unit === unit) ?? rows.find((row) => canConvert(unit, row.unit, packOf(row)));
+}
+
+// A quantity entered in `unit`, in the row's own unit
+function toStockUnit(quantity: number, unit: string, row: { unit: string; packSize: string | null }): number {
+  try {
+    return convertQuantity(quantity, unit, row.unit, packOf(row));
+  } catch (error) {
+    if (error instanceof UnitConversionError) {
+      throw new StockValidationError(error.message);
+    }
+    throw error;
+  }
+}
+
+// Restates a movement entered in another unit in the row's own unit, with
+// the cost per unit scaled to match and the original amount kept in the reason
+function inStockUnits<T extends { quantity: string; unitCost?: string | null; reason?: string | null }>(
+  movement: T,
+  unit: string | null | undefined,
+  row: { unit: string; packSize: string | null },
+): T {
+  if (!unit || unit === row.unit) {
+    return movement;
+  }
+  const perUnit = toStockUnit(1, unit, row);
+  const entered = `${movement.quantity} ${unit}`;
+  return {
+    ...movement,
+    quantity: (Number(movement.quantity) * perUnit).toFixed(2),
+    unitCost: movement.unitCost ? (Number(movement.unitCost) / perUnit).toFixed(2) : movement.unitCost,
+    reason: movement.reason ? `${movement.reason} (${entered})` : `Entered as ${entered}`,
+  };
+}
+
+function stockKey(usage: { ingredient: string; proteinId: number | null }, unit: string): string {
+  return usage.proteinId === null ? `item:${usage.ingredient}|${unit}` : `protein:${usage.proteinId}|${unit}`;
+}
+
+// The recipe rows if the item has any, otherwise its single protein
+function effectiveRecipe(item: MenuItem, rows: RecipeIngredient[]): RecipeLine[] {
+  if (rows.length > 0) {
+    return rows.map(({ ingredient, proteinId, quantity, unit }) => ({ ingredient, proteinId, quantity, unit }));
+  }
+  return [{ ingredient: item.proteinType, proteinId: item.proteinId, quantity: item.proteinAmount, unit: "lbs" }];
+}
+
+// Everything an order line took out of stock, including modifiers like
+// "extra meat". Older lines without recorded ingredients used only their protein.
+function lineIngredients(item: OrderLineItem): OrderLineIngredient[] {
+  const base = item.ingredients ?? [
+    { ingredient: item.proteinType, proteinId: item.proteinId, unit: "lbs", quantity: Number(item.proteinUsed) || 0 },
+  ];
+  const extras = (item.modifiers ?? []).map((modifier) => ({
+    ingredient: modifier.proteinType,
+    proteinId: modifier.proteinId,
+    unit: "lbs",
+    quantity: Number(modifier.proteinUsed) || 0,
+  }));
+  return [...base, ...extras];
+}
+
+// Checks the chosen options against the item's modifier groups and prices them
+function resolveModifiers(
+  menuItem: TruckMenuEntry,
+  optionIds: number[],
+  quantity: number,
+): OrderLineModifier[] {
+  const remaining = new Set(optionIds);
+  if (remaining.size !== optionIds.length) {
+    throw new OrderValidationError(`The same modifier was chosen twice on ${menuItem.name}`);
+  }
+
+  const modifiers: OrderLineModifier[] = [];
+  for (const group of menuItem.modifierGroups) {
+    const chosen = group.options.filter((option) => remaining.has(option.id));
+    if (chosen.length < group.minSelections) {
+      throw new OrderValidationError(
+        `${menuItem.name} needs at least ${group.minSelections} choice(s) from ${group.name}`
+      );
+    }
+    if (chosen.length > group.maxSelections) {
+      throw new OrderValidationError(
+        `${menuItem.name} allows at most ${group.maxSelections} choice(s) from ${group.name}`
+      );
+    }
+
+    for (const option of chosen) {
+      remaining.delete(option.id);
+      modifiers.push({
+        optionId: option.id,
+        groupName: group.name,
+        name: option.name,
+        priceDelta: Number(option.priceDelta),
+        proteinId: option.proteinId ?? menuItem.proteinId,
+        proteinType: option.proteinType || menuItem.proteinType,
+        proteinUsed: Number(option.proteinAmount) * quantity,
+      });
+    }
+  }
+
+  if (remaining.size > 0) {
+    throw new OrderValidationError(`Modifier ${Array.from(remaining)[0]} is not available on ${menuItem.name}`);
+  }
+  return modifiers;
+}
+
+// A unique violation on orders.order_number, as raised by Postgres
+function isOrderNumberTaken(error: unknown): boolean {
+  if (typeof error !== "object" || error === null) {
+    return false;
+  }
+  const { code, constraint } = error as { code?: unknown; constraint?: unknown };
+  return code === "23505" && typeof constraint === "string" && constraint.includes("order_number");
+}
+
+function encodeOrderCursor(sortValue: string, id: number): string {
+  return Buffer.from(JSON.stringify([sortValue, id])).toString("base64url");
+}
+
+function decodeOrderCursor(cursor: string): [string, number] {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (typeof value === "string" && Number.isInteger(id)) {
+      return [value, id];
+    }
+  } catch {
+    // fall through
+  }
+  throw new OrderValidationError("Invalid cursor");
+}
+
+function emptyBusinessMetrics(): BusinessMetrics {
+  return {
+    revenue: { today: 0, yesterday: 0, thisWeek: 0, lastWeek: 0, thisMonth: 0, lastMonth: 0 },
+    orders: { today: 0, yesterday: 0, thisWeek: 0, lastWeek: 0, thisMonth: 0, lastMonth: 0, averageOrderValue: 0 },
+    customers: { total: 0, new: 0, returning: 0, satisfactionScore: 0 },
+    operations: { activeLocations: 0, hoursOperated: 0, itemsSold: 0, inventoryValue: 0 },
+  };
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,36 @@
+// Role-based permission matrix shared by the API and the client. Roles come
+// from teamMembers.role; organization owners are always treated as admins.
+export const roles = ["admin", "manager", "member"] as const;
+export type Role = (typeof roles)[number];
+
+const ALL_ROLES: Role[] = ["admin", "manager", "member"];
+const MANAGERS: Role[] = ["admin", "manager"];
+const ADMINS: Role[] = ["admin"];
+
+export const permissionMatrix = {
+  "orders:create": ALL_ROLES,
+  "orders:update": ALL_ROLES,
+  "orders:refund": MANAGERS,
+  "inventory:adjust": ALL_ROLES, // change current stock
+  "inventory:allocate": ADMINS, // add protein, change allocations and cost
+  "purchasing:manage": MANAGERS, // suppliers and purchase orders
+  "purchasing:receive": ALL_ROLES, // book deliveries against a placed order
+  "locations:manage": MANAGERS,
+  "menu:manage": MANAGERS,
+  "organization:manage": ADMINS, // name and timezone
+  "team:manage": ADMINS,
+  "trucks:manage": ADMINS,
+  "analytics:view": MANAGERS,
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof permissionMatrix;
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return !!role && (permissionMatrix[permission] as string[]).includes(role);
+}
+
+export function getPermissionsForRole(role: string | null | undefined): Permission[] {
+  return (Object.keys(permissionMatrix) as Permission[]).filter((permission) =>
+    hasPermission(role, permission)
+  );
+}
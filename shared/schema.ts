@@ -5,15 +5,18 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   integer,
   decimal,
   boolean,
-  real
+  real,
+  date
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { unitSchema } from "./units";
 
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
@@ -45,6 +48,7 @@ export const organizations = pgTable("organizations", {
   id: serial("id").primaryKey(),
   name: varchar("name").notNull(),
   ownerId: varchar("owner_id").notNull(),
+  timezone: varchar("timezone").notNull().default("UTC"), // IANA zone, e.g. America/Chicago
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -74,6 +78,7 @@ export const foodTrucks = pgTable("food_trucks", {
   phone: varchar("phone"),
   website: varchar("website"),
   logo: varchar("logo"),
+  timezone: varchar("timezone"), // IANA zone; null falls back to the organization's
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -87,35 +92,339 @@ export const locations = pgTable("locations", {
   longitude: real("longitude"),
   description: text("description"),
   isActive: boolean("is_active").default(false),
+  serviceDays: integer("service_days").array(), // weekdays the truck works here, 0 = Sunday; null if unscheduled
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Protein inventory tracking (pork, beef, chicken)
+// The organization's catalogue of proteins (al pastor, barbacoa, tofu...).
+// Stock, menu items, modifiers and recipes point at an entry by id and keep
+// a copy of its name for display, which a rename updates.
+export const proteins = pgTable("proteins", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  name: varchar("name").notNull(), // lowercase
+  icon: varchar("icon"), // an emoji
+  defaultUnit: varchar("default_unit").notNull().default("lbs"), // see unitRegistry in ./units
+  costPerUnit: decimal("cost_per_unit", { precision: 10, scale: 2 }), // per default unit; new stock starts at this cost
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_proteins_name").on(table.organizationId, table.name),
+]);
+
+// Protein inventory tracking, one row per catalogue protein and unit on a truck
 export const proteinInventory = pgTable("protein_inventory", {
   id: serial("id").primaryKey(),
   truckId: integer("truck_id").notNull(),
-  proteinType: varchar("protein_type").notNull(), // 'pork', 'beef', 'chicken'
+  proteinId: integer("protein_id"), // null only on rows from before the catalogue, until backfilled
+  proteinType: varchar("protein_type").notNull(), // the catalogue name, e.g. 'pork'
   allocatedAmount: decimal("allocated_amount", { precision: 10, scale: 2 }).notNull(), // lbs allocated by admin
   currentStock: decimal("current_stock", { precision: 10, scale: 2 }).notNull(),
   usedAmount: decimal("used_amount", { precision: 10, scale: 2 }).default("0"), // total used for sales
+  unit: varchar("unit").notNull().default("lbs"), // see unitRegistry in ./units
+  packSize: decimal("pack_size", { precision: 10, scale: 3 }), // nullable - units per box/bag/case when bought by the pack
+  costPerUnit: decimal("cost_per_unit", { precision: 10, scale: 2 }),
+  lowStockThreshold: decimal("low_stock_threshold", { precision: 10, scale: 2 }), // nullable - alert at this many units
+  lowStockPercent: integer("low_stock_percent").default(20), // nullable - alert at this % of allocatedAmount
+  leadTimeDays: integer("lead_time_days").notNull().default(2), // days from ordering to stock on the truck
+  safetyStockDays: integer("safety_stock_days").notNull().default(1), // extra days of usage to keep in hand
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Raised when a protein runs low or sells past its allocation. Alerts
+// resolve themselves once stock recovers; people can acknowledge or close them.
+export const stockAlerts = pgTable("stock_alerts", {
+  id: serial("id").primaryKey(),
+  truckId: integer("truck_id").notNull(),
+  proteinInventoryId: integer("protein_inventory_id").notNull(),
+  kind: varchar("kind").notNull(), // 'low_stock', 'overrun'
+  severity: varchar("severity").notNull(), // 'low', 'critical'
+  status: varchar("status").notNull().default("open"), // 'open', 'acknowledged', 'resolved'
+  message: text("message").notNull(),
+  currentStock: decimal("current_stock", { precision: 10, scale: 2 }).notNull(), // when last evaluated
+  threshold: decimal("threshold", { precision: 10, scale: 2 }), // the level that was crossed
+  acknowledgedBy: varchar("acknowledged_by"),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  resolvedBy: varchar("resolved_by"), // null when stock recovered on its own
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_stock_alerts_truck_status").on(table.truckId, table.status),
+  index("IDX_stock_alerts_protein").on(table.proteinInventoryId),
+]);
+
+// Every change to a protein row's stock, newest last. currentStock is the
+// running total of these; the ledger is what explains it.
+export const stockMovements = pgTable("stock_movements", {
+  id: serial("id").primaryKey(),
+  proteinInventoryId: integer("protein_inventory_id").notNull(),
+  truckId: integer("truck_id").notNull(),
+  type: varchar("type").notNull(), // see stockMovementTypes
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(), // positive adds stock, negative removes it
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }), // cost per unit when it moved
+  reason: text("reason"),
+  orderId: integer("order_id"), // set for sale usage
+  purchaseOrderId: integer("purchase_order_id"), // set for receipts against a purchase order
+  transferId: integer("transfer_id"), // set for stock received from the commissary
+  createdBy: varchar("created_by"), // user id; null for system entries
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_stock_movements_protein").on(table.proteinInventoryId, table.createdAt),
+  index("IDX_stock_movements_truck").on(table.truckId, table.createdAt),
+]);
+
+// Product thrown away rather than sold. Each entry is booked to the ledger
+// as a "waste" movement; this table keeps the why (and a photo, if taken).
+export const wasteLogs = pgTable("waste_logs", {
+  id: serial("id").primaryKey(),
+  truckId: integer("truck_id").notNull(),
+  proteinInventoryId: integer("protein_inventory_id").notNull(),
+  movementId: integer("movement_id").notNull(),
+  reasonCode: varchar("reason_code").notNull(), // see wasteReasons
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(), // amount thrown away, positive
+  unit: varchar("unit").notNull(),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }),
+  notes: text("notes"),
+  photo: text("photo"), // image data URL, downscaled by the client
+  loggedBy: varchar("logged_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_waste_logs_truck").on(table.truckId, table.createdAt),
+]);
+
+// A physical count of a truck's proteins, e.g. weighing the coolers at close
+export const stockCounts = pgTable("stock_counts", {
+  id: serial("id").primaryKey(),
+  truckId: integer("truck_id").notNull(),
+  notes: text("notes"),
+  countedBy: varchar("counted_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_stock_counts_truck").on(table.truckId, table.createdAt),
+]);
+
+// What was counted for one protein against what the ledger expected. The
+// variance is posted to the ledger as a "count" movement.
+export const stockCountLines = pgTable("stock_count_lines", {
+  id: serial("id").primaryKey(),
+  countId: integer("count_id").notNull(),
+  proteinInventoryId: integer("protein_inventory_id").notNull(),
+  proteinType: varchar("protein_type").notNull(), // as it was when counted
+  unit: varchar("unit").notNull(),
+  expectedQuantity: decimal("expected_quantity", { precision: 10, scale: 2 }).notNull(),
+  countedQuantity: decimal("counted_quantity", { precision: 10, scale: 2 }).notNull(),
+  variance: decimal("variance", { precision: 10, scale: 2 }).notNull(), // counted - expected; negative is shrinkage
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }),
+  varianceValue: decimal("variance_value", { precision: 10, scale: 2 }), // variance * unitCost; null without a cost
+}, (table) => [
+  index("IDX_stock_count_lines_count").on(table.countId),
+]);
+
+// Protein held centrally by the organization before it goes out to trucks
+export const commissaryStock = pgTable("commissary_stock", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  proteinId: integer("protein_id"), // null only on rows from before the catalogue, until backfilled
+  proteinType: varchar("protein_type").notNull(), // the catalogue name
   unit: varchar("unit").notNull().default("lbs"),
+  currentStock: decimal("current_stock", { precision: 10, scale: 2 }).notNull().default("0"),
   costPerUnit: decimal("cost_per_unit", { precision: 10, scale: 2 }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_commissary_stock_protein").on(table.organizationId, table.proteinId, table.unit),
+]);
+
+// The commissary's side of the ledger, like stockMovements for trucks
+export const commissaryMovements = pgTable("commissary_movements", {
+  id: serial("id").primaryKey(),
+  commissaryStockId: integer("commissary_stock_id").notNull(),
+  type: varchar("type").notNull(), // 'receipt', 'transfer', 'adjustment'
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(), // positive adds stock, negative removes it
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }),
+  reason: text("reason"),
+  transferId: integer("transfer_id"), // set when stock went out to a truck
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_commissary_movements_stock").on(table.commissaryStockId, table.createdAt),
+]);
+
+// Protein moving from the commissary to a truck. Quantities are filled in
+// as it goes: requested by the truck, sent at dispatch, received on arrival,
+// all in the truck's unit.
+export const stockTransfers = pgTable("stock_transfers", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  commissaryStockId: integer("commissary_stock_id").notNull(),
+  truckId: integer("truck_id").notNull(),
+  proteinInventoryId: integer("protein_inventory_id").notNull(), // where it lands on the truck
+  status: varchar("status").notNull().default("requested"), // see transferStatusTransitions
+  quantityRequested: decimal("quantity_requested", { precision: 10, scale: 2 }).notNull(),
+  quantitySent: decimal("quantity_sent", { precision: 10, scale: 2 }),
+  quantityReceived: decimal("quantity_received", { precision: 10, scale: 2 }),
+  discrepancy: decimal("discrepancy", { precision: 10, scale: 2 }), // sent - received; nonzero is flagged
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }), // commissary cost per truck unit when dispatched
+  notes: text("notes"),
+  requestedBy: varchar("requested_by"),
+  approvedBy: varchar("approved_by"),
+  approvedAt: timestamp("approved_at"),
+  dispatchedBy: varchar("dispatched_by"),
+  dispatchedAt: timestamp("dispatched_at"),
+  receivedBy: varchar("received_by"),
+  receivedAt: timestamp("received_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_stock_transfers_organization").on(table.organizationId, table.status),
+  index("IDX_stock_transfers_truck").on(table.truckId, table.createdAt),
+]);
+
+// Who the organization buys from
+export const suppliers = pgTable("suppliers", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  name: varchar("name").notNull(),
+  contactName: varchar("contact_name"),
+  email: varchar("email"),
+  phone: varchar("phone"),
+  notes: text("notes"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_suppliers_organization").on(table.organizationId),
+]);
+
+// An order placed with a supplier for delivery to one truck
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: serial("id").primaryKey(),
+  truckId: integer("truck_id").notNull(),
+  supplierId: integer("supplier_id").notNull(),
+  status: varchar("status").notNull().default("draft"), // see purchaseOrderStatusTransitions
+  expectedDate: date("expected_date"),
+  notes: text("notes"),
+  createdBy: varchar("created_by"),
+  orderedAt: timestamp("ordered_at"),
+  receivedAt: timestamp("received_at"), // when the last delivery came in
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_purchase_orders_truck").on(table.truckId, table.createdAt),
+]);
+
+export const purchaseOrderLines = pgTable("purchase_order_lines", {
+  id: serial("id").primaryKey(),
+  purchaseOrderId: integer("purchase_order_id").notNull(),
+  proteinInventoryId: integer("protein_inventory_id").notNull(),
+  unit: varchar("unit"), // nullable - the item's own unit; quantities and cost are in this unit
+  quantityOrdered: decimal("quantity_ordered", { precision: 10, scale: 2 }).notNull(),
+  quantityReceived: decimal("quantity_received", { precision: 10, scale: 2 }).notNull().default("0"),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(),
+}, (table) => [
+  index("IDX_purchase_order_lines_order").on(table.purchaseOrderId),
+]);
+
+// Everything else a truck stocks: tortillas, produce, drinks, supplies.
+// Recipe ingredients match these by lowercased name and unit.
+export const inventoryItems = pgTable("inventory_items", {
+  id: serial("id").primaryKey(),
+  truckId: integer("truck_id").notNull(),
+  name: varchar("name").notNull(),
+  category: varchar("category"), // 'Vegetables', 'Beverages', 'Supplies'
+  currentStock: decimal("current_stock", { precision: 10, scale: 2 }).notNull(),
+  unit: varchar("unit").notNull(),
+  packSize: decimal("pack_size", { precision: 10, scale: 3 }), // nullable - units per box/bag/case when bought by the pack
+  lowStockThreshold: decimal("low_stock_threshold", { precision: 10, scale: 2 }), // nullable - no alert
+  costPerUnit: decimal("cost_per_unit", { precision: 10, scale: 2 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_inventory_items_truck").on(table.truckId)]);
+
+// Menu sections (e.g. Tacos, Sides, Drinks), shared by every truck in the organization
+export const menuCategories = pgTable("menu_categories", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  name: varchar("name").notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
-// Menu items with protein usage
+// Menu items with protein usage, owned by the organization
 export const menuItems = pgTable("menu_items", {
   id: serial("id").primaryKey(),
+  organizationId: integer("organization_id"), // null only on items from before menus were per organization, until backfilled
+  categoryId: integer("category_id"), // nullable - uncategorized
   name: varchar("name").notNull(), // 'taco', 'burrito', 'torta'
-  proteinType: varchar("protein_type").notNull(), // 'pork', 'beef', 'chicken'
+  description: text("description"),
+  proteinId: integer("protein_id"), // null only on items from before the catalogue, until backfilled
+  proteinType: varchar("protein_type").notNull(), // the catalogue name, e.g. 'pork'
   proteinAmount: decimal("protein_amount", { precision: 10, scale: 2 }).notNull(), // lbs of protein per item
-  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(), // base price; trucks may override
   isActive: boolean("is_active").default(true),
+  archivedAt: timestamp("archived_at"), // archived items stay for order history but leave every menu
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_menu_items_organization").on(table.organizationId)]);
+
+// Which menu items a truck sells, with its own price and availability
+export const truckMenuItems = pgTable("truck_menu_items", {
+  id: serial("id").primaryKey(),
+  truckId: integer("truck_id").notNull(),
+  menuItemId: integer("menu_item_id").notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }), // nullable - use the item's base price
+  isAvailable: boolean("is_available").notNull().default(true), // false when 86'd for the day
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_truck_menu_items_truck_item").on(table.truckId, table.menuItemId)]);
+
+// Choices offered on a menu item ("Extra meat", "Toppings", "Make it a combo").
+// A group is required when minSelections is at least 1.
+export const modifierGroups = pgTable("modifier_groups", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  name: varchar("name").notNull(),
+  minSelections: integer("min_selections").notNull().default(0),
+  maxSelections: integer("max_selections").notNull().default(1),
+  sortOrder: integer("sort_order").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const modifierOptions = pgTable("modifier_options", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").notNull(),
+  name: varchar("name").notNull(), // 'No onions', 'Extra meat', 'Combo with drink'
+  priceDelta: decimal("price_delta", { precision: 10, scale: 2 }).notNull().default("0"),
+  proteinId: integer("protein_id"), // nullable - same protein as the menu item
+  proteinType: varchar("protein_type"), // the catalogue name, when proteinId is set
+  proteinAmount: decimal("protein_amount", { precision: 10, scale: 2 }).notNull().default("0"), // extra lbs per item
+  isActive: boolean("is_active").notNull().default(true),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_modifier_options_group").on(table.groupId)]);
+
+// Which modifier groups are offered on which menu items
+export const menuItemModifierGroups = pgTable("menu_item_modifier_groups", {
+  id: serial("id").primaryKey(),
+  menuItemId: integer("menu_item_id").notNull(),
+  groupId: integer("group_id").notNull(),
+}, (table) => [uniqueIndex("IDX_menu_item_modifier_groups_item_group").on(table.menuItemId, table.groupId)]);
+
+// Bill of materials for one serving of a menu item. Items without any rows
+// here fall back to their single proteinType/proteinAmount.
+export const recipeIngredients = pgTable("recipe_ingredients", {
+  id: serial("id").primaryKey(),
+  menuItemId: integer("menu_item_id").notNull(),
+  ingredient: varchar("ingredient").notNull(), // a catalogue protein's name or an inventory item's name
+  proteinId: integer("protein_id"), // set when the ingredient is a catalogue protein
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(), // per serving
+  unit: varchar("unit").notNull().default("lbs"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_recipe_ingredients_item_ingredient").on(table.menuItemId, table.ingredient)]);
+
 export const orders = pgTable("orders", {
   id: serial("id").primaryKey(),
   truckId: integer("truck_id").notNull(),
@@ -123,12 +432,23 @@ export const orders = pgTable("orders", {
   customerName: varchar("customer_name"),
   items: jsonb("items").notNull(), // Array of {menuItemId, quantity, proteinUsed}
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
-  status: varchar("status").notNull().default("pending"), // pending, preparing, completed, cancelled
+  status: varchar("status").notNull().default("pending"), // see orderStatusTransitions
   locationId: integer("location_id"),
+  inventoryDeducted: boolean("inventory_deducted").notNull().default(false), // protein already taken out of stock
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Audit trail of every order status change
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull(),
+  fromStatus: varchar("from_status"), // null when the order is first created
+  toStatus: varchar("to_status").notNull(),
+  changedBy: varchar("changed_by"), // user id
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_order_status_history_order").on(table.orderId)]);
+
 export const reviews = pgTable("reviews", {
   id: serial("id").primaryKey(),
   truckId: integer("truck_id").notNull(),
@@ -151,6 +471,10 @@ export const organizationsRelations = relations(organizations, ({ one, many }) =
   }),
   foodTrucks: many(foodTrucks),
   teamMembers: many(teamMembers),
+  menuCategories: many(menuCategories),
+  menuItems: many(menuItems),
+  suppliers: many(suppliers),
+  commissaryStock: many(commissaryStock),
 }));
 
 export const teamMembersRelations = relations(teamMembers, ({ one }) => ({
@@ -175,9 +499,14 @@ export const foodTrucksRelations = relations(foodTrucks, ({ one, many }) => ({
   }),
   locations: many(locations),
   proteinInventory: many(proteinInventory),
+  inventoryItems: many(inventoryItems),
+  stockCounts: many(stockCounts),
+  wasteLogs: many(wasteLogs),
+  purchaseOrders: many(purchaseOrders),
   orders: many(orders),
   reviews: many(reviews),
   teamMembers: many(teamMembers),
+  menuItems: many(truckMenuItems),
 }));
 
 export const locationsRelations = relations(locations, ({ one, many }) => ({
@@ -188,14 +517,157 @@ export const locationsRelations = relations(locations, ({ one, many }) => ({
   orders: many(orders),
 }));
 
-export const proteinInventoryRelations = relations(proteinInventory, ({ one }) => ({
+export const proteinInventoryRelations = relations(proteinInventory, ({ one, many }) => ({
   foodTruck: one(foodTrucks, {
     fields: [proteinInventory.truckId],
     references: [foodTrucks.id],
   }),
+  movements: many(stockMovements),
+  alerts: many(stockAlerts),
+}));
+
+export const stockAlertsRelations = relations(stockAlerts, ({ one }) => ({
+  foodTruck: one(foodTrucks, {
+    fields: [stockAlerts.truckId],
+    references: [foodTrucks.id],
+  }),
+  proteinInventory: one(proteinInventory, {
+    fields: [stockAlerts.proteinInventoryId],
+    references: [proteinInventory.id],
+  }),
+}));
+
+export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
+  proteinInventory: one(proteinInventory, {
+    fields: [stockMovements.proteinInventoryId],
+    references: [proteinInventory.id],
+  }),
+  order: one(orders, {
+    fields: [stockMovements.orderId],
+    references: [orders.id],
+  }),
+  createdByUser: one(users, {
+    fields: [stockMovements.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const wasteLogsRelations = relations(wasteLogs, ({ one }) => ({
+  foodTruck: one(foodTrucks, {
+    fields: [wasteLogs.truckId],
+    references: [foodTrucks.id],
+  }),
+  proteinInventory: one(proteinInventory, {
+    fields: [wasteLogs.proteinInventoryId],
+    references: [proteinInventory.id],
+  }),
+  movement: one(stockMovements, {
+    fields: [wasteLogs.movementId],
+    references: [stockMovements.id],
+  }),
+  loggedByUser: one(users, {
+    fields: [wasteLogs.loggedBy],
+    references: [users.id],
+  }),
+}));
+
+export const stockCountsRelations = relations(stockCounts, ({ one, many }) => ({
+  foodTruck: one(foodTrucks, {
+    fields: [stockCounts.truckId],
+    references: [foodTrucks.id],
+  }),
+  countedByUser: one(users, {
+    fields: [stockCounts.countedBy],
+    references: [users.id],
+  }),
+  lines: many(stockCountLines),
+}));
+
+export const stockCountLinesRelations = relations(stockCountLines, ({ one }) => ({
+  count: one(stockCounts, {
+    fields: [stockCountLines.countId],
+    references: [stockCounts.id],
+  }),
+  proteinInventory: one(proteinInventory, {
+    fields: [stockCountLines.proteinInventoryId],
+    references: [proteinInventory.id],
+  }),
+}));
+
+export const commissaryStockRelations = relations(commissaryStock, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [commissaryStock.organizationId],
+    references: [organizations.id],
+  }),
+  movements: many(commissaryMovements),
+  transfers: many(stockTransfers),
+}));
+
+export const commissaryMovementsRelations = relations(commissaryMovements, ({ one }) => ({
+  commissaryStock: one(commissaryStock, {
+    fields: [commissaryMovements.commissaryStockId],
+    references: [commissaryStock.id],
+  }),
+  transfer: one(stockTransfers, {
+    fields: [commissaryMovements.transferId],
+    references: [stockTransfers.id],
+  }),
+}));
+
+export const stockTransfersRelations = relations(stockTransfers, ({ one }) => ({
+  commissaryStock: one(commissaryStock, {
+    fields: [stockTransfers.commissaryStockId],
+    references: [commissaryStock.id],
+  }),
+  foodTruck: one(foodTrucks, {
+    fields: [stockTransfers.truckId],
+    references: [foodTrucks.id],
+  }),
+  proteinInventory: one(proteinInventory, {
+    fields: [stockTransfers.proteinInventoryId],
+    references: [proteinInventory.id],
+  }),
+}));
+
+export const suppliersRelations = relations(suppliers, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [suppliers.organizationId],
+    references: [organizations.id],
+  }),
+  purchaseOrders: many(purchaseOrders),
+}));
+
+export const purchaseOrdersRelations = relations(purchaseOrders, ({ one, many }) => ({
+  foodTruck: one(foodTrucks, {
+    fields: [purchaseOrders.truckId],
+    references: [foodTrucks.id],
+  }),
+  supplier: one(suppliers, {
+    fields: [purchaseOrders.supplierId],
+    references: [suppliers.id],
+  }),
+  lines: many(purchaseOrderLines),
+}));
+
+export const purchaseOrderLinesRelations = relations(purchaseOrderLines, ({ one }) => ({
+  purchaseOrder: one(purchaseOrders, {
+    fields: [purchaseOrderLines.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  proteinInventory: one(proteinInventory, {
+    fields: [purchaseOrderLines.proteinInventoryId],
+    references: [proteinInventory.id],
+  }),
+}));
+
+export const inventoryItemsRelations = relations(inventoryItems, ({ one }) => ({
+  foodTruck: one(foodTrucks, {
+    fields: [inventoryItems.truckId],
+    references: [foodTrucks.id],
+  }),
 }));
 
-export const ordersRelations = relations(orders, ({ one }) => ({
+export const ordersRelations = relations(orders, ({ one, many }) => ({
   foodTruck: one(foodTrucks, {
     fields: [orders.truckId],
     references: [foodTrucks.id],
@@ -204,6 +676,85 @@ export const ordersRelations = relations(orders, ({ one }) => ({
     fields: [orders.locationId],
     references: [locations.id],
   }),
+  statusHistory: many(orderStatusHistory),
+}));
+
+export const orderStatusHistoryRelations = relations(orderStatusHistory, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderStatusHistory.orderId],
+    references: [orders.id],
+  }),
+  changedByUser: one(users, {
+    fields: [orderStatusHistory.changedBy],
+    references: [users.id],
+  }),
+}));
+
+export const menuCategoriesRelations = relations(menuCategories, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [menuCategories.organizationId],
+    references: [organizations.id],
+  }),
+  menuItems: many(menuItems),
+}));
+
+export const menuItemsRelations = relations(menuItems, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [menuItems.organizationId],
+    references: [organizations.id],
+  }),
+  category: one(menuCategories, {
+    fields: [menuItems.categoryId],
+    references: [menuCategories.id],
+  }),
+  trucks: many(truckMenuItems),
+  modifierGroups: many(menuItemModifierGroups),
+  recipeIngredients: many(recipeIngredients),
+}));
+
+export const truckMenuItemsRelations = relations(truckMenuItems, ({ one }) => ({
+  foodTruck: one(foodTrucks, {
+    fields: [truckMenuItems.truckId],
+    references: [foodTrucks.id],
+  }),
+  menuItem: one(menuItems, {
+    fields: [truckMenuItems.menuItemId],
+    references: [menuItems.id],
+  }),
+}));
+
+export const modifierGroupsRelations = relations(modifierGroups, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [modifierGroups.organizationId],
+    references: [organizations.id],
+  }),
+  options: many(modifierOptions),
+  menuItems: many(menuItemModifierGroups),
+}));
+
+export const modifierOptionsRelations = relations(modifierOptions, ({ one }) => ({
+  group: one(modifierGroups, {
+    fields: [modifierOptions.groupId],
+    references: [modifierGroups.id],
+  }),
+}));
+
+export const menuItemModifierGroupsRelations = relations(menuItemModifierGroups, ({ one }) => ({
+  menuItem: one(menuItems, {
+    fields: [menuItemModifierGroups.menuItemId],
+    references: [menuItems.id],
+  }),
+  group: one(modifierGroups, {
+    fields: [menuItemModifierGroups.groupId],
+    references: [modifierGroups.id],
+  }),
+}));
+
+export const recipeIngredientsRelations = relations(recipeIngredients, ({ one }) => ({
+  menuItem: one(menuItems, {
+    fields: [recipeIngredients.menuItemId],
+    references: [menuItems.id],
+  }),
 }));
 
 export const reviewsRelations = relations(reviews, ({ one }) => ({
@@ -213,6 +764,18 @@ export const reviewsRelations = relations(reviews, ({ one }) => ({
   }),
 }));
 
+// Timezones are stored as IANA names so "today" follows the truck's wall clock
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const timeZoneSchema = z.string().refine(isValidTimeZone, "Unknown timezone");
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
@@ -223,18 +786,24 @@ export const insertFoodTruckSchema = createInsertSchema(foodTrucks).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  timezone: timeZoneSchema.nullish(),
 });
 
 export const insertLocationSchema = createInsertSchema(locations).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  serviceDays: z.array(z.number().int().min(0).max(6)).max(7).nullish(),
 });
 
 export const insertOrganizationSchema = createInsertSchema(organizations).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  timezone: timeZoneSchema.optional(),
 });
 
 export const insertTeamMemberSchema = createInsertSchema(teamMembers).omit({
@@ -248,19 +817,136 @@ export const insertTeamMemberSchema = createInsertSchema(teamMembers).omit({
   phone: z.string().optional(),
 });
 
-export const insertProteinInventorySchema = createInsertSchema(proteinInventory).omit({
+// Units of the item's own unit per box, bag or case; null when not bought by the pack
+const packSizeSchema = z
+  .string()
+  .regex(/^\d+(\.\d{1,3})?$/, "Invalid pack size")
+  .refine((value) => Number(value) > 0, "Pack size must be more than zero")
+  .nullish();
+
+export const insertProteinSchema = createInsertSchema(proteins, {
+  name: (schema) => schema.trim().toLowerCase().min(1).max(50),
+  icon: (schema) => schema.trim().max(16),
+  defaultUnit: () => unitSchema.optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// proteinType (and, unless given, the unit and cost) come from the catalogue
+export const insertProteinInventorySchema = createInsertSchema(proteinInventory, {
+  unit: () => unitSchema.optional(),
+  lowStockPercent: (schema) => schema.int().min(1).max(100),
+  leadTimeDays: (schema) => schema.int().min(0).max(60),
+  safetyStockDays: (schema) => schema.int().min(0).max(60),
+}).omit({
   id: true,
+  proteinType: true,
+  usedAmount: true, // only sales move it, through the stock ledger
   createdAt: true,
   updatedAt: true,
+}).extend({
+  proteinId: z.number().int(),
+  packSize: packSizeSchema,
+});
+
+// Kinds of stock movement. Sales are recorded by the server when orders
+// complete; the rest come from people.
+export const stockMovementTypes = ["receipt", "sale", "waste", "transfer", "count", "adjustment"] as const;
+export type StockMovementType = (typeof stockMovementTypes)[number];
+
+export const insertStockMovementSchema = createInsertSchema(stockMovements, {
+  type: z.enum(stockMovementTypes),
+}).omit({
+  id: true,
+  createdAt: true,
 });
 
+export const insertInventoryItemSchema = createInsertSchema(inventoryItems, {
+  name: (schema) => schema.trim().min(1).max(100),
+  unit: () => unitSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  packSize: packSizeSchema,
+});
+
+// proteinType (and, unless given, the unit and cost) come from the catalogue
+export const insertCommissaryStockSchema = createInsertSchema(commissaryStock, {
+  unit: () => unitSchema.optional(),
+}).omit({
+  id: true,
+  proteinType: true,
+  currentStock: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  proteinId: z.number().int(),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers, {
+  name: (schema) => schema.trim().min(1).max(100),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  email: z.string().trim().email().nullish(),
+});
+
+export const insertMenuCategorySchema = createInsertSchema(menuCategories).omit({
+  id: true,
+  createdAt: true,
+});
+
+// proteinType is copied from the catalogue entry named by proteinId
 export const insertMenuItemSchema = createInsertSchema(menuItems).omit({
   id: true,
+  proteinType: true,
+  archivedAt: true,
+  createdAt: true,
+}).extend({
+  organizationId: z.number().int(),
+  proteinId: z.number().int(),
+});
+
+export const insertTruckMenuItemSchema = createInsertSchema(truckMenuItems).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertModifierGroupSchema = createInsertSchema(modifierGroups, {
+  minSelections: (schema) => schema.int().min(0),
+  maxSelections: (schema) => schema.int().min(1),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// proteinType is copied from the catalogue entry named by proteinId
+export const insertModifierOptionSchema = createInsertSchema(modifierOptions).omit({
+  id: true,
+  proteinType: true,
+  createdAt: true,
+});
+
+export const insertRecipeIngredientSchema = createInsertSchema(recipeIngredients, {
+  ingredient: (schema) => schema.trim().toLowerCase().min(1).max(50),
+  quantity: (schema) => schema.regex(/^\d+(\.\d{1,3})?$/, "Invalid quantity").refine((value) => Number(value) > 0, "Quantity must be more than zero"),
+  unit: () => unitSchema.optional(),
+}).omit({
+  id: true,
+  proteinId: true, // linked by the server when the ingredient names a catalogue protein
   createdAt: true,
 });
 
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
+  inventoryDeducted: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -270,6 +956,216 @@ export const insertReviewSchema = createInsertSchema(reviews).omit({
   createdAt: true,
 });
 
+// Order lifecycle. Anything not listed here is rejected by the server.
+export const orderStatuses = ["pending", "preparing", "ready", "completed", "cancelled", "refunded"] as const;
+export type OrderStatus = (typeof orderStatuses)[number];
+
+export const orderStatusTransitions: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["preparing", "cancelled"],
+  preparing: ["ready", "cancelled"],
+  ready: ["completed", "cancelled"],
+  completed: ["refunded"],
+  cancelled: [],
+  refunded: [],
+};
+
+export function canTransitionOrderStatus(from: string, to: string): boolean {
+  return (orderStatusTransitions[from as OrderStatus] ?? []).includes(to as OrderStatus);
+}
+
+// Orders only move through their lifecycle once placed; lines and totals are
+// fixed so stock is always given back exactly as it was taken
+export const updateOrderSchema = z.object({
+  status: z.enum(orderStatuses),
+});
+
+// Point-of-sale cart submitted by the client. Prices and totals are never
+// accepted from the client; they are looked up from menuItems on the server.
+export const createOrderRequestSchema = z.object({
+  customerName: z.string().trim().max(100).optional(),
+  locationId: z.number().int().positive().optional(),
+  items: z
+    .array(
+      z.object({
+        menuItemId: z.number().int().positive(),
+        quantity: z.number().int().min(1).max(99),
+        modifierOptionIds: z.array(z.number().int().positive()).max(20).default([]),
+      }),
+    )
+    .min(1, "Order must contain at least one item"),
+});
+
+export const wasteReasons = ["dropped", "burned", "expired", "spoiled", "overproduction", "other"] as const;
+export type WasteReason = (typeof wasteReasons)[number];
+
+export const logWasteRequestSchema = z
+  .object({
+    proteinInventoryId: z.number().int().positive(),
+    quantity: z.string().regex(/^\d+(\.\d{1,2})?$/, "Invalid quantity").refine((value) => Number(value) > 0, "Quantity must be above zero"),
+    reasonCode: z.enum(wasteReasons),
+    notes: z.string().trim().max(500).optional(),
+    photo: z
+      .string()
+      .regex(/^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/=]+$/, "Photo must be a JPEG, PNG or WebP image")
+      .max(700_000, "Photo is too large")
+      .optional(),
+  })
+  .refine(({ reasonCode, notes }) => reasonCode !== "other" || !!notes, "Describe what happened when the reason is other");
+
+// Counted quantities for some or all of a truck's proteins. Expected stock
+// and the variance are worked out on the server.
+export const createStockCountRequestSchema = z.object({
+  truckId: z.number().int().positive(),
+  notes: z.string().trim().max(500).optional(),
+  lines: z
+    .array(
+      z.object({
+        proteinInventoryId: z.number().int().positive(),
+        countedQuantity: z.string().regex(/^\d+(\.\d{1,2})?$/, "Invalid quantity"),
+      }),
+    )
+    .min(1, "Count at least one item")
+    .refine(
+      (lines) => new Set(lines.map((line) => line.proteinInventoryId)).size === lines.length,
+      "Each item can only be counted once",
+    ),
+});
+
+// Transfer lifecycle: a truck requests stock, an admin approves and
+// dispatches it from the commissary, and the truck confirms what arrived
+export const transferStatuses = ["requested", "approved", "dispatched", "received", "rejected", "cancelled"] as const;
+export type TransferStatus = (typeof transferStatuses)[number];
+
+export const transferStatusTransitions: Record<TransferStatus, TransferStatus[]> = {
+  requested: ["approved", "rejected", "cancelled"],
+  approved: ["dispatched", "cancelled"],
+  dispatched: ["received"],
+  received: [],
+  rejected: [],
+  cancelled: [],
+};
+
+export function canTransitionTransferStatus(from: string, to: string): boolean {
+  return (transferStatusTransitions[from as TransferStatus] ?? []).includes(to as TransferStatus);
+}
+
+const transferQuantity = z
+  .string()
+  .regex(/^\d+(\.\d{1,2})?$/, "Invalid quantity")
+  .refine((value) => Number(value) > 0, "Quantity must be above zero");
+
+export const createTransferRequestSchema = z.object({
+  proteinInventoryId: z.number().int().positive(),
+  quantity: transferQuantity,
+  notes: z.string().trim().max(500).optional(),
+});
+
+// Moves a transfer to its next status. Dispatch and receive record what was
+// weighed out and in, defaulting to the quantity requested and sent;
+// receiving zero means nothing arrived.
+export const advanceTransferSchema = z.object({
+  status: z.enum(["approved", "rejected", "cancelled", "dispatched", "received"]),
+  quantity: z.string().regex(/^\d+(\.\d{1,2})?$/, "Invalid quantity").optional(),
+});
+
+// Purchase order lifecycle. Drafts are placed ("ordered"), deliveries move
+// them to partially_received/received, and a short-shipped order can be
+// closed once nothing more is coming.
+export const purchaseOrderStatuses = ["draft", "ordered", "partially_received", "received", "closed", "cancelled"] as const;
+export type PurchaseOrderStatus = (typeof purchaseOrderStatuses)[number];
+
+export const purchaseOrderStatusTransitions: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ["ordered", "cancelled"],
+  ordered: ["partially_received", "received", "cancelled"],
+  partially_received: ["received", "closed"],
+  received: [],
+  closed: [],
+  cancelled: [],
+};
+
+export function canTransitionPurchaseOrderStatus(from: string, to: string): boolean {
+  return (purchaseOrderStatusTransitions[from as PurchaseOrderStatus] ?? []).includes(to as PurchaseOrderStatus);
+}
+
+const poQuantity = z
+  .string()
+  .regex(/^\d+(\.\d{1,2})?$/, "Invalid quantity")
+  .refine((value) => Number(value) > 0, "Quantity must be above zero");
+
+export const createPurchaseOrderRequestSchema = z.object({
+  truckId: z.number().int().positive(),
+  supplierId: z.number().int().positive(),
+  expectedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(),
+  notes: z.string().trim().max(500).optional(),
+  lines: z
+    .array(
+      z.object({
+        proteinInventoryId: z.number().int().positive(),
+        unit: unitSchema.optional(),
+        quantityOrdered: poQuantity,
+        unitCost: z.string().regex(/^\d+(\.\d{1,2})?$/, "Invalid cost"),
+      }),
+    )
+    .min(1, "Order at least one item")
+    .max(50)
+    .refine(
+      (lines) => new Set(lines.map((line) => line.proteinInventoryId)).size === lines.length,
+      "Each item can only appear once",
+    ),
+});
+
+// Changes people make by hand; receiving statuses are set by deliveries
+export const updatePurchaseOrderSchema = z.object({
+  status: z.enum(["ordered", "cancelled", "closed"]).optional(),
+  expectedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").nullable().optional(),
+  notes: z.string().trim().max(500).nullable().optional(),
+});
+
+// One delivery against a purchase order; lines not delivered are left out
+export const receivePurchaseOrderSchema = z.object({
+  lines: z
+    .array(
+      z.object({
+        lineId: z.number().int().positive(),
+        quantity: poQuantity,
+      }),
+    )
+    .min(1, "Receive at least one line"),
+});
+
+// A modifier as it was chosen on an order line, priced at the time of sale
+export interface OrderLineModifier {
+  optionId: number;
+  groupName: string;
+  name: string;
+  priceDelta: number; // per item
+  proteinId: number | null;
+  proteinType: string;
+  proteinUsed: number; // extra lbs for the whole line
+}
+
+// How much of one ingredient an order line consumed
+export interface OrderLineIngredient {
+  ingredient: string;
+  proteinId: number | null; // null for general inventory items
+  unit: string;
+  quantity: number; // for the whole line, excluding modifiers
+}
+
+// Shape of each entry stored in orders.items
+export interface OrderLineItem {
+  menuItemId: number;
+  name: string;
+  quantity: number;
+  unitPrice: number; // includes modifier price deltas
+  lineTotal: number;
+  proteinId: number | null; // the catalogue protein
+  proteinType: string; // its name when sold
+  proteinUsed: number; // lbs of protein for the whole line, excluding modifiers
+  modifiers?: OrderLineModifier[]; // absent on orders placed before modifiers existed
+  ingredients?: OrderLineIngredient[]; // absent on orders placed before recipes; use proteinType/proteinUsed
+}
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
@@ -286,14 +1182,137 @@ export type FoodTruck = typeof foodTrucks.$inferSelect;
 export type InsertLocation = z.infer<typeof insertLocationSchema>;
 export type Location = typeof locations.$inferSelect;
 
+export type InsertProtein = z.infer<typeof insertProteinSchema>;
+export type Protein = typeof proteins.$inferSelect;
+
 export type InsertProteinInventory = z.infer<typeof insertProteinInventorySchema>;
 export type ProteinInventory = typeof proteinInventory.$inferSelect;
 
+export const stockAlertKinds = ["low_stock", "overrun"] as const;
+export type StockAlertKind = (typeof stockAlertKinds)[number];
+export type StockAlertSeverity = "low" | "critical";
+export type StockAlertStatus = "open" | "acknowledged" | "resolved";
+
+export type StockAlert = typeof stockAlerts.$inferSelect;
+
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type StockMovement = typeof stockMovements.$inferSelect;
+
+export type StockMovementEntry = StockMovement & {
+  createdByName: string | null;
+};
+
+// A protein row's ledger next to its cached stock; drift means something
+// changed currentStock without recording a movement
+export interface StockHistory {
+  movements: StockMovementEntry[];
+  ledgerBalance: number;
+  currentStock: number;
+  drift: number;
+}
+
+export type InsertCommissaryStock = z.infer<typeof insertCommissaryStockSchema>;
+export type CommissaryStock = typeof commissaryStock.$inferSelect;
+export type CommissaryMovement = typeof commissaryMovements.$inferSelect;
+
+export type StockTransfer = typeof stockTransfers.$inferSelect;
+export type CreateTransferRequest = z.infer<typeof createTransferRequestSchema>;
+export type AdvanceTransfer = z.infer<typeof advanceTransferSchema>;
+
+export type StockTransferEntry = StockTransfer & {
+  truckName: string;
+  proteinType: string;
+  unit: string;
+};
+
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type Supplier = typeof suppliers.$inferSelect;
+
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+export type CreatePurchaseOrderRequest = z.infer<typeof createPurchaseOrderRequestSchema>;
+export type UpdatePurchaseOrder = z.infer<typeof updatePurchaseOrderSchema>;
+export type ReceivePurchaseOrderRequest = z.infer<typeof receivePurchaseOrderSchema>;
+
+export type PurchaseOrderWithLines = PurchaseOrder & {
+  supplierName: string;
+  lines: (PurchaseOrderLine & { itemName: string; unit: string })[];
+  total: number; // ordered quantity x unit cost
+};
+
+export type WasteLog = typeof wasteLogs.$inferSelect;
+export type LogWasteRequest = z.infer<typeof logWasteRequestSchema>;
+
+// A waste log entry as listed; photos are fetched separately
+export type WasteLogEntry = Omit<WasteLog, "photo"> & {
+  itemName: string;
+  loggedByName: string | null;
+  hasPhoto: boolean;
+};
+
+export type StockCount = typeof stockCounts.$inferSelect;
+export type StockCountLine = typeof stockCountLines.$inferSelect;
+export type CreateStockCountRequest = z.infer<typeof createStockCountRequestSchema>;
+
+// A count with its lines; varianceValue is the net dollar variance of the
+// lines that have a cost, so a negative value is shrinkage
+export type StockCountWithLines = StockCount & {
+  countedByName: string | null;
+  lines: StockCountLine[];
+  varianceValue: number;
+};
+
+export type InsertInventoryItem = z.infer<typeof insertInventoryItemSchema>;
+export type InventoryItem = typeof inventoryItems.$inferSelect;
+
 export type InsertMenuItem = z.infer<typeof insertMenuItemSchema>;
 export type MenuItem = typeof menuItems.$inferSelect;
 
+export type InsertMenuCategory = z.infer<typeof insertMenuCategorySchema>;
+export type MenuCategory = typeof menuCategories.$inferSelect;
+
+export type InsertTruckMenuItem = z.infer<typeof insertTruckMenuItemSchema>;
+export type TruckMenuItem = typeof truckMenuItems.$inferSelect;
+
+export type InsertModifierGroup = z.infer<typeof insertModifierGroupSchema>;
+export type ModifierGroup = typeof modifierGroups.$inferSelect;
+
+export type InsertModifierOption = z.infer<typeof insertModifierOptionSchema>;
+export type ModifierOption = typeof modifierOptions.$inferSelect;
+
+export type InsertRecipeIngredient = z.infer<typeof insertRecipeIngredientSchema>;
+export type RecipeIngredient = typeof recipeIngredients.$inferSelect;
+
+// One line of the recipe a menu item is actually made with: its own recipe
+// rows, or a single line built from proteinType/proteinAmount
+export type RecipeLine = Pick<RecipeIngredient, "ingredient" | "proteinId" | "quantity" | "unit">;
+
+export type ModifierGroupWithOptions = ModifierGroup & {
+  options: ModifierOption[];
+  menuItemIds: number[]; // items the group is offered on
+};
+
+// A menu item as one truck sells it: `price` is the truck's override when it
+// has one, otherwise the item's base price
+export type TruckMenuEntry = MenuItem & {
+  basePrice: string;
+  priceOverride: string | null;
+  isAvailable: boolean;
+  categoryName: string | null;
+  modifierGroups: ModifierGroupWithOptions[]; // active options only
+  recipe: RecipeLine[];
+  plateCost: number | null; // recipe at this truck's stock costs; null if any ingredient has no cost
+};
+
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type Order = typeof orders.$inferSelect;
+export type CreateOrderRequest = z.infer<typeof createOrderRequestSchema>;
+export type UpdateOrder = z.infer<typeof updateOrderSchema>;
+
+export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
+export type OrderStatusHistoryEntry = OrderStatusHistory & {
+  changedByName: string | null;
+};
 
 export type InsertReview = z.infer<typeof insertReviewSchema>;
 export type Review = typeof reviews.$inferSelect;
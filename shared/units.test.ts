@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { canConvert, convertQuantity, normalizeUnit, unitSchema, UnitConversionError } from "./units";
+
+const CASE_OF_40_LBS = { size: 40, unit: "lbs" };
+
+describe("normalizeUnit", () => {
+  it("keeps registry units as they are", () => {
+    expect(normalizeUnit("lbs")).toBe("lbs");
+    expect(normalizeUnit("fl oz")).toBe("fl oz");
+  });
+
+  it("maps aliases, ignoring case and spacing", () => {
+    expect(normalizeUnit("lb")).toBe("lbs");
+    expect(normalizeUnit(" Pounds ")).toBe("lbs");
+    expect(normalizeUnit("litre")).toBe("liters");
+    expect(normalizeUnit("case")).toBe("cases");
+  });
+
+  it("doesn't know made-up units", () => {
+    expect(normalizeUnit("handfuls")).toBeUndefined();
+  });
+});
+
+describe("convertQuantity", () => {
+  it("converts between mass units", () => {
+    expect(convertQuantity(1, "kg", "g")).toBe(1000);
+    expect(convertQuantity(1, "lbs", "oz")).toBeCloseTo(16);
+    expect(convertQuantity(2, "lbs", "kg")).toBeCloseTo(0.907, 3);
+  });
+
+  it("converts through aliases", () => {
+    expect(convertQuantity(32, "ounces", "lb")).toBeCloseTo(2);
+  });
+
+  it("rejects units from different dimensions", () => {
+    expect(() => convertQuantity(1, "lbs", "liters")).toThrow(UnitConversionError);
+    expect(() => convertQuantity(1, "pieces", "oz")).toThrow(UnitConversionError);
+  });
+
+  it("converts packs through the pack size", () => {
+    expect(convertQuantity(2, "cases", "lbs", CASE_OF_40_LBS)).toBe(80);
+    expect(convertQuantity(20, "lbs", "cases", CASE_OF_40_LBS)).toBe(0.5);
+    expect(convertQuantity(1, "cases", "kg", CASE_OF_40_LBS)).toBeCloseTo(18.144, 3);
+  });
+
+  it("needs a pack size to convert packs", () => {
+    expect(() => convertQuantity(1, "cases", "lbs")).toThrow(UnitConversionError);
+    expect(() => convertQuantity(1, "lbs", "boxes", null)).toThrow(UnitConversionError);
+    expect(() => convertQuantity(1, "cases", "lbs", { size: 0, unit: "lbs" })).toThrow(UnitConversionError);
+  });
+
+  it("won't convert one kind of pack to another", () => {
+    expect(() => convertQuantity(1, "boxes", "cases", CASE_OF_40_LBS)).toThrow(UnitConversionError);
+  });
+
+  it("leaves a quantity in the same unit alone, packs included", () => {
+    expect(convertQuantity(3, "cases", "cases")).toBe(3);
+    expect(convertQuantity(3, "lb", "lbs")).toBe(3);
+  });
+
+  it("only converts unknown units to themselves", () => {
+    expect(convertQuantity(5, "handfuls", "handfuls")).toBe(5);
+    expect(() => convertQuantity(5, "handfuls", "lbs")).toThrow(UnitConversionError);
+  });
+});
+
+describe("canConvert", () => {
+  it("reports whether a conversion would work", () => {
+    expect(canConvert("g", "lbs")).toBe(true);
+    expect(canConvert("cups", "lbs")).toBe(false);
+    expect(canConvert("cases", "lbs")).toBe(false);
+    expect(canConvert("cases", "lbs", CASE_OF_40_LBS)).toBe(true);
+  });
+});
+
+describe("unitSchema", () => {
+  it("stores aliases as the registry unit", () => {
+    expect(unitSchema.parse("Pound")).toBe("lbs");
+  });
+
+  it("rejects unknown units", () => {
+    expect(unitSchema.safeParse("handfuls").success).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import { z } from "zod";
+
+// Units of measure shared by the API and the client. Mass, volume and count
+// units convert through a base unit (grams, millilitres, pieces). Pack units
+// (a box, bag or case) hold a different amount of each item, so they only
+// convert through that item's pack size.
+export const unitDimensions = ["mass", "volume", "count", "pack"] as const;
+export type UnitDimension = (typeof unitDimensions)[number];
+
+export const unitRegistry = {
+  lbs: { label: "Pounds", dimension: "mass", toBase: 453.59237 },
+  oz: { label: "Ounces", dimension: "mass", toBase: 28.349523125 },
+  kg: { label: "Kilograms", dimension: "mass", toBase: 1000 },
+  g: { label: "Grams", dimension: "mass", toBase: 1 },
+  gallons: { label: "Gallons", dimension: "volume", toBase: 3785.411784 },
+  quarts: { label: "Quarts", dimension: "volume", toBase: 946.352946 },
+  cups: { label: "Cups", dimension: "volume", toBase: 236.5882365 },
+  "fl oz": { label: "Fluid ounces", dimension: "volume", toBase: 29.5735295625 },
+  liters: { label: "Liters", dimension: "volume", toBase: 1000 },
+  ml: { label: "Milliliters", dimension: "volume", toBase: 1 },
+  pieces: { label: "Pieces", dimension: "count", toBase: 1 },
+  dozen: { label: "Dozen", dimension: "count", toBase: 12 },
+  boxes: { label: "Boxes", dimension: "pack", toBase: 1 },
+  bags: { label: "Bags", dimension: "pack", toBase: 1 },
+  cases: { label: "Cases", dimension: "pack", toBase: 1 },
+} satisfies Record<string, { label: string; dimension: UnitDimension; toBase: number }>;
+
+export type Unit = keyof typeof unitRegistry;
+export const units = Object.keys(unitRegistry) as Unit[];
+
+// Other spellings people type, mapped to the registry key
+const unitAliases: Record<string, Unit> = {
+  lb: "lbs",
+  pound: "lbs",
+  pounds: "lbs",
+  ounce: "oz",
+  ounces: "oz",
+  kgs: "kg",
+  kilogram: "kg",
+  kilograms: "kg",
+  gram: "g",
+  grams: "g",
+  gal: "gallons",
+  gallon: "gallons",
+  qt: "quarts",
+  quart: "quarts",
+  cup: "cups",
+  floz: "fl oz",
+  l: "liters",
+  liter: "liters",
+  litre: "liters",
+  litres: "liters",
+  milliliter: "ml",
+  milliliters: "ml",
+  piece: "pieces",
+  pcs: "pieces",
+  each: "pieces",
+  ea: "pieces",
+  box: "boxes",
+  bag: "bags",
+  case: "cases",
+};
+
+export class UnitConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnitConversionError";
+  }
+}
+
+// How much of the item's own unit one pack holds, e.g. 40 lbs to a case
+export interface PackSize {
+  size: number;
+  unit: string;
+}
+
+export function normalizeUnit(unit: string): Unit | undefined {
+  const key = unit.trim().toLowerCase();
+  return key in unitRegistry ? (key as Unit) : unitAliases[key];
+}
+
+export function unitDimension(unit: string): UnitDimension | undefined {
+  const known = normalizeUnit(unit);
+  return known && unitRegistry[known].dimension;
+}
+
+// Converts between two units, going through the pack size when either side
+// is a pack. Unknown units only "convert" to themselves.
+export function convertQuantity(quantity: number, from: string, to: string, pack?: PackSize | null): number {
+  const source = normalizeUnit(from);
+  const target = normalizeUnit(to);
+  if (source === target && (source || from.trim() === to.trim())) {
+    return quantity;
+  }
+  if (!source || !target) {
+    throw new UnitConversionError(`Can't convert ${from} to ${to}`);
+  }
+
+  const sourceIsPack = unitRegistry[source].dimension === "pack";
+  const targetIsPack = unitRegistry[target].dimension === "pack";
+  if (sourceIsPack || targetIsPack) {
+    if (!pack || pack.size <= 0 || normalizeUnit(pack.unit) === undefined) {
+      throw new UnitConversionError(`Set a pack size to convert between ${from} and ${to}`);
+    }
+    if (sourceIsPack && targetIsPack) {
+      throw new UnitConversionError(`Can't convert ${from} to ${to}`);
+    }
+    return sourceIsPack
+      ? convertQuantity(quantity * pack.size, pack.unit, to)
+      : convertQuantity(quantity, from, pack.unit) / pack.size;
+  }
+
+  if (unitRegistry[source].dimension !== unitRegistry[target].dimension) {
+    throw new UnitConversionError(`Can't convert ${from} (${unitRegistry[source].dimension}) to ${to} (${unitRegistry[target].dimension})`);
+  }
+  return (quantity * unitRegistry[source].toBase) / unitRegistry[target].toBase;
+}
+
+export function canConvert(from: string, to: string, pack?: PackSize | null): boolean {
+  try {
+    convertQuantity(1, from, to, pack);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A unit from the registry (or one of its aliases), stored as the registry key
+export const unitSchema = z
+  .string()
+  .trim()
+  .refine((unit) => normalizeUnit(unit) !== undefined, "Unknown unit")
+  .transform((unit) => normalizeUnit(unit)!);